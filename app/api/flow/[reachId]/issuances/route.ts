@@ -0,0 +1,123 @@
+// app/api/flow/[reachId]/issuances/route.ts
+/**
+ * API Route: GET /api/flow/[reachId]/issuances
+ * Archived forecast issuances (one mean series per model run), newest first
+ *
+ * Issuances are archived as forecasts are served by /api/flow, so a reach only
+ * has history from the first time it was requested on this server.
+ *
+ * Query Parameters:
+ * - horizon: 'short' | 'medium' | 'medium_blend' | 'long' (default: 'short')
+ * - limit: number of issuances, 1-48 (default: 6)
+ *
+ * Examples:
+ * - GET /api/flow/10376192/issuances → last 6 short-range runs
+ * - GET /api/flow/10376192/issuances?horizon=medium&limit=4 → last 4 medium-range runs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ForecastIssuanceHistory, ApiResponse, ReachId } from '@/types';
+import {
+  getForecastIssuances,
+  isArchivedHorizon,
+  MAX_ISSUANCES_PER_SERIES
+} from '@/services/forecastArchiveService';
+import { toReachId } from '@/lib/utils/ids';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type IssuancesApiResponse = ApiResponse<ForecastIssuanceHistory>;
+
+const DEFAULT_LIMIT = 6;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reachId: string }> }
+): Promise<NextResponse<IssuancesApiResponse>> {
+  let reachId: ReachId;
+  let rawReachId: string = 'unknown';
+
+  try {
+    // Await params in Next.js 15
+    const resolvedParams = await params;
+    rawReachId = resolvedParams.reachId;
+
+    if (!rawReachId) {
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
+    }
+
+    // Convert to branded ReachId type
+    reachId = toReachId(rawReachId);
+
+    // Basic reachId format validation (also keeps the archive path safe)
+    if (!isValidReachId(rawReachId)) {
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
+    }
+
+    // Extract and validate horizon/limit parameters
+    const { searchParams } = new URL(request.url);
+    const horizonParam = searchParams.get('horizon') || 'short';
+    const limitParam = searchParams.get('limit') || String(DEFAULT_LIMIT);
+
+    if (!isArchivedHorizon(horizonParam)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid horizon parameter. Must be one of: short, medium, medium_blend, long. Got: ${horizonParam}`
+      );
+    }
+
+    const limit = Number(limitParam);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ISSUANCES_PER_SERIES) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid limit parameter. Must be an integer from 1 to ${MAX_ISSUANCES_PER_SERIES}. Got: ${limitParam}`
+      );
+    }
+
+    const history = await getForecastIssuances(reachId, horizonParam, limit);
+
+    console.log(`✓ Successfully returned ${history.issuances.length} ${horizonParam} issuances for ${reachId}`);
+
+    // Success response
+    return NextResponse.json(
+      {
+        ok: true,
+        data: history
+      },
+      {
+        status: 200,
+        headers: {
+          // New issuances arrive at most hourly
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Forecast issuances API error for reach ${rawReachId}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while reading forecast issuances', 'REACH_NOT_FOUND');
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -4,28 +4,31 @@
  * App Router version - returns normalized streamflow forecast
  * 
  * Query Parameters:
- * - range: 'short' | 'medium' | 'long' | 'all' (default: 'short')
+ * - range: 'analysis' | 'short' | 'medium' | 'medium_blend' | 'long' | 'all' (default: 'short')
+ * - members: 'true' | 'false' (default: 'false') - include medium/long ensemble members
  * 
  * Examples:
  * - GET /api/flow/10376192 → short-range forecast (18-hour)
+ * - GET /api/flow/10376192?range=analysis → analysis & assimilation (observed/nowcast)
  * - GET /api/flow/10376192?range=medium → medium-range forecast (~10-day)
+ * - GET /api/flow/10376192?range=medium&members=true → medium-range mean + every ensemble member
+ * - GET /api/flow/10376192?range=medium_blend → medium-range blend forecast (~10-day)
  * - GET /api/flow/10376192?range=long → long-range forecast (~30-day)
  * - GET /api/flow/10376192?range=all → all available ranges combined
+ * 
+ * Caching:
+ * - Upstream NOAA responses are cached server-side (stale-while-revalidate)
+ * - Responses carry Cache-Control + ETag; If-None-Match → 304 Not Modified
  */
 
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import type { NormalizedFlowForecast, ApiResponse, ReachId } from '@/types';
-import { 
-  getShortRangeForecast,
-  getMediumRangeForecast, 
-  getLongRangeForecast,
-  getAllRangeForecasts 
-} from '@/services/noaaService';
+import type { NormalizedFlowForecast, ApiResponse, ReachId, ForecastRange } from '@/types';
+import { getForecastByRange } from '@/services/noaaService';
 import { toReachId } from '@/lib/utils/ids';
-import { ApiError } from '@/types/utils';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
 
 type FlowApiResponse = ApiResponse<NormalizedFlowForecast>;
-type ForecastRange = 'short' | 'medium' | 'long' | 'all';
 
 export async function GET(
   request: NextRequest,
@@ -40,13 +43,7 @@ export async function GET(
     rawReachId = resolvedParams.reachId;
     
     if (!rawReachId) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: 'Missing reachId parameter'
-        },
-        { status: 400 }
-      );
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
     }
 
     // Convert to branded ReachId type
@@ -54,13 +51,7 @@ export async function GET(
     
     // Basic reachId format validation
     if (!isValidReachId(rawReachId)) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: 'Invalid reachId format'
-        },
-        { status: 400 }
-      );
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
     }
 
     // Extract and validate range parameter
@@ -68,61 +59,32 @@ export async function GET(
     const rangeParam = searchParams.get('range') || 'short';
     
     if (!isValidRange(rangeParam)) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: `Invalid range parameter. Must be one of: short, medium, long, all. Got: ${rangeParam}`
-        },
-        { status: 400 }
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid range parameter. Must be one of: analysis, short, medium, medium_blend, long, all. Got: ${rangeParam}`
       );
     }
 
     const range = rangeParam as ForecastRange;
 
-    // Fetch forecast data using the appropriate service function
-    let forecast: NormalizedFlowForecast;
-    
-    switch (range) {
-      case 'short':
-        console.log(`Fetching short-range forecast for reach ${reachId}`);
-        forecast = await getShortRangeForecast(reachId);
-        break;
-        
-      case 'medium':
-        console.log(`Fetching medium-range forecast for reach ${reachId}`);
-        forecast = await getMediumRangeForecast(reachId);
-        break;
-        
-      case 'long':
-        console.log(`Fetching long-range forecast for reach ${reachId}`);
-        forecast = await getLongRangeForecast(reachId);
-        break;
-        
-      case 'all':
-        console.log(`Fetching all available forecasts for reach ${reachId}`);
-        forecast = await getAllRangeForecasts(reachId);
-        break;
-        
-      default:
-        // TypeScript should catch this, but just in case
-        return NextResponse.json(
-          {
-            ok: false,
-            error: `Unsupported range: ${range}`
-          },
-          { status: 400 }
-        );
+    // Extract and validate members parameter (short range has no ensemble; ignored there)
+    const membersParam = searchParams.get('members') || 'false';
+
+    if (membersParam !== 'true' && membersParam !== 'false') {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid members parameter. Must be one of: true, false. Got: ${membersParam}`
+      );
     }
+
+    const includeMembers = membersParam === 'true';
+
+    // Fetch forecast data for the requested range
+    const forecast = await getForecastByRange(reachId, range, { includeMembers });
     
     // Validate we got data back
     if (!forecast || !forecast.series || forecast.series.length === 0) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: `No ${range} forecast data found for reach ${reachId}`
-        },
-        { status: 404 }
-      );
+      return errorResponse('REACH_NOT_FOUND', `No ${range} forecast data found for reach ${reachId}`);
     }
 
     // Add metadata about the request to the response
@@ -130,12 +92,30 @@ export async function GET(
       ...forecast,
       metadata: {
         requestedRange: range,
-        availableHorizons: forecast.series.map(s => s.horizon),
+        includeMembers,
+        availableHorizons: Array.from(new Set(forecast.series.map(s => s.horizon))),
+        memberCount: forecast.series.filter(s => s.label !== 'mean').length,
         totalDataPoints: forecast.series.reduce((sum, s) => sum + s.points.length, 0),
         fetchedAt: new Date().toISOString()
       }
     };
 
+    // Cache short-range/analysis for 5 minutes, longer ranges for 15 minutes
+    const cacheHeaders = {
+      'Cache-Control': range === 'short' || range === 'analysis'
+        ? 'public, s-maxage=300, stale-while-revalidate=600'
+        : 'public, s-maxage=900, stale-while-revalidate=1800',
+      'ETag': createForecastETag(forecast, range, includeMembers)
+    };
+
+    // Client already has this issuance
+    if (matchesIfNoneMatch(request.headers.get('if-none-match'), cacheHeaders.ETag)) {
+      return new NextResponse(null, {
+        status: 304,
+        headers: cacheHeaders
+      }) as NextResponse<FlowApiResponse>;
+    }
+
     console.log(`✓ Successfully returned ${range} forecast with ${responseData.metadata.totalDataPoints} total data points`);
 
     // Success response
@@ -146,42 +126,14 @@ export async function GET(
       },
       { 
         status: 200,
-        headers: {
-          // Cache short-range for 5 minutes, longer ranges for 15 minutes
-          'Cache-Control': range === 'short' 
-            ? 'public, s-maxage=300, stale-while-revalidate=600'
-            : 'public, s-maxage=900, stale-while-revalidate=1800'
-        }
+        headers: cacheHeaders
       }
     );
 
   } catch (error) {
     console.error(`Flow API error for reach ${rawReachId}:`, error);
     
-    // Handle structured API errors
-    if (ApiError.isApiError(error)) {
-      const statusCode = error.statusCode >= 400 && error.statusCode < 600 
-        ? error.statusCode 
-        : 500;
-        
-      return NextResponse.json(
-        {
-          ok: false,
-          error: error.message,
-          context: error.details || undefined
-        },
-        { status: statusCode }
-      );
-    }
-    
-    // Handle unexpected errors
-    return NextResponse.json(
-      {
-        ok: false,
-        error: 'Internal server error while fetching flow data'
-      },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Internal server error while fetching flow data', 'REACH_NOT_FOUND');
   }
 }
 
@@ -193,11 +145,38 @@ function isValidReachId(reachId: string): boolean {
   return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
 }
 
+/**
+ * Build a weak ETag from the forecast content (not fetch time)
+ * Changes only when NOAA issues a new run or the request shape differs
+ */
+function createForecastETag(
+  forecast: NormalizedFlowForecast,
+  range: ForecastRange,
+  includeMembers: boolean
+): string {
+  const hash = createHash('sha1')
+    .update(`${forecast.reachId}|${range}|${includeMembers}|`)
+    .update(JSON.stringify(forecast.series))
+    .digest('base64url');
+  return `W/"${hash}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the ETag
+ * Handles lists and `*`; compares weakly (W/ prefixes ignored), as RFC 9110 requires
+ */
+function matchesIfNoneMatch(header: string | null, etag: string): boolean {
+  if (!header) return false;
+
+  const opaqueTag = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => tag.trim() === '*' || opaqueTag(tag) === opaqueTag(etag));
+}
+
 /**
  * Validate range parameter
  */
 function isValidRange(range: string): range is ForecastRange {
-  return ['short', 'medium', 'long', 'all'].includes(range);
+  return ['analysis', 'short', 'medium', 'medium_blend', 'long', 'all'].includes(range);
 }
 
 /**
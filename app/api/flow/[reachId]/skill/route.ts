@@ -0,0 +1,107 @@
+// app/api/flow/[reachId]/skill/route.ts
+/**
+ * API Route: GET /api/flow/[reachId]/skill
+ * Forecast verification: archived issuances scored against the analysis & assimilation record
+ *
+ * Metrics per lead-time window: bias, MAE, Nash–Sutcliffe efficiency; plus peak timing error.
+ * Only runs archived by this server (see /api/flow/[reachId]/issuances) can be verified.
+ *
+ * Query Parameters:
+ * - horizon: 'short' | 'medium' | 'medium_blend' | 'long' (default: 'short')
+ *
+ * Examples:
+ * - GET /api/flow/10376192/skill → short-range skill in 6-hour lead windows
+ * - GET /api/flow/10376192/skill?horizon=medium → medium-range skill in 1-day lead windows
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ForecastSkill, ApiResponse, ReachId } from '@/types';
+import { isArchivedHorizon } from '@/services/forecastArchiveService';
+import { getForecastSkill } from '@/services/forecastSkillService';
+import { toReachId } from '@/lib/utils/ids';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type SkillApiResponse = ApiResponse<ForecastSkill>;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reachId: string }> }
+): Promise<NextResponse<SkillApiResponse>> {
+  let reachId: ReachId;
+  let rawReachId: string = 'unknown';
+
+  try {
+    // Await params in Next.js 15
+    const resolvedParams = await params;
+    rawReachId = resolvedParams.reachId;
+
+    if (!rawReachId) {
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
+    }
+
+    // Convert to branded ReachId type
+    reachId = toReachId(rawReachId);
+
+    // Basic reachId format validation (also keeps the archive path safe)
+    if (!isValidReachId(rawReachId)) {
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
+    }
+
+    // Extract and validate horizon parameter
+    const { searchParams } = new URL(request.url);
+    const horizonParam = searchParams.get('horizon') || 'short';
+
+    if (!isArchivedHorizon(horizonParam)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid horizon parameter. Must be one of: short, medium, medium_blend, long. Got: ${horizonParam}`
+      );
+    }
+
+    const skill = await getForecastSkill(reachId, horizonParam);
+
+    console.log(`✓ Successfully returned ${horizonParam} skill (${skill.issuanceCount} issuances) for ${reachId}`);
+
+    // Success response
+    return NextResponse.json(
+      {
+        ok: true,
+        data: skill
+      },
+      {
+        status: 200,
+        headers: {
+          // Verification only changes as new analysis hours arrive
+          'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=1800'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Forecast skill API error for reach ${rawReachId}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while computing forecast skill', 'REACH_NOT_FOUND');
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,175 @@
+// app/api/flow/batch/route.ts
+/**
+ * Batch Flow Forecast API Route
+ *
+ * Fetches forecasts for many reaches in one round-trip.
+ *
+ * Endpoint: POST /api/flow/batch
+ * Body: { reachIds: string[], range?: ForecastRange, members?: boolean }
+ *
+ * Examples:
+ * - POST /api/flow/batch  { "reachIds": ["10376192", "10376193"] }
+ * - POST /api/flow/batch  { "reachIds": ["10376192"], "range": "medium", "members": true }
+ *
+ * Features:
+ * - Per-reach results: one failing reach does not fail the batch
+ * - Duplicate reach IDs are fetched once
+ * - Upstream requests run with limited concurrency and share the server-side forecast cache
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  ApiResponse,
+  BatchFlowResponse,
+  BatchFlowResult,
+  ForecastRange
+} from '@/types';
+import { getForecastByRange } from '@/services/noaaService';
+import { toReachId } from '@/lib/utils/ids';
+import { mapWithConcurrency } from '@/lib/utils/async';
+import { errorResponse, classifyError } from '@/lib/utils/apiResponses';
+
+type BatchFlowApiResponse = ApiResponse<BatchFlowResponse>;
+
+/** Upper bound on reaches per request */
+const MAX_BATCH_SIZE = 50;
+/** Reaches fetched from NOAA at the same time */
+const BATCH_CONCURRENCY = 6;
+
+/**
+ * POST handler for batch flow requests
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<BatchFlowApiResponse>> {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('INVALID_PARAM', 'Request body must be valid JSON');
+  }
+
+  const { reachIds, range: rangeParam = 'short', members = false } = (body ?? {}) as Record<string, unknown>;
+
+  if (!Array.isArray(reachIds) || reachIds.length === 0) {
+    return errorResponse('INVALID_PARAM', 'reachIds must be a non-empty array');
+  }
+
+  // De-duplicate while keeping request order
+  const uniqueReachIds = Array.from(new Set(reachIds.map(id => String(id).trim())));
+
+  if (uniqueReachIds.length > MAX_BATCH_SIZE) {
+    return errorResponse(
+      'INVALID_PARAM',
+      `Too many reaches. Maximum is ${MAX_BATCH_SIZE}, got ${uniqueReachIds.length}`
+    );
+  }
+
+  if (typeof rangeParam !== 'string' || !isValidRange(rangeParam)) {
+    return errorResponse(
+      'INVALID_PARAM',
+      `Invalid range. Must be one of: analysis, short, medium, medium_blend, long, all. Got: ${rangeParam}`
+    );
+  }
+
+  if (typeof members !== 'boolean') {
+    return errorResponse('INVALID_PARAM', `Invalid members value. Must be a boolean. Got: ${members}`);
+  }
+
+  const range: ForecastRange = rangeParam;
+  const includeMembers = members;
+
+  console.log(`Fetching ${range} forecast for ${uniqueReachIds.length} reaches (batch)`);
+
+  const results = await mapWithConcurrency(
+    uniqueReachIds,
+    BATCH_CONCURRENCY,
+    rawReachId => fetchReachResult(rawReachId, range, includeMembers)
+  );
+
+  const succeeded = results.filter(r => r.ok).length;
+  console.log(`✓ Batch complete: ${succeeded}/${results.length} reaches succeeded`);
+
+  return NextResponse.json(
+    {
+      ok: true,
+      data: {
+        range,
+        includeMembers,
+        results,
+        fetchedAt: new Date().toISOString()
+      }
+    },
+    {
+      status: 200,
+      headers: {
+        'Cache-Control': 'no-store'
+      }
+    }
+  );
+}
+
+/**
+ * Fetch one reach, converting failures into a per-reach error result
+ */
+async function fetchReachResult(
+  rawReachId: string,
+  range: ForecastRange,
+  includeMembers: boolean
+): Promise<BatchFlowResult> {
+  if (!isValidReachId(rawReachId)) {
+    return { reachId: rawReachId, ok: false, error: 'Invalid reachId format', code: 'INVALID_PARAM', status: 400 };
+  }
+
+  try {
+    const forecast = await getForecastByRange(toReachId(rawReachId), range, { includeMembers });
+
+    if (!forecast.series || forecast.series.length === 0) {
+      return {
+        reachId: rawReachId,
+        ok: false,
+        error: `No ${range} forecast data found for reach ${rawReachId}`,
+        code: 'REACH_NOT_FOUND',
+        status: 404
+      };
+    }
+
+    return { reachId: rawReachId, ok: true, data: forecast, status: 200 };
+
+  } catch (error) {
+    console.error(`Batch flow error for reach ${rawReachId}:`, error);
+
+    const { code, message, status } = classifyError(error, 'Internal server error while fetching flow data', 'REACH_NOT_FOUND');
+    return { reachId: rawReachId, ok: false, error: message, code, status };
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Validate range parameter
+ */
+function isValidRange(range: string): range is ForecastRange {
+  return ['analysis', 'short', 'medium', 'medium_blend', 'long', 'all'].includes(range);
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,115 @@
+// app/api/geocode/forward/route.ts
+/**
+ * API Route: GET /api/geocode/forward
+ * Places matching free text, from the configured geocoding provider
+ *
+ * The provider token stays on the server. Results are shared by all clients through
+ * a persistent cache (see services/geocodeProxyService.ts), and upstream requests are
+ * rate limited (RATE_LIMITED with retryAfter).
+ *
+ * Query Parameters:
+ * - q: place name or address, 1 to 200 characters (required)
+ * - limit: maximum results, 1 to 10 (optional, default: 5)
+ * - lat, lon: bias results toward this point (optional, both or neither)
+ * - language: result language (optional, default: en)
+ *
+ * Examples:
+ * - GET /api/geocode/forward?q=portland%2C%20maine → [{ name: "Portland", fullName: "Portland, Maine, United States", ... }]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import type { Coordinates, GeocodedPlace } from '@/types/models/Location';
+import { proxyForwardGeocode } from '@/services/geocodeProxyService';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type ForwardGeocodeApiResponse = ApiResponse<GeocodedPlace[]>;
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_LIMIT = 10;
+const LANGUAGE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})?$/;
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ForwardGeocodeApiResponse>> {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get('q')?.trim() ?? '';
+  const limitParam = searchParams.get('limit');
+  const latParam = searchParams.get('lat');
+  const lonParam = searchParams.get('lon');
+  const language = searchParams.get('language') || 'en';
+
+  try {
+    if (!query || query.length > MAX_QUERY_LENGTH) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid q parameter. Must be 1 to ${MAX_QUERY_LENGTH} characters.`
+      );
+    }
+
+    const limit = limitParam ? Number(limitParam) : 5;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid limit parameter. Must be an integer from 1 to ${MAX_LIMIT}. Got: ${limitParam}`
+      );
+    }
+
+    let proximity: Coordinates | undefined;
+    if (latParam || lonParam) {
+      const lat = Number(latParam);
+      const lon = Number(lonParam);
+
+      if (!latParam || !lonParam || !Number.isFinite(lat) || !Number.isFinite(lon) ||
+          lat < -90 || lat > 90 || lon < -180 || lon > 180) {
+        return errorResponse(
+          'INVALID_PARAM',
+          `Invalid lat/lon parameters. Both are required, lat from -90 to 90 and lon from -180 to 180. Got: ${latParam},${lonParam}`
+        );
+      }
+      proximity = { latitude: lat, longitude: lon };
+    }
+
+    if (!LANGUAGE_PATTERN.test(language)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid language parameter. Must be a language tag like "en" or "pt-BR". Got: ${language}`
+      );
+    }
+
+    const places = await proxyForwardGeocode(query, { limit, proximity, language });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: places
+      },
+      {
+        status: 200,
+        headers: {
+          // Search-as-you-type repeats queries; cache for an hour
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Forward geocode API error for "${query}":`, error);
+
+    return toErrorResponse(error, 'Internal server error while searching places');
+  }
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
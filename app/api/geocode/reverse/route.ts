@@ -0,0 +1,98 @@
+// app/api/geocode/reverse/route.ts
+/**
+ * API Route: GET /api/geocode/reverse
+ * Place name (city, state, country) at a point, from the configured geocoding provider
+ *
+ * The provider token stays on the server. Results are shared by all clients through
+ * a persistent cache keyed to 4 decimal places (see services/geocodeProxyService.ts),
+ * and upstream requests are rate limited (RATE_LIMITED with retryAfter).
+ * Returns `data: null` when the provider has nothing at the point (e.g. open ocean).
+ *
+ * Query Parameters:
+ * - lat: latitude, -90 to 90 (required)
+ * - lon: longitude, -180 to 180 (required)
+ * - language: result language (optional, default: en)
+ *
+ * Examples:
+ * - GET /api/geocode/reverse?lat=40.2338&lon=-111.6585 → { display: "Provo, Utah, United States", ... }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import type { NormalizedLocation } from '@/types/models/Location';
+import { proxyReverseGeocode } from '@/services/geocodeProxyService';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type ReverseGeocodeApiResponse = ApiResponse<NormalizedLocation | null>;
+
+const LANGUAGE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})?$/;
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ReverseGeocodeApiResponse>> {
+  const { searchParams } = new URL(request.url);
+  const latParam = searchParams.get('lat');
+  const lonParam = searchParams.get('lon');
+  const language = searchParams.get('language') || 'en';
+
+  try {
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+
+    if (!latParam || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lat parameter. Must be a number from -90 to 90. Got: ${latParam}`
+      );
+    }
+
+    if (!lonParam || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lon parameter. Must be a number from -180 to 180. Got: ${lonParam}`
+      );
+    }
+
+    if (!LANGUAGE_PATTERN.test(language)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid language parameter. Must be a language tag like "en" or "pt-BR". Got: ${language}`
+      );
+    }
+
+    const location = await proxyReverseGeocode({ latitude: lat, longitude: lon }, language);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: location
+      },
+      {
+        status: 200,
+        headers: {
+          // Place names rarely change; cache for a day
+          'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Reverse geocode API error for ${latParam},${lonParam}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while reverse geocoding');
+  }
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
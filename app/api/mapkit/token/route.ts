@@ -0,0 +1,48 @@
+// app/api/mapkit/token/route.ts
+/**
+ * API Route: GET /api/mapkit/token
+ * Short-lived MapKit JS authorization token, signed server-side
+ *
+ * The Maps private key never reaches the client; tokens are restricted to the app
+ * origin (publicConfig.appOrigin) and live 30 minutes. MapKit JS calls this from its
+ * authorizationCallback whenever it needs a fresh token.
+ *
+ * Examples:
+ * - GET /api/mapkit/token → { ok: true, data: { token, expiresAt } }
+ */
+
+import { NextResponse } from 'next/server';
+import type { ApiResponse } from '@/types';
+import { getMapKitToken, isMapKitConfigured, type MapKitToken } from '@/services/mapKitService';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type MapKitTokenApiResponse = ApiResponse<MapKitToken>;
+
+export async function GET(): Promise<NextResponse<MapKitTokenApiResponse>> {
+  try {
+    if (!isMapKitConfigured()) {
+      return errorResponse('NOT_CONFIGURED', 'MapKit JS is not configured');
+    }
+
+    const data = getMapKitToken();
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data
+      },
+      {
+        status: 200,
+        headers: {
+          // Tokens are per-session credentials; never share them through a cache
+          'Cache-Control': 'no-store'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error('MapKit token API error:', error);
+
+    return toErrorResponse(error, 'Internal server error while signing MapKit token');
+  }
+}
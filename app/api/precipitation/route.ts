@@ -0,0 +1,139 @@
+// app/api/precipitation/route.ts
+/**
+ * API Route: GET /api/precipitation
+ * Hourly precipitation around now for a point, with local daily totals and past/forecast totals
+ *
+ * Source is WeatherKit when configured; in development without credentials (or with
+ * PRECIPITATION_PROVIDER=stub) synthetic sample data is served and `provider` is "stub".
+ * Amounts are millimetres; probabilities are 0-100.
+ *
+ * Query Parameters:
+ * - lat: latitude, -90 to 90 (required)
+ * - lon: longitude, -180 to 180 (required)
+ * - pastHours: hours before the current hour, 0 to 72 (default: 72)
+ * - hours: forecast hours from the current hour, 1 to 240 (default: 240)
+ * - timezone: IANA timezone the daily totals are grouped by (default: UTC)
+ *
+ * Examples:
+ * - GET /api/precipitation?lat=39.95&lon=-75.16 → last 3 days + next 10 days
+ * - GET /api/precipitation?lat=39.95&lon=-75.16&pastHours=0&hours=18&timezone=America/New_York → next 18 hours
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { PrecipitationSeries, ApiResponse } from '@/types';
+import {
+  getPrecipitation,
+  getPrecipitationProvider,
+  MAX_FORECAST_HOURS,
+  MAX_PAST_HOURS,
+} from '@/services/precipitationService';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type PrecipitationApiResponse = ApiResponse<PrecipitationSeries>;
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<PrecipitationApiResponse>> {
+  const { searchParams } = new URL(request.url);
+  const latParam = searchParams.get('lat');
+  const lonParam = searchParams.get('lon');
+  const pastHoursParam = searchParams.get('pastHours');
+  const hoursParam = searchParams.get('hours');
+  const timezone = searchParams.get('timezone') || 'UTC';
+
+  try {
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+    const pastHours = pastHoursParam === null ? MAX_PAST_HOURS : Number(pastHoursParam);
+    const hours = hoursParam === null ? MAX_FORECAST_HOURS : Number(hoursParam);
+
+    if (!latParam || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lat parameter. Must be a number from -90 to 90. Got: ${latParam}`
+      );
+    }
+
+    if (!lonParam || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lon parameter. Must be a number from -180 to 180. Got: ${lonParam}`
+      );
+    }
+
+    if (!Number.isInteger(pastHours) || pastHours < 0 || pastHours > MAX_PAST_HOURS) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid pastHours parameter. Must be an integer from 0 to ${MAX_PAST_HOURS}. Got: ${pastHoursParam}`
+      );
+    }
+
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_FORECAST_HOURS) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid hours parameter. Must be an integer from 1 to ${MAX_FORECAST_HOURS}. Got: ${hoursParam}`
+      );
+    }
+
+    if (!isValidTimezone(timezone)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid timezone parameter. Must be an IANA timezone. Got: ${timezone}`
+      );
+    }
+
+    const provider = getPrecipitationProvider();
+    if (!provider) {
+      return errorResponse('NOT_CONFIGURED', 'No precipitation source is configured (WeatherKit credentials missing)');
+    }
+
+    const series = await getPrecipitation(lat, lon, { pastHours, hours, timezone }, provider);
+
+    console.log(`✓ Successfully returned ${series.hourly.length} hours of precipitation (${series.provider}) for ${series.location.lat},${series.location.lon}`);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: series
+      },
+      {
+        status: 200,
+        headers: {
+          // Cache for 10 minutes (matches the service cache)
+          'Cache-Control': 'public, s-maxage=600, stale-while-revalidate=1200'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Precipitation API error for ${latParam},${lonParam}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while fetching precipitation');
+  }
+}
+
+/**
+ * Validate an IANA timezone name
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
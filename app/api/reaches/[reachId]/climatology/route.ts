@@ -0,0 +1,127 @@
+// app/api/reaches/[reachId]/climatology/route.ts
+/**
+ * API Route: GET /api/reaches/[reachId]/climatology
+ * Day-of-year flow percentiles (5/25/50/75/95, CFS) from the NWM retrospective simulation
+ *
+ * Query Parameters:
+ * - startYear: first year of the record, 1979-2023 (default: 1991)
+ * - endYear: last year of the record, 1979-2023 (default: 2020)
+ *
+ * Examples:
+ * - GET /api/reaches/10376192/climatology → 1991-2020 normals
+ * - GET /api/reaches/10376192/climatology?startYear=2000&endYear=2023 → recent record only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ReachClimatology, ApiResponse, ReachId } from '@/types';
+import {
+  getReachClimatology,
+  DEFAULT_START_YEAR,
+  DEFAULT_END_YEAR,
+  RETROSPECTIVE_FIRST_YEAR,
+  RETROSPECTIVE_LAST_YEAR
+} from '@/services/nwmRetrospectiveService';
+import { toReachId } from '@/lib/utils/ids';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type ClimatologyApiResponse = ApiResponse<ReachClimatology>;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reachId: string }> }
+): Promise<NextResponse<ClimatologyApiResponse>> {
+  let reachId: ReachId;
+  let rawReachId: string = 'unknown';
+
+  try {
+    // Await params in Next.js 15
+    const resolvedParams = await params;
+    rawReachId = resolvedParams.reachId;
+
+    if (!rawReachId) {
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
+    }
+
+    // Convert to branded ReachId type
+    reachId = toReachId(rawReachId);
+
+    // Basic reachId format validation
+    if (!isValidReachId(rawReachId)) {
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
+    }
+
+    // Extract and validate year range
+    const { searchParams } = new URL(request.url);
+    const startParam = searchParams.get('startYear') || String(DEFAULT_START_YEAR);
+    const endParam = searchParams.get('endYear') || String(DEFAULT_END_YEAR);
+    const startYear = Number(startParam);
+    const endYear = Number(endParam);
+
+    if (!isValidYear(startYear) || !isValidYear(endYear)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid year parameter. Years must be integers from ${RETROSPECTIVE_FIRST_YEAR} to ${RETROSPECTIVE_LAST_YEAR}. Got: ${startParam}-${endParam}`
+      );
+    }
+
+    if (startYear > endYear) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid year range. startYear must not be after endYear. Got: ${startYear}-${endYear}`
+      );
+    }
+
+    const climatology = await getReachClimatology(reachId, startYear, endYear);
+
+    console.log(`✓ Successfully returned ${startYear}-${endYear} climatology (${climatology.days.length} days) for ${reachId}`);
+
+    // Success response
+    return NextResponse.json(
+      {
+        ok: true,
+        data: climatology
+      },
+      {
+        status: 200,
+        headers: {
+          // The retrospective record is fixed; cache for a day
+          'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Climatology API error for reach ${rawReachId}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while fetching climatology', 'REACH_NOT_FOUND');
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Validate a year against the retrospective record
+ */
+function isValidYear(year: number): boolean {
+  return Number.isInteger(year) && year >= RETROSPECTIVE_FIRST_YEAR && year <= RETROSPECTIVE_LAST_YEAR;
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
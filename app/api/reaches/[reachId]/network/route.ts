@@ -0,0 +1,123 @@
+// app/api/reaches/[reachId]/network/route.ts
+/**
+ * API Route: GET /api/reaches/[reachId]/network
+ * Walks the river route graph upstream or downstream from a reach
+ *
+ * Query Parameters:
+ * - direction: 'upstream' | 'downstream' (default: 'downstream')
+ * - depth: number of hops to follow, 1-10 (default: 3)
+ *
+ * Examples:
+ * - GET /api/reaches/10376192/network → reaches up to 3 hops below
+ * - GET /api/reaches/10376192/network?direction=upstream&depth=5 → tributaries feeding in
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ReachNetwork, NetworkDirection, ApiResponse, ReachId } from '@/types';
+import { getReachNetwork, MAX_NETWORK_DEPTH } from '@/services/reachNetworkService';
+import { toReachId } from '@/lib/utils/ids';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type NetworkApiResponse = ApiResponse<ReachNetwork>;
+
+const DEFAULT_DEPTH = 3;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reachId: string }> }
+): Promise<NextResponse<NetworkApiResponse>> {
+  let reachId: ReachId;
+  let rawReachId: string = 'unknown';
+
+  try {
+    // Await params in Next.js 15
+    const resolvedParams = await params;
+    rawReachId = resolvedParams.reachId;
+
+    if (!rawReachId) {
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
+    }
+
+    // Convert to branded ReachId type
+    reachId = toReachId(rawReachId);
+
+    // Basic reachId format validation
+    if (!isValidReachId(rawReachId)) {
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
+    }
+
+    // Extract and validate direction/depth parameters
+    const { searchParams } = new URL(request.url);
+    const directionParam = searchParams.get('direction') || 'downstream';
+    const depthParam = searchParams.get('depth') || String(DEFAULT_DEPTH);
+
+    if (!isValidDirection(directionParam)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid direction parameter. Must be one of: upstream, downstream. Got: ${directionParam}`
+      );
+    }
+
+    const depth = Number(depthParam);
+
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_NETWORK_DEPTH) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid depth parameter. Must be an integer from 1 to ${MAX_NETWORK_DEPTH}. Got: ${depthParam}`
+      );
+    }
+
+    const network = await getReachNetwork(reachId, directionParam, depth);
+
+    console.log(`✓ Successfully returned ${network.direction} network (${network.nodes.length} reaches) for ${reachId}`);
+
+    // Success response
+    return NextResponse.json(
+      {
+        ok: true,
+        data: network
+      },
+      {
+        status: 200,
+        headers: {
+          // Route topology is static; cache like reach metadata
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Reach network API error for reach ${rawReachId}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while fetching reach network', 'REACH_NOT_FOUND');
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Validate direction parameter
+ */
+function isValidDirection(direction: string): direction is NetworkDirection {
+  return direction === 'upstream' || direction === 'downstream';
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
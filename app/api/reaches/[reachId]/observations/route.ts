@@ -0,0 +1,113 @@
+// app/api/reaches/[reachId]/observations/route.ts
+/**
+ * API Route: GET /api/reaches/[reachId]/observations
+ * Recent observed discharge (CFS) from the gauge linked to a reach
+ *
+ * Ungauged reaches return `gauge: null` with no points (not a 404), so the
+ * client can tell "no gauge here" from "reach not found".
+ *
+ * Query Parameters:
+ * - hours: observation window ending now, 1-720 (default: 72)
+ *
+ * Examples:
+ * - GET /api/reaches/22338561/observations → last 3 days at the linked USGS gauge
+ * - GET /api/reaches/22338561/observations?hours=24 → last day only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ReachObservations, ApiResponse, ReachId } from '@/types';
+import { getReachObservations, MAX_OBSERVATION_HOURS } from '@/services/gaugeObservationService';
+import { toReachId } from '@/lib/utils/ids';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type ObservationsApiResponse = ApiResponse<ReachObservations>;
+
+const DEFAULT_HOURS = 72;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reachId: string }> }
+): Promise<NextResponse<ObservationsApiResponse>> {
+  let reachId: ReachId;
+  let rawReachId: string = 'unknown';
+
+  try {
+    // Await params in Next.js 15
+    const resolvedParams = await params;
+    rawReachId = resolvedParams.reachId;
+
+    if (!rawReachId) {
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
+    }
+
+    // Convert to branded ReachId type
+    reachId = toReachId(rawReachId);
+
+    // Basic reachId format validation
+    if (!isValidReachId(rawReachId)) {
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
+    }
+
+    // Extract and validate observation window
+    const { searchParams } = new URL(request.url);
+    const hoursParam = searchParams.get('hours') || String(DEFAULT_HOURS);
+    const hours = Number(hoursParam);
+
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_OBSERVATION_HOURS) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid hours parameter. Must be an integer from 1 to ${MAX_OBSERVATION_HOURS}. Got: ${hoursParam}`
+      );
+    }
+
+    const observations = await getReachObservations(reachId, hours);
+
+    console.log(
+      observations.gauge
+        ? `✓ Successfully returned ${observations.points.length} observations (${observations.gauge.siteId}) for ${reachId}`
+        : `✓ No gauge linked to reach ${reachId}`
+    );
+
+    // Success response
+    return NextResponse.json(
+      {
+        ok: true,
+        data: observations
+      },
+      {
+        status: 200,
+        headers: {
+          // Gauges report every 15 minutes
+          'Cache-Control': 'public, s-maxage=600, stale-while-revalidate=1200'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Observations API error for reach ${rawReachId}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while fetching observations');
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,124 @@
+// app/api/reaches/[reachId]/rainfall-lag/route.ts
+/**
+ * API Route: GET /api/reaches/[reachId]/rainfall-lag
+ * Typical lag (hours) from rain at a place to the flow response on the reach
+ *
+ * Hourly precipitation at lat/lon (past 72 h + 10-day forecast) is cross-correlated
+ * with the reach's discharge (analysis, short range, medium range mean). The lag with
+ * the highest correlation is reported with the full correlogram and the rain-peak to
+ * flow-peak lag. `provider: "stub"` means the precipitation is synthetic sample data.
+ *
+ * Query Parameters:
+ * - lat: latitude of the place, -90 to 90 (required)
+ * - lon: longitude of the place, -180 to 180 (required)
+ *
+ * Examples:
+ * - GET /api/reaches/10376192/rainfall-lag?lat=39.95&lon=-75.16 → "rain now → peak in ~14 h"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { RainfallRunoffLag, ApiResponse, ReachId } from '@/types';
+import { getPrecipitationProvider } from '@/services/precipitationService';
+import { getRainfallRunoffLag } from '@/services/rainfallRunoffService';
+import { toReachId } from '@/lib/utils/ids';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type RainfallLagApiResponse = ApiResponse<RainfallRunoffLag>;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reachId: string }> }
+): Promise<NextResponse<RainfallLagApiResponse>> {
+  let reachId: ReachId;
+  let rawReachId: string = 'unknown';
+
+  try {
+    // Await params in Next.js 15
+    const resolvedParams = await params;
+    rawReachId = resolvedParams.reachId;
+
+    if (!rawReachId) {
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
+    }
+
+    // Convert to branded ReachId type
+    reachId = toReachId(rawReachId);
+
+    // Basic reachId format validation
+    if (!isValidReachId(rawReachId)) {
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
+    }
+
+    // Extract and validate the place
+    const { searchParams } = new URL(request.url);
+    const latParam = searchParams.get('lat');
+    const lonParam = searchParams.get('lon');
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+
+    if (!latParam || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lat parameter. Must be a number from -90 to 90. Got: ${latParam}`
+      );
+    }
+
+    if (!lonParam || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lon parameter. Must be a number from -180 to 180. Got: ${lonParam}`
+      );
+    }
+
+    const provider = getPrecipitationProvider();
+    if (!provider) {
+      return errorResponse('NOT_CONFIGURED', 'No precipitation source is configured (WeatherKit credentials missing)');
+    }
+
+    const lag = await getRainfallRunoffLag(reachId, lat, lon, provider);
+
+    console.log(`✓ Successfully returned rainfall lag (${lag.lagHours ?? '--'} h, ${lag.provider}) for ${reachId}`);
+
+    // Success response
+    return NextResponse.json(
+      {
+        ok: true,
+        data: lag
+      },
+      {
+        status: 200,
+        headers: {
+          // Inputs refresh with the hourly forecasts
+          'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=1800'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Rainfall lag API error for reach ${rawReachId}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while analyzing rainfall lag', 'REACH_NOT_FOUND');
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
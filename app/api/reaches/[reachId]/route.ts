@@ -12,7 +12,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import type { RiverReach, ApiResponse, ReachId } from '@/types';
 import { getReachMetadata } from '@/services/noaaService';
 import { toReachId } from '@/lib/utils/ids';
-import { ApiError } from '@/types/utils';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
 
 type ReachApiResponse = ApiResponse<RiverReach>;
 
@@ -29,13 +29,7 @@ export async function GET(
     rawReachId = resolvedParams.reachId;
     
     if (!rawReachId) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: 'Missing reachId parameter'
-        },
-        { status: 400 }
-      );
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
     }
 
     // Convert to branded ReachId type
@@ -43,13 +37,7 @@ export async function GET(
     
     // Basic reachId format validation
     if (!isValidReachId(rawReachId)) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: 'Invalid reachId format'
-        },
-        { status: 400 }
-      );
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
     }
 
     console.log(`Fetching metadata for reach ${reachId}`);
@@ -58,13 +46,7 @@ export async function GET(
     const reachData = await getReachMetadata(reachId);
     
     if (!reachData) {
-      return NextResponse.json(
-        {
-          ok: false,
-          error: `Reach ${reachId} not found`
-        },
-        { status: 404 }
-      );
+      return errorResponse('REACH_NOT_FOUND', `Reach ${reachId} not found`);
     }
 
     console.log(`✓ Successfully returned metadata for ${reachData.name || reachId}`);
@@ -87,30 +69,7 @@ export async function GET(
   } catch (error) {
     console.error(`Reach metadata API error for reach ${rawReachId}:`, error);
     
-    // Handle structured API errors
-    if (ApiError.isApiError(error)) {
-      const statusCode = error.statusCode >= 400 && error.statusCode < 600 
-        ? error.statusCode 
-        : 500;
-        
-      return NextResponse.json(
-        {
-          ok: false,
-          error: error.message,
-          context: error.details || undefined
-        },
-        { status: statusCode }
-      );
-    }
-    
-    // Handle unexpected errors
-    return NextResponse.json(
-      {
-        ok: false,
-        error: 'Internal server error while fetching reach metadata'
-      },
-      { status: 500 }
-    );
+    return toErrorResponse(error, 'Internal server error while fetching reach metadata', 'REACH_NOT_FOUND');
   }
 }
 
@@ -0,0 +1,90 @@
+// app/api/reaches/locate/route.ts
+/**
+ * API Route: GET /api/reaches/locate
+ * Reach (NHDPlus COMID = NWM reach ID) whose catchment contains a point, with its flowline
+ *
+ * Used by maps that can't draw the stream tileset (MapKit JS) to turn a tap into a
+ * reach and to outline it. Returns REACH_NOT_FOUND outside NHDPlus coverage.
+ *
+ * Query Parameters:
+ * - lat: latitude, -90 to 90 (required)
+ * - lon: longitude, -180 to 180 (required)
+ *
+ * Examples:
+ * - GET /api/reaches/locate?lat=39.95&lon=-75.16 → { reachId, coordinates: [[lon, lat], ...] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ReachGeometry, ApiResponse } from '@/types';
+import { findReachAtPoint } from '@/services/reachGeometryService';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type LocateApiResponse = ApiResponse<ReachGeometry>;
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<LocateApiResponse>> {
+  const { searchParams } = new URL(request.url);
+  const latParam = searchParams.get('lat');
+  const lonParam = searchParams.get('lon');
+
+  try {
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+
+    if (!latParam || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lat parameter. Must be a number from -90 to 90. Got: ${latParam}`
+      );
+    }
+
+    if (!lonParam || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lon parameter. Must be a number from -180 to 180. Got: ${lonParam}`
+      );
+    }
+
+    const geometry = await findReachAtPoint(lat, lon);
+
+    if (!geometry) {
+      return errorResponse('REACH_NOT_FOUND', `No stream reach found at ${latParam},${lonParam}`);
+    }
+
+    console.log(`✓ Successfully located reach ${geometry.reachId} at ${latParam},${lonParam}`);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: geometry
+      },
+      {
+        status: 200,
+        headers: {
+          // Flowlines don't change; cache for a day
+          'Cache-Control': 'public, s-maxage=86400, stale-while-revalidate=604800'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Reach locate API error for ${latParam},${lonParam}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while locating reach', 'REACH_NOT_FOUND');
+  }
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
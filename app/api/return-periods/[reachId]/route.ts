@@ -1,95 +1,117 @@
 // app/api/return-periods/[reachId]/route.ts
 /**
- * Next.js API Route to proxy return periods requests
- * This bypasses CORS restrictions by making the request server-side
+ * API Route: GET /api/return-periods/[reachId]
+ * Proxies return period requests server-side (bypasses CORS, keeps the API key private)
+ *
+ * Examples:
+ * - GET /api/return-periods/10376192 → return period rows for the reach
+ *
+ * Response: rows in CMS exactly as the upstream API returns them (normalize client-side).
+ * A reach without return periods is REACH_NOT_FOUND.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { config } from '@/config/secrets.local';
+import type { ApiResponse, ReturnPeriodResponse } from '@/types';
+import { getServerConfig } from '@/config';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+import { parseRetryAfter } from '@/lib/utils/apiErrors';
+import { ApiError } from '@/types/utils';
+import { upstreamFetch } from '@/services/upstreamRecordingService';
+
+type ReturnPeriodsApiResponse = ApiResponse<ReturnPeriodResponse>;
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ reachId: string }> }
-) {
+): Promise<NextResponse<ReturnPeriodsApiResponse>> {
   let reachId: string = 'unknown';
-  
+
   try {
     // Await params in Next.js 15
     const resolvedParams = await params;
     reachId = resolvedParams.reachId;
 
-    // Validate reach ID
-    if (!reachId || reachId.trim() === '') {
-      return NextResponse.json(
-        { error: 'Reach ID is required' },
-        { status: 400 }
-      );
+    if (!reachId) {
+      return errorResponse('INVALID_PARAM', 'Missing reachId parameter');
+    }
+
+    // Basic reachId format validation
+    if (!isValidReachId(reachId)) {
+      return errorResponse('INVALID_PARAM', 'Invalid reachId format');
+    }
+
+    const config = getServerConfig();
+    const baseUrl = config.public.api.returnPeriodsBaseUrl;
+
+    if (!baseUrl) {
+      return errorResponse('NOT_CONFIGURED', 'Return periods API is not configured');
     }
 
     // Build external API URL
-    const externalUrl = new URL('/return-period', config.public.api.returnPeriodsBaseUrl);
+    const externalUrl = new URL('/return-period', baseUrl);
     externalUrl.searchParams.set('comids', reachId);
-    externalUrl.searchParams.set('key', config.secrets.api.returnPeriodsApiKey);
+    const apiKey = config.secrets.api?.returnPeriodsApiKey;
+    if (apiKey) externalUrl.searchParams.set('key', apiKey);
 
     console.log(`[API] Proxying return periods request for reach ${reachId}`);
-    console.log(`[API] External URL: ${externalUrl.toString()}`);
 
     // Make request to external API (server-side, no CORS issues)
-    const response = await fetch(externalUrl.toString(), {
+    const response = await upstreamFetch('return-periods', externalUrl.toString(), {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
         'User-Agent': `HydroDash/${config.public.app.version}`,
       },
+      signal: AbortSignal.timeout(30000)
     });
 
-    // Log response details
     console.log(`[API] External API response status: ${response.status}`);
 
     if (!response.ok) {
-      console.error(`[API] External API error: ${response.status} ${response.statusText}`);
-      
-      // Try to get error details
-      let errorDetails = '';
-      try {
-        errorDetails = await response.text();
-        console.error(`[API] Error response body:`, errorDetails);
-      } catch (e) {
-        console.error(`[API] Could not read error response`);
-      }
-
-      return NextResponse.json(
-        { 
-          error: `External API error: ${response.status} ${response.statusText}`,
-          details: errorDetails
-        },
-        { status: response.status }
+      throw new ApiError(
+        `Return periods API returned ${response.status}: ${response.statusText}`,
+        response.status,
+        `${externalUrl.origin}${externalUrl.pathname}`,
+        await response.text().catch(() => 'No response body'),
+        undefined,
+        parseRetryAfter(response.headers.get('Retry-After'))
       );
     }
 
-    // Parse and return the data
     const data = await response.json();
-    
-    console.log(`[API] Successfully proxied return periods for reach ${reachId}`);
-    console.log(`[API] Response data:`, data);
+    const rows: ReturnPeriodResponse = Array.isArray(data) ? data : [];
 
-    // Return the data with proper headers
-    return NextResponse.json(data, {
-      status: 200,
-      headers: {
-        'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200', // Cache for 1 hour
-      },
-    });
+    if (rows.length === 0) {
+      return errorResponse('REACH_NOT_FOUND', `No return periods found for reach ${reachId}`);
+    }
+
+    console.log(`✓ Successfully proxied return periods for reach ${reachId}`);
 
-  } catch (error) {
-    console.error(`[API] Proxy error for reach ${reachId}:`, error);
-    
     return NextResponse.json(
-      { 
-        error: 'Internal server error',
-        message: error instanceof Error ? error.message : 'Unknown error'
+      {
+        ok: true,
+        data: rows
       },
-      { status: 500 }
+      {
+        status: 200,
+        headers: {
+          // Cache for 1 hour (return periods are static)
+          'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=7200',
+        },
+      }
     );
+
+  } catch (error) {
+    console.error(`[API] Return periods proxy error for reach ${reachId}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while fetching return periods', 'REACH_NOT_FOUND');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
@@ -0,0 +1,149 @@
+// app/api/return-periods/batch/route.ts
+/**
+ * Batch Return Periods API Route
+ *
+ * Proxies one upstream request for many reaches using the API's `comids` list,
+ * instead of one request per reach.
+ *
+ * Endpoint: POST /api/return-periods/batch
+ * Body: { reachIds: string[] }
+ *
+ * Example:
+ * - POST /api/return-periods/batch  { "reachIds": ["10376192", "10376193"] }
+ *
+ * Response: rows in CMS exactly as the upstream API returns them (normalize client-side,
+ * like the single-reach route). Reaches without return periods are simply absent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ApiResponse, ReturnPeriodResponse } from '@/types';
+import { getServerConfig } from '@/config';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+import { parseRetryAfter } from '@/lib/utils/apiErrors';
+import { ApiError } from '@/types/utils';
+import { upstreamFetch } from '@/services/upstreamRecordingService';
+
+type BatchReturnPeriodsApiResponse = ApiResponse<ReturnPeriodResponse>;
+
+/** Upper bound on reaches per request (keeps the upstream URL short) */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * POST handler for batch return period requests
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<BatchReturnPeriodsApiResponse>> {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('INVALID_PARAM', 'Request body must be valid JSON');
+  }
+
+  const { reachIds } = (body ?? {}) as Record<string, unknown>;
+
+  if (!Array.isArray(reachIds) || reachIds.length === 0) {
+    return errorResponse('INVALID_PARAM', 'reachIds must be a non-empty array');
+  }
+
+  // De-duplicate while keeping request order
+  const uniqueReachIds = Array.from(new Set(reachIds.map(id => String(id).trim())));
+
+  if (uniqueReachIds.length > MAX_BATCH_SIZE) {
+    return errorResponse(
+      'INVALID_PARAM',
+      `Too many reaches. Maximum is ${MAX_BATCH_SIZE}, got ${uniqueReachIds.length}`
+    );
+  }
+
+  const invalidIds = uniqueReachIds.filter(id => !isValidReachId(id));
+  if (invalidIds.length > 0) {
+    return errorResponse('INVALID_PARAM', `Invalid reachId format: ${invalidIds.join(', ')}`);
+  }
+
+  try {
+    const config = getServerConfig();
+    const baseUrl = config.public.api.returnPeriodsBaseUrl;
+
+    if (!baseUrl) {
+      return errorResponse('NOT_CONFIGURED', 'Return periods API is not configured');
+    }
+
+    // Build external API URL with every reach in one comids list
+    const externalUrl = new URL('/return-period', baseUrl);
+    externalUrl.searchParams.set('comids', uniqueReachIds.join(','));
+    const apiKey = config.secrets.api?.returnPeriodsApiKey;
+    if (apiKey) externalUrl.searchParams.set('key', apiKey);
+
+    console.log(`[API] Proxying return periods batch request for ${uniqueReachIds.length} reaches`);
+
+    const response = await upstreamFetch('return-periods', externalUrl.toString(), {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': `HydroDash/${config.public.app.version}`,
+      },
+      signal: AbortSignal.timeout(30000)
+    });
+
+    console.log(`[API] External API response status: ${response.status}`);
+
+    if (!response.ok) {
+      throw new ApiError(
+        `Return periods API returned ${response.status}: ${response.statusText}`,
+        response.status,
+        `${externalUrl.origin}${externalUrl.pathname}`,
+        await response.text().catch(() => 'No response body'),
+        undefined,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    const data = await response.json();
+    const rows: ReturnPeriodResponse = Array.isArray(data) ? data : [];
+
+    console.log(`✓ Successfully proxied return periods for ${rows.length}/${uniqueReachIds.length} reaches`);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: rows
+      },
+      {
+        status: 200,
+        headers: {
+          'Cache-Control': 'no-store'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`[API] Return periods batch proxy error:`, error);
+
+    return toErrorResponse(error, 'Internal server error while fetching return periods', 'REACH_NOT_FOUND');
+  }
+}
+
+/**
+ * Validate reachId format (works on raw string)
+ * NOAA reach IDs are typically 8-10 digit numbers
+ */
+function isValidReachId(reachId: string): boolean {
+  return /^\d+$/.test(reachId) && reachId.length >= 3 && reachId.length <= 15;
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,112 @@
+// app/api/weather/route.ts
+/**
+ * API Route: GET /api/weather
+ * Current conditions, hourly (48 h) and daily forecast for a point from Apple WeatherKit
+ *
+ * The WeatherKit token is signed server-side; the private key never reaches the client.
+ * Values are metric (°C, mm, km/h); precipitation chances are 0-100.
+ *
+ * Query Parameters:
+ * - lat: latitude, -90 to 90 (required)
+ * - lon: longitude, -180 to 180 (required)
+ * - timezone: IANA timezone the daily forecast is aligned to (default: UTC)
+ *
+ * Examples:
+ * - GET /api/weather?lat=39.95&lon=-75.16 → weather near Philadelphia
+ * - GET /api/weather?lat=39.95&lon=-75.16&timezone=America/New_York → local calendar days
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { WeatherForecast, ApiResponse } from '@/types';
+import { getWeatherForecast, isWeatherConfigured } from '@/services/weatherService';
+import { errorResponse, toErrorResponse } from '@/lib/utils/apiResponses';
+
+type WeatherApiResponse = ApiResponse<WeatherForecast>;
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<WeatherApiResponse>> {
+  const { searchParams } = new URL(request.url);
+  const latParam = searchParams.get('lat');
+  const lonParam = searchParams.get('lon');
+  const timezone = searchParams.get('timezone') || 'UTC';
+
+  try {
+    const lat = Number(latParam);
+    const lon = Number(lonParam);
+
+    if (!latParam || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lat parameter. Must be a number from -90 to 90. Got: ${latParam}`
+      );
+    }
+
+    if (!lonParam || !Number.isFinite(lon) || lon < -180 || lon > 180) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid lon parameter. Must be a number from -180 to 180. Got: ${lonParam}`
+      );
+    }
+
+    if (!isValidTimezone(timezone)) {
+      return errorResponse(
+        'INVALID_PARAM',
+        `Invalid timezone parameter. Must be an IANA timezone. Got: ${timezone}`
+      );
+    }
+
+    if (!isWeatherConfigured()) {
+      return errorResponse('NOT_CONFIGURED', 'WeatherKit is not configured');
+    }
+
+    const forecast = await getWeatherForecast(lat, lon, timezone);
+
+    console.log(`✓ Successfully returned weather for ${forecast.location.lat},${forecast.location.lon}`);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: forecast
+      },
+      {
+        status: 200,
+        headers: {
+          // Cache for 10 minutes (matches the service cache)
+          'Cache-Control': 'public, s-maxage=600, stale-while-revalidate=1200'
+        }
+      }
+    );
+
+  } catch (error) {
+    console.error(`Weather API error for ${latParam},${lonParam}:`, error);
+
+    return toErrorResponse(error, 'Internal server error while fetching weather');
+  }
+}
+
+/**
+ * Validate an IANA timezone name
+ */
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Optional: Add OPTIONS handler for CORS if needed
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
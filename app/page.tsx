@@ -65,6 +65,7 @@ const MapScreen = () => {
           streamData={selectedStreamData}
           flowUnit={userPreferences.flowUnit}
           tempUnit={userPreferences.tempUnit}
+          map={map}
         />
       ) : undefined}
       onModalBackdropClick={handleCloseModal}
@@ -85,7 +86,7 @@ const MapScreen = () => {
       placeSearchOverlay={
         <SearchBar 
           map={map}
-          placeholder="Search for places..."
+          placeholder="Search places, reach IDs or lat, lon..."
           className="w-auto min-w-74"
         />
       }
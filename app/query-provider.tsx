@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { useState, ReactNode } from 'react';
 import { ErrorBoundary } from 'react-error-boundary';
+import { shouldRetryRequest, getRetryDelay, getErrorMessage } from '@/lib/utils/apiErrors';
 
 interface QueryErrorFallbackProps {
   error: Error;
@@ -32,7 +33,7 @@ function QueryErrorFallback({ error, resetErrorBoundary }: QueryErrorFallbackPro
             Something went wrong while loading data:
           </p>
           <p className="text-sm text-red-600 font-mono bg-red-50 p-2 rounded">
-            {error.message}
+            {getErrorMessage(error)}
           </p>
         </div>
         <div className="flex space-x-3">
@@ -68,17 +69,10 @@ export function QueryProvider({ children }: QueryProviderProps) {
             staleTime: 5 * 60 * 1000,
             // Cache data for 10 minutes
             gcTime: 10 * 60 * 1000,
-            // Retry failed requests up to 2 times
-            retry: (failureCount, error: any) => {
-              // Don't retry on 4xx errors (client errors)
-              if (error?.status >= 400 && error?.status < 500) {
-                return false;
-              }
-              // Retry up to 2 times for other errors
-              return failureCount < 2;
-            },
-            // Retry delay increases exponentially
-            retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+            // Retry transient failures up to 2 times (not bad requests or unknown reaches)
+            retry: (failureCount, error) => shouldRetryRequest(failureCount, error, 2),
+            // Retry delay increases exponentially, or follows Retry-After when rate limited
+            retryDelay: (attemptIndex, error) => getRetryDelay(attemptIndex, error, 30000),
             // Refetch on window focus for critical data
             refetchOnWindowFocus: true,
             // Don't refetch on reconnect automatically
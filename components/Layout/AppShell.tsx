@@ -34,6 +34,8 @@ export interface SavedPlace {
   // Optional metadata for saved places
   notes?: string;
   photoUrl?: string;
+  /** Risk profile override for this place (falls back to the active profile) */
+  riskProfileId?: string;
 }
 
 // Union type for active location - can be either a saved place or live river reach
@@ -68,6 +70,7 @@ export interface AppContextType extends AppState {
   setSavedPlaces: (places: SavedPlace[]) => void;
   addSavedPlace: (place: SavedPlace) => Promise<SavedPlace>;
   removeSavedPlace: (placeId: string) => Promise<void>;
+  updateSavedPlace: (placeId: string, updates: Partial<Pick<SavedPlace, 'name' | 'notes' | 'riskProfileId'>>) => Promise<void>;
   // New helper to create saved place from river reach
   saveLocationFromReach: (reach: RiverReach, type?: SavedPlace['type']) => Promise<void>;
   // Helper to check if a reach is already saved
@@ -147,6 +150,7 @@ const defaultUserPreferences: UserPreferences = {
   collapsedSidebar: false,
   baseMapLayer: 'standard',
   mapView: '3D',
+  mapProvider: 'mapbox',
 };
 
 interface AppShellProps {
@@ -170,6 +174,7 @@ const AppShell: React.FC<AppShellProps> = ({ children }) => {
     places: savedPlaces,
     addPlace,
     removePlace,
+    updatePlace,
     hasPlace,
     isLoading: savedPlacesLoading,
     error: savedPlacesError
@@ -285,6 +290,19 @@ const AppShell: React.FC<AppShellProps> = ({ children }) => {
     }
   };
 
+  // Helper to update a saved place (e.g. its risk profile override)
+  const updateSavedPlace = async (
+    placeId: string,
+    updates: Partial<Pick<SavedPlace, 'name' | 'notes' | 'riskProfileId'>>
+  ): Promise<void> => {
+    const updated = await updatePlace({ id: placeId, ...updates });
+
+    // Keep the active location in sync with the edited place
+    if (updated && activeLocation && getLocationProps(activeLocation)?.id === placeId) {
+      setActiveLocation(updated);
+    }
+  };
+
   // Helper to create saved place from river reach
   const saveLocationFromReach = async (reach: RiverReach, type: SavedPlace['type'] = 'other'): Promise<void> => {
     const savedPlace: SavedPlace = {
@@ -352,6 +370,7 @@ const AppShell: React.FC<AppShellProps> = ({ children }) => {
     setSavedPlaces: () => {}, // Deprecated - places are managed by the hook now
     addSavedPlace,
     removeSavedPlace,
+    updateSavedPlace,
     saveLocationFromReach,
     hasPlace,
     getActiveLocationProps,
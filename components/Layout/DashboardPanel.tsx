@@ -13,9 +13,13 @@ import { useShortRangeForecast, getCurrentFlow } from '@/hooks/useFlowData';
 import { useReturnPeriod } from '@/hooks/useReturnPeriods';
 import { useReachMetadata } from '@/hooks/useReachMetadata';
 import { useReverseGeocode } from '@/hooks/useReverseGeocode';
+import { useRiskProfile } from '@/hooks/useRiskProfile';
 import { computeRisk } from '@/lib/utils/riskCalculator';
 import { DashboardLoadingSpinner } from '@/components/common/LoadingSpinner';
 import TilesManager from '@/components/Layout/TilesManager';
+import HydrographWidget from '@/components/widgets/HydrographWidget';
+import PrecipitationChartWidget from '@/components/widgets/PrecipitationChartWidget';
+import RainfallLagWidget from '@/components/widgets/RainfallLagWidget';
 import { SIDEBAR_WIDTH } from '@/components/Layout/AppShell';
 
 // Stream metadata interface
@@ -112,6 +116,10 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
 
   const { reachId, name: locationName } = getLocationData();
 
+  // Saved place override (if the active location is a saved place) drives the risk profile
+  const savedPlaceId = !selectedStream && activeLocation && !isRiverReach(activeLocation) ? activeLocation.id : null;
+  const { getRiskProfile } = useRiskProfile();
+
   // Fetch reach metadata for actual river name
   const { 
     data: reachMetadata, 
@@ -173,7 +181,7 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
   // Calculate current flow and risk
   const currentFlow = getCurrentFlow(flowData);
   const riskLevel: RiskLevel = (currentFlow !== null && returnPeriods) 
-    ? computeRisk(currentFlow, returnPeriods) 
+    ? computeRisk(currentFlow, returnPeriods, getRiskProfile(reachId, savedPlaceId)) 
     : 'normal';
 
   // Format flow value
@@ -246,6 +254,12 @@ const DashboardPanel: React.FC<DashboardPanelProps> = ({
         >
           <main className={`${getContentContainerClasses()} py-8`}>
             <TilesManager />
+            {/* Precipitation shares the hydrograph's time axis, so rain lines up with the flow response */}
+            <div className="mt-8 space-y-4">
+              <HydrographWidget data-testid="hydrograph-widget" />
+              <PrecipitationChartWidget data-testid="precipitation-chart-widget" />
+            </div>
+            <RainfallLagWidget className="mt-8 max-w-md" data-testid="rainfall-lag-widget" />
             {children && <div className="mt-8">{children}</div>}
           </main>
         </div>
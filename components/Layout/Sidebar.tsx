@@ -6,6 +6,7 @@ import LoadingSpinner from '@/components/common/LoadingSpinner';
 import UnitsToggle, { type FlowUnit } from '@/components/settings/UnitsToggle';
 import SidebarHeader from '@/components/Sidebar/SidebarHeader';
 import SavedPlacesList from '@/components/Sidebar/SavedPlacesList';
+import SavedPlaceEditor from '@/components/Sidebar/SavedPlaceEditor';
 import { useAppContext } from '@/components/Layout/AppShell';
 import type { 
   ActiveLocation, 
@@ -70,6 +71,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     savedPlaces, 
     activeLocation, 
     setActiveLocation, 
+    updateSavedPlace,
     currentView: contextCurrentView, 
     setCurrentView: contextSetCurrentView 
   } = useAppContext();
@@ -107,10 +109,22 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
-  // Handle place editing (placeholder for future implementation)
+  // Place being edited (name, risk profile override)
+  const [editingPlace, setEditingPlace] = useState<SavedPlace | null>(null);
+
+  // Handle place editing
   const handlePlaceEdit = (place: SavedPlace) => {
-    console.log('Edit place:', place.name);
-    // TODO: Open edit modal or navigate to edit page
+    setEditingPlace(place);
+  };
+
+  const handlePlaceSave = async (updates: Pick<SavedPlace, 'name' | 'riskProfileId'>) => {
+    if (!editingPlace) return;
+    try {
+      await updateSavedPlace(editingPlace.id, updates);
+      setEditingPlace(null);
+    } catch (error) {
+      console.error('Failed to update place:', error);
+    }
   };
 
   // Handle add new place
@@ -164,12 +178,27 @@ const Sidebar: React.FC<SidebarProps> = ({
         onSidebarToggle={onToggle}
         flowUnit={preferences.flowUnit}
         onFlowUnitChange={(unit) => updatePreference('flowUnit', unit)}
+        riskProfiles={preferences.riskProfiles}
+        activeRiskProfileId={preferences.activeRiskProfileId}
+        onRiskProfilesChange={(riskProfiles, activeRiskProfileId) =>
+          onPreferencesChange?.({ ...preferences, riskProfiles, activeRiskProfileId })
+        }
         isMobile={isMobile}
       />
 
       {/* Content area that grows + scrolls */}
       <div className="flex-1 min-h-0 flex flex-col">
         <div className="p-4 flex flex-col flex-1 min-h-0">
+          {editingPlace && (
+            <SavedPlaceEditor
+              key={editingPlace.id}
+              place={editingPlace}
+              riskProfiles={preferences.riskProfiles ?? []}
+              onSave={handlePlaceSave}
+              onCancel={() => setEditingPlace(null)}
+              className="mb-3"
+            />
+          )}
           <div className="flex-1 min-h-0 overflow-y-auto">
             <SavedPlacesList
               places={savedPlaces}
@@ -3,7 +3,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useAppContext } from '@/components/Layout/AppShell';
-import type { BaseMapLayer } from '@/types/models/UserPreferences';
+import type { BaseMapLayer, MapProvider } from '@/types/models/UserPreferences';
 
 interface BaseMapSelectorProps {
   /** Custom className */
@@ -20,6 +20,11 @@ const BASE_MAP_OPTIONS: { value: BaseMapLayer; label: string; icon: string }[] =
   { value: 'dark', label: 'Dark', icon: '🌙' },
 ];
 
+const MAP_PROVIDER_OPTIONS: { value: MapProvider; label: string }[] = [
+  { value: 'mapbox', label: 'Mapbox' },
+  { value: 'mapkit', label: 'Apple Maps' },
+];
+
 const BaseMapSelector: React.FC<BaseMapSelectorProps> = ({
   className = '',
 }) => {
@@ -29,6 +34,7 @@ const BaseMapSelector: React.FC<BaseMapSelectorProps> = ({
 
   const currentLayer = userPreferences.baseMapLayer || 'standard';
   const currentOption = BASE_MAP_OPTIONS.find(opt => opt.value === currentLayer) || BASE_MAP_OPTIONS[0];
+  const currentProvider = userPreferences.mapProvider || 'mapbox';
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -51,6 +57,15 @@ const BaseMapSelector: React.FC<BaseMapSelectorProps> = ({
     setIsOpen(false);
   };
 
+  // Handle map provider selection
+  const handleProviderSelect = (provider: MapProvider) => {
+    setUserPreferences({
+      ...userPreferences,
+      mapProvider: provider,
+    });
+    setIsOpen(false);
+  };
+
   return (
     <div ref={containerRef} className={`relative ${className}`}>
       {/* Main Button */}
@@ -110,6 +125,31 @@ const BaseMapSelector: React.FC<BaseMapSelectorProps> = ({
               )}
             </button>
           ))}
+
+          {/* Map Provider */}
+          <div className="mt-2 pt-2 px-4 border-t border-gray-200 dark:border-gray-700">
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+              Map provider
+            </div>
+            <div className="flex gap-1">
+              {MAP_PROVIDER_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => handleProviderSelect(option.value)}
+                  className={`
+                    flex-1 px-2 py-1 rounded text-xs font-medium
+                    transition-colors duration-150
+                    ${currentProvider === option.value
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }
+                  `}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
       )}
     </div>
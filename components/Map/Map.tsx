@@ -6,57 +6,15 @@ import mapboxgl from 'mapbox-gl';
 import { appConfig } from '@/config';
 import LoadingSpinner, { MapLoadingSpinner } from '@/components/common/LoadingSpinner';
 import ErrorBoundary from '@/components/common/ErrorBoundary';
-import { useReachMetadata } from '@/hooks/useReachMetadata';
-import { useShortRangeForecast } from '@/hooks/useFlowData';
-import { getCurrentFlow } from '@/lib/utils/flow';
+import { useStreamPick } from '@/hooks/useStreamPick';
 import { useAppContext } from '@/components/Layout/AppShell';
 import StreamSearchOverlay from './StreamSearch/StreamSearchOverlay';
+import MapKitMap from './MapKitMap';
+import { MapErrorOverlay, MapErrorToast } from './MapStatusOverlays';
+import type { MapProps, MapErrorMessage } from './types';
 import type { ReachId } from '@/types';
 import type { BaseMapLayer } from '@/types/models/UserPreferences';
 
-type OnReady = (map: mapboxgl.Map) => void;
-
-interface MapProps {
-  /** Custom className for styling */
-  className?: string;
-  /** Callback when map is ready */
-  onReady?: OnReady;
-  /** Called with reachId (station_id / STATIONID) when user clicks a stream */
-  onPickReach?: (reachId: string) => void;
-  /** Map controls/overlays to render (legacy support) */
-  children?: React.ReactNode;
-  /** Loading state override */
-  loading?: boolean;
-  /** Error state override */
-  error?: string;
-  /** Show stream layers */
-  showStreams?: boolean;
-  /** Show stream search overlay (legacy - use MapPanel overlays instead) */
-  showStreamSearch?: boolean;
-  /** Custom data attribute for testing */
-  'data-testid'?: string;
-}
-
-// Local type definition for stream modal data
-interface StreamModalData {
-  reachId: ReachId;
-  name?: string;
-  lat: number;
-  lon: number;
-  currentFlow?: number;
-  metadata?: Record<string, any>;
-}
-
-// Error message types
-type ErrorType = 'stream-load' | 'map-init' | 'invalid-stream';
-
-interface ErrorMessage {
-  type: ErrorType;
-  title: string;
-  message: string;
-  show: boolean;
-}
-
 // Map base layer styles mapping
 const getMapboxStyle = (baseLayer: BaseMapLayer): string => {
   const styleMap: Record<BaseMapLayer, string> = {
@@ -71,7 +29,7 @@ const getMapboxStyle = (baseLayer: BaseMapLayer): string => {
   return styleMap[baseLayer];
 };
 
-const Map: React.FC<MapProps> = ({ 
+const MapboxMap: React.FC<MapProps> = ({ 
   className,
   onReady,
   onPickReach,
@@ -87,85 +45,36 @@ const Map: React.FC<MapProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [mapError, setMapError] = useState<string | null>(null);
   
-  // State for tracking clicked reach
-  const [clickedReachId, setClickedReachId] = useState<ReachId | null>(null);
-  
   // State for error messages
-  const [errorMessage, setErrorMessage] = useState<ErrorMessage>({
+  const [errorMessage, setErrorMessage] = useState<MapErrorMessage>({
     type: 'map-init',
     title: '',
     message: '',
     show: false,
   });
   
-  // Get AppShell context for modal management and preferences
-  const { openStreamModal, userPreferences } = useAppContext();
+  // Get AppShell context for preferences
+  const { userPreferences } = useAppContext();
   
-  // Fetch reach metadata when a reach is clicked
-  const { 
-    data: reachData, 
-    isLoading: isLoadingReach, 
-    error: reachError 
-  } = useReachMetadata(clickedReachId, {
-    enabled: !!clickedReachId,
-    staleTime: 60 * 60 * 1000, // 1 hour
-  });
-
-  // Fetch short-range forecast for current flow when we have reach data
-  const { 
-    data: forecastData, 
-    isLoading: isLoadingForecast, 
-    error: forecastError 
-  } = useShortRangeForecast(reachData?.reachId || null, {
-    enabled: !!reachData,
-    staleTime: 5 * 60 * 1000, // 5 minutes
-  });
-
-  // When both reach data and forecast data are loaded, show modal
-  useEffect(() => {
-    if (reachData && !isLoadingReach && !reachError && !isLoadingForecast) {
-      console.log('Stream data loaded, showing modal for:', reachData);
-      
-      // Extract current flow by comparing device time to forecast validTime
-      const currentFlowValue = forecastData ? getCurrentFlow(forecastData) : null;
-      
-      // Transform RiverReach data to StreamModalData format
-      const streamModalData: StreamModalData = {
-        reachId: reachData.reachId,
-        name: reachData.name,
-        lat: reachData.latitude,
-        lon: reachData.longitude,
-        currentFlow: currentFlowValue ?? undefined, // Convert null to undefined for type compatibility
-        metadata: {
-          streamflow: reachData.streamflow,
-          forecastAvailable: !!forecastData,
-          forecastError: forecastError?.message,
-        },
-      };
-      
-      // Open modal with stream data
-      openStreamModal(streamModalData);
-      
-      // Clear the clicked reach ID to reset for next click
-      setClickedReachId(null);
-    }
-  }, [reachData, isLoadingReach, reachError, forecastData, isLoadingForecast, forecastError, openStreamModal]);
-
-  // Handle reach or forecast loading errors
-  useEffect(() => {
-    if ((reachError || forecastError) && clickedReachId) {
-      console.error('Failed to fetch stream data:', { reachError, forecastError });
-      const errorMsg = reachError?.message || forecastError?.message || 'Unknown error';
+  // Clicked reach → metadata + current flow → stream modal
+  const {
+    pickReach,
+    cancelPick,
+    isLoadingReach,
+    isLoadingForecast,
+    reachError,
+    forecastError,
+  } = useStreamPick({
+    onError: (reachId, errorMsg) => {
       setErrorMessage({
         type: 'stream-load',
         title: 'Failed to Load Stream',
-        message: `Could not load data for reach ${clickedReachId}: ${errorMsg}`,
+        message: `Could not load data for reach ${reachId}: ${errorMsg}`,
         show: true,
       });
-      setMapError(`Failed to load data for reach ${clickedReachId}: ${errorMsg}`);
-      setClickedReachId(null);
-    }
-  }, [reachError, forecastError, clickedReachId]);
+      setMapError(`Failed to load data for reach ${reachId}: ${errorMsg}`);
+    },
+  });
 
   // Auto-hide error messages after 5 seconds
   useEffect(() => {
@@ -231,20 +140,6 @@ const Map: React.FC<MapProps> = ({
     return id as ReachId;
   }, []);
 
-  // Get error styling based on type
-  const getErrorStyle = (type: ErrorType) => {
-    return {
-      bg: 'bg-red-100 dark:bg-red-900/30',
-      text: 'text-red-800 dark:text-red-200',
-      border: 'border-red-200 dark:border-red-700',
-      icon: (
-        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-      ),
-    };
-  };
-
   useEffect(() => {
     try {
       if (!containerRef.current) return;
@@ -358,7 +253,7 @@ const Map: React.FC<MapProps> = ({
                 
                 // Convert to branded ReachId type and trigger data fetch for modal
                 const reachId = toReachId(reachIdString);
-                setClickedReachId(reachId);
+                pickReach(reachId);
                 
                 // Clear any previous errors
                 setMapError(null);
@@ -464,6 +359,7 @@ const Map: React.FC<MapProps> = ({
     defaultZoom, 
     showStreams,
     toReachId,
+    pickReach,
     userPreferences.baseMapLayer,
     userPreferences.mapView
   ]);
@@ -508,65 +404,21 @@ const Map: React.FC<MapProps> = ({
         
         {/* Error Overlay */}
         {displayError && (
-          <div className="absolute inset-0 flex items-center justify-center bg-white/90 dark:bg-gray-900/90 backdrop-blur-sm z-10">
-            <div className="text-center p-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg max-w-sm">
-              <div className="text-red-500 mb-3">
-                <svg className="w-8 h-8 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </div>
-              <h3 className="font-medium text-gray-900 dark:text-white mb-1">
-                {reachError || forecastError ? 'Stream Data Error' : 'Map Error'}
-              </h3>
-              <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
-                {displayError}
-              </p>
-              {(reachError || forecastError) && (
-                <button
-                  onClick={() => {
-                    setMapError(null);
-                    setClickedReachId(null);
-                  }}
-                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors"
-                >
-                  Try Again
-                </button>
-              )}
-            </div>
-          </div>
+          <MapErrorOverlay
+            error={displayError}
+            isStreamError={!!(reachError || forecastError)}
+            onRetry={() => {
+              setMapError(null);
+              cancelPick();
+            }}
+          />
         )}
         
         {/* Simplified Error Notification (modal handles success states) */}
-        {errorMessage.show && (
-          <div className="absolute top-4 right-4 z-10 animate-fade-in">
-            <div className={`
-              max-w-sm p-4 rounded-lg shadow-lg border backdrop-blur-sm
-              ${getErrorStyle(errorMessage.type).bg} 
-              ${getErrorStyle(errorMessage.type).text}
-              ${getErrorStyle(errorMessage.type).border}
-            `}>
-              <div className="flex items-start space-x-3">
-                <div className="flex-shrink-0 mt-0.5">
-                  {getErrorStyle(errorMessage.type).icon}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <h4 className="text-sm font-medium">
-                    {errorMessage.title}
-                  </h4>
-                  <p className="text-sm opacity-90">
-                    {errorMessage.message}
-                  </p>
-                  <button
-                    onClick={() => setErrorMessage(prev => ({ ...prev, show: false }))}
-                    className="mt-2 text-xs opacity-75 hover:opacity-100 underline"
-                  >
-                    Dismiss
-                  </button>
-                </div>
-              </div>
-            </div>
-          </div>
-        )}
+        <MapErrorToast
+          errorMessage={errorMessage}
+          onDismiss={() => setErrorMessage(prev => ({ ...prev, show: false }))}
+        />
         
         {/* FIXED: Only render StreamSearchOverlay when showStreamSearch=true AND not using MapPanel overlays */}
         {showStreamSearch && (
@@ -593,4 +445,18 @@ const Map: React.FC<MapProps> = ({
   );
 };
 
+/**
+ * Map with the stream click → popup flow, rendered by the provider chosen in
+ * UserPreferences.mapProvider (Mapbox GL by default, or Apple MapKit JS)
+ */
+const Map: React.FC<MapProps> = (props) => {
+  const { userPreferences } = useAppContext();
+
+  if (userPreferences.mapProvider === 'mapkit') {
+    return <MapKitMap {...props} />;
+  }
+
+  return <MapboxMap {...props} />;
+};
+
 export default Map;
\ No newline at end of file
@@ -0,0 +1,330 @@
+// components/Map/MapKitMap.tsx
+'use client';
+
+/**
+ * Apple MapKit JS implementation of the map
+ *
+ * MapKit can't draw the Mapbox-hosted stream tileset, so a tap is resolved to a
+ * reach through /api/reaches/locate and the returned flowline is outlined as the
+ * selection. Taps farther than TAP_TOLERANCE_PX from that flowline are ignored,
+ * which keeps taps on land from selecting the catchment's stream.
+ * Mapbox-only features (stream search, onReady, 3D view) are not available here.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { appConfig } from '@/config';
+import { MapLoadingSpinner } from '@/components/common/LoadingSpinner';
+import ErrorBoundary from '@/components/common/ErrorBoundary';
+import { useStreamPick } from '@/hooks/useStreamPick';
+import { useAppContext } from '@/components/Layout/AppShell';
+import { getErrorMessage, readApiResponse } from '@/lib/utils/apiErrors';
+import { getMapKitStyle, getRegionForZoom, loadMapKit } from '@/lib/utils/mapkit';
+import { MapErrorOverlay, MapErrorToast } from './MapStatusOverlays';
+import type { MapProps, MapErrorMessage } from './types';
+import type { ReachGeometry } from '@/types';
+import { ApiRequestError } from '@/types/utils';
+
+/** Max distance between a tap and the located flowline, in CSS pixels */
+const TAP_TOLERANCE_PX = 24;
+
+const HIGHLIGHT_COLOR = '#3b82f6';
+
+/**
+ * Reach whose catchment contains a point, with its flowline
+ *
+ * @throws ApiRequestError (REACH_NOT_FOUND outside NHDPlus coverage)
+ */
+async function fetchReachAtPoint(lat: number, lon: number): Promise<ReachGeometry> {
+  const params = new URLSearchParams({ lat: lat.toFixed(6), lon: lon.toFixed(6) });
+  const response = await fetch(`/api/reaches/locate?${params.toString()}`, {
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
+  return readApiResponse<ReachGeometry>(response, 'Failed to locate stream');
+}
+
+/**
+ * Distance in page pixels from a point to the nearest segment of a flowline
+ */
+function getDistanceToFlowline(
+  map: mapkit.Map,
+  coordinates: Array<[number, number]>,
+  point: DOMPoint
+): number {
+  const points = coordinates.map(([lon, lat]) =>
+    map.convertCoordinateToPointOnPage(new mapkit.Coordinate(lat, lon))
+  );
+
+  let minDistance = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[i + 1] ?? a;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0
+      ? Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq))
+      : 0;
+    const distance = Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+    minDistance = Math.min(minDistance, distance);
+  }
+  return minDistance;
+}
+
+const MapKitMap: React.FC<MapProps> = ({
+  className,
+  onPickReach,
+  children,
+  loading: externalLoading,
+  error: externalError,
+  showStreams = true,
+  'data-testid': testId,
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<mapkit.Map | null>(null);
+  const highlightRef = useRef<mapkit.PolylineOverlay | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLocating, setIsLocating] = useState(false);
+  const [mapError, setMapError] = useState<string | null>(null);
+
+  // State for error messages
+  const [errorMessage, setErrorMessage] = useState<MapErrorMessage>({
+    type: 'map-init',
+    title: '',
+    message: '',
+    show: false,
+  });
+
+  // Get AppShell context for preferences
+  const { userPreferences } = useAppContext();
+
+  // Tapped reach → metadata + current flow → stream modal
+  const {
+    pickReach,
+    cancelPick,
+    isLoadingReach,
+    isLoadingForecast,
+    reachError,
+    forecastError,
+  } = useStreamPick({
+    onError: (reachId, errorMsg) => {
+      setErrorMessage({
+        type: 'stream-load',
+        title: 'Failed to Load Stream',
+        message: `Could not load data for reach ${reachId}: ${errorMsg}`,
+        show: true,
+      });
+      setMapError(`Failed to load data for reach ${reachId}: ${errorMsg}`);
+    },
+  });
+
+  // Auto-hide error messages after 5 seconds
+  useEffect(() => {
+    if (errorMessage.show) {
+      const timer = setTimeout(() => {
+        setErrorMessage(prev => ({ ...prev, show: false }));
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [errorMessage.show]);
+
+  // Apply base map layer changes (also applies the initial layer once MapKit has loaded)
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || isLoading) return;
+
+    const { mapType, colorScheme } = getMapKitStyle(mapkit, userPreferences.baseMapLayer);
+    map.mapType = mapType;
+    map.colorScheme = colorScheme;
+  }, [isLoading, userPreferences.baseMapLayer]);
+
+  // Use external loading/error states if provided, or combine with internal states
+  const loading = externalLoading ?? (isLoading || isLocating || isLoadingReach || isLoadingForecast);
+  const displayError = externalError ?? mapError;
+
+  const { defaultCenter, defaultZoom } = appConfig.public.map;
+
+  // Destructure defaultCenter to avoid object dependency issues
+  const defaultLat = defaultCenter.lat;
+  const defaultLng = defaultCenter.lng;
+
+  // Create stable reference for callback to prevent useEffect re-runs
+  const onPickReachRef = useRef(onPickReach);
+
+  useEffect(() => {
+    onPickReachRef.current = onPickReach;
+  }, [onPickReach]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const highlightReach = (map: mapkit.Map, geometry: ReachGeometry | null) => {
+      if (highlightRef.current) {
+        map.removeOverlay(highlightRef.current);
+        highlightRef.current = null;
+      }
+      if (!geometry) return;
+
+      const overlay = new mapkit.PolylineOverlay(
+        geometry.coordinates.map(([lon, lat]) => new mapkit.Coordinate(lat, lon)),
+        {
+          style: new mapkit.Style({
+            strokeColor: HIGHLIGHT_COLOR,
+            lineWidth: 6,
+            lineCap: 'round',
+            lineJoin: 'round',
+          }),
+        }
+      );
+      map.addOverlay(overlay);
+      highlightRef.current = overlay;
+    };
+
+    const tapHandler = async (map: mapkit.Map, pointOnPage: DOMPoint) => {
+      const coordinate = map.convertPointOnPageToCoordinate(pointOnPage);
+      setIsLocating(true);
+
+      try {
+        const geometry = await fetchReachAtPoint(coordinate.latitude, coordinate.longitude);
+        if (cancelled) return;
+
+        if (getDistanceToFlowline(map, geometry.coordinates, pointOnPage) > TAP_TOLERANCE_PX) {
+          highlightReach(map, null);
+          return;
+        }
+
+        console.log('Stream tapped, will fetch metadata and current flow for reach ID:', geometry.reachId);
+
+        highlightReach(map, geometry);
+        pickReach(geometry.reachId);
+
+        // Clear any previous errors
+        setMapError(null);
+        setErrorMessage(prev => ({ ...prev, show: false }));
+
+        // Call legacy callback if provided (for backward compatibility)
+        onPickReachRef.current?.(geometry.reachId);
+      } catch (err) {
+        if (cancelled) return;
+
+        // Taps outside NHDPlus coverage (e.g. open water) simply select nothing
+        if (err instanceof ApiRequestError && err.code === 'REACH_NOT_FOUND') {
+          highlightReach(map, null);
+          return;
+        }
+
+        console.error('Failed to locate tapped stream:', err);
+        setErrorMessage({
+          type: 'invalid-stream',
+          title: 'Stream Lookup Failed',
+          message: getErrorMessage(err),
+          show: true,
+        });
+      } finally {
+        if (!cancelled) setIsLocating(false);
+      }
+    };
+
+    loadMapKit()
+      .then(mk => {
+        const container = containerRef.current;
+        if (cancelled || !container) return;
+
+        const { width, height } = container.getBoundingClientRect();
+        const map = new mk.Map(container, {
+          region: getRegionForZoom(mk, defaultLat, defaultLng, defaultZoom, { width, height }),
+          isRotationEnabled: false,
+          showsCompass: mk.FeatureVisibility.Hidden,
+        });
+
+        if (showStreams) {
+          map.addEventListener('single-tap', (event) => {
+            // MapKit tap events carry the page point; the typings omit it
+            const { pointOnPage } = event as mapkit.EventBase<mapkit.Map> & { pointOnPage: DOMPoint };
+            void tapHandler(map, pointOnPage);
+          });
+        }
+
+        mapRef.current = map;
+        setMapError(null);
+        setIsLoading(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('MapKit initialization error:', err);
+        setMapError(getErrorMessage(err));
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      // Destroying the map also removes its listeners and overlays
+      mapRef.current?.destroy();
+      mapRef.current = null;
+      highlightRef.current = null;
+    };
+  }, [defaultLat, defaultLng, defaultZoom, showStreams, pickReach]);
+
+  return (
+    <ErrorBoundary
+      fallback={
+        <div className="flex items-center justify-center h-full bg-gray-100 dark:bg-gray-800 rounded-lg">
+          <div className="text-center p-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Map component failed to load
+            </p>
+          </div>
+        </div>
+      }
+    >
+      <div
+        className={className ?? 'w-full h-full rounded-lg overflow-hidden relative'}
+        data-testid={testId}
+      >
+        {/* Map Container */}
+        <div ref={containerRef} className="w-full h-full" />
+
+        {/* Loading Overlay - Shows progress through data loading stages */}
+        {loading && !displayError && (
+          <MapLoadingSpinner
+            text={
+              isLoadingForecast ? 'Loading current flow data...' :
+              isLoadingReach ? 'Loading stream data...' :
+              isLocating ? 'Finding stream...' :
+              'Loading map...'
+            }
+          />
+        )}
+
+        {/* Error Overlay */}
+        {displayError && (
+          <MapErrorOverlay
+            error={displayError}
+            isStreamError={!!(reachError || forecastError)}
+            onRetry={() => {
+              setMapError(null);
+              cancelPick();
+            }}
+          />
+        )}
+
+        <MapErrorToast
+          errorMessage={errorMessage}
+          onDismiss={() => setErrorMessage(prev => ({ ...prev, show: false }))}
+        />
+
+        {/* Legacy Child Components Support (no Mapbox map to hand to render functions) */}
+        {children && typeof children !== 'function' && (
+          <div className="absolute inset-0 pointer-events-none z-50">
+            <div className="relative w-full h-full pointer-events-auto">
+              {children}
+            </div>
+          </div>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+};
+
+export default MapKitMap;
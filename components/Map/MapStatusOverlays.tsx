@@ -0,0 +1,103 @@
+// components/Map/MapStatusOverlays.tsx
+'use client';
+
+/**
+ * Error overlay and notification toast shared by the map provider implementations
+ */
+
+import type { MapErrorMessage } from './types';
+
+// Error styling (all error types currently share it)
+const ERROR_STYLE = {
+  bg: 'bg-red-100 dark:bg-red-900/30',
+  text: 'text-red-800 dark:text-red-200',
+  border: 'border-red-200 dark:border-red-700',
+  icon: (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  ),
+};
+
+interface MapErrorOverlayProps {
+  /** Error text */
+  error: string;
+  /** Whether the error came from loading a picked stream (offers a retry) */
+  isStreamError: boolean;
+  /** Called by the "Try Again" button */
+  onRetry: () => void;
+}
+
+/**
+ * Full-map error overlay
+ */
+export const MapErrorOverlay: React.FC<MapErrorOverlayProps> = ({ error, isStreamError, onRetry }) => (
+  <div className="absolute inset-0 flex items-center justify-center bg-white/90 dark:bg-gray-900/90 backdrop-blur-sm z-10">
+    <div className="text-center p-6 bg-white dark:bg-gray-800 rounded-lg shadow-lg max-w-sm">
+      <div className="text-red-500 mb-3">
+        <svg className="w-8 h-8 mx-auto" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </div>
+      <h3 className="font-medium text-gray-900 dark:text-white mb-1">
+        {isStreamError ? 'Stream Data Error' : 'Map Error'}
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+        {error}
+      </p>
+      {isStreamError && (
+        <button
+          onClick={onRetry}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Try Again
+        </button>
+      )}
+    </div>
+  </div>
+);
+
+interface MapErrorToastProps {
+  errorMessage: MapErrorMessage;
+  onDismiss: () => void;
+}
+
+/**
+ * Simplified error notification (the stream modal handles success states)
+ */
+export const MapErrorToast: React.FC<MapErrorToastProps> = ({ errorMessage, onDismiss }) => {
+  if (!errorMessage.show) return null;
+
+  const style = ERROR_STYLE;
+
+  return (
+    <div className="absolute top-4 right-4 z-10 animate-fade-in">
+      <div className={`
+        max-w-sm p-4 rounded-lg shadow-lg border backdrop-blur-sm
+        ${style.bg}
+        ${style.text}
+        ${style.border}
+      `}>
+        <div className="flex items-start space-x-3">
+          <div className="flex-shrink-0 mt-0.5">
+            {style.icon}
+          </div>
+          <div className="flex-1 min-w-0">
+            <h4 className="text-sm font-medium">
+              {errorMessage.title}
+            </h4>
+            <p className="text-sm opacity-90">
+              {errorMessage.message}
+            </p>
+            <button
+              onClick={onDismiss}
+              className="mt-2 text-xs opacity-75 hover:opacity-100 underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,15 @@
 // components/Map/RiverOverlay.tsx
 'use client';
 
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useMemo } from 'react';
 import mapboxgl from 'mapbox-gl';
 import { ReachId } from '@/types/models/RiverReach';
 import { RiskLevel } from '@/types/models/FlowForecast';
 import { ReturnPeriodThresholds } from '@/types/models/ReturnPeriod';
 import { computeRisk } from '@/lib/utils/riskCalculator';
+import { useRiskProfile } from '@/hooks/useRiskProfile';
+import { useReturnPeriods } from '@/hooks/useReturnPeriods';
+import { toReachId } from '@/lib/utils/ids';
 import { useAppContext } from '@/components/Layout/AppShell';
 import type { StreamModalData } from '@/components/Layout/AppShell';
 
@@ -39,7 +42,7 @@ interface RiverOverlayProps {
   map: mapboxgl.Map | null;
   /** Flow data keyed by reachId */
   flowData?: Record<string, ReachFlowData>;
-  /** Return period thresholds keyed by reachId */
+  /** Return period thresholds keyed by reachId (fetched in one batch for flowData's reaches when omitted) */
   returnPeriods?: Record<string, ReturnPeriodThresholds>;
   /** Loading state */
   loading?: boolean;
@@ -96,7 +99,7 @@ const createRiskColorExpression = (flowData: Record<string, ReachFlowData>): map
 const RiverOverlay: React.FC<RiverOverlayProps> = ({
   map,
   flowData = {},
-  returnPeriods = {},
+  returnPeriods: returnPeriodsProp,
   loading = false,
   error,
   showFlowStatus = true,
@@ -110,6 +113,14 @@ const RiverOverlay: React.FC<RiverOverlayProps> = ({
 
   // Get app context for modal control
   const { openStreamModal } = useAppContext();
+  const { getRiskProfile } = useRiskProfile();
+
+  // Thresholds for every reach on the overlay in one request, unless the caller supplies them
+  const overlayReachIds = useMemo(() => Object.keys(flowData).map(toReachId), [flowData]);
+  const { data: fetchedReturnPeriods } = useReturnPeriods(overlayReachIds, {
+    enabled: !returnPeriodsProp && overlayReachIds.length > 0,
+  });
+  const returnPeriods = returnPeriodsProp ?? fetchedReturnPeriods;
 
   // Calculate risk levels for reaches
   const enrichedFlowData = useRef<Record<string, ReachFlowData>>({});
@@ -123,7 +134,7 @@ const RiverOverlay: React.FC<RiverOverlayProps> = ({
       
       // Calculate risk level if not provided but we have thresholds
       if (!riskLevel && thresholds && data.currentFlow !== undefined) {
-        riskLevel = computeRisk(data.currentFlow, thresholds);
+        riskLevel = computeRisk(data.currentFlow, thresholds, getRiskProfile(reachId));
       }
       
       enriched[reachId] = {
@@ -134,7 +145,7 @@ const RiverOverlay: React.FC<RiverOverlayProps> = ({
     });
     
     enrichedFlowData.current = enriched;
-  }, [flowData, returnPeriods]);
+  }, [flowData, returnPeriods, getRiskProfile]);
 
   // Extract stream data from map feature for modal
   const createStreamModalData = useCallback((feature: mapboxgl.MapboxGeoJSONFeature, reachId: ReachId, flowInfo?: ReachFlowData): StreamModalData => {
@@ -3,45 +3,22 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import mapboxgl from 'mapbox-gl';
-import { appConfig } from '@/config';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
-
-// Mapbox Geocoding API response types
-interface MapboxFeature {
-  id: string;
-  type: 'Feature';
-  place_type: string[];
-  place_name: string;
-  properties: Record<string, any>;
-  text: string;
-  center: [number, number]; // [lng, lat]
-  geometry: {
-    type: 'Point';
-    coordinates: [number, number]; // [lng, lat]
-  };
-  context?: Array<{
-    id: string;
-    text: string;
-    short_code?: string;
-  }>;
-}
-
-interface MapboxGeocodingResponse {
-  type: 'FeatureCollection';
-  query: string[];
-  features: MapboxFeature[];
-  attribution: string;
-}
+import { useAppContext } from '@/components/Layout/AppShell';
+import { useStreamPick } from '@/hooks/useStreamPick';
+import { search } from '@/services/searchService';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import type { SearchResult, SearchResultType } from '@/types';
 
 interface SearchBarProps {
-  /** Mapbox map instance */
+  /** Mapbox map instance (null on MapKit: reach results still open the stream popup) */
   map: mapboxgl.Map | null;
   /** Custom className */
   className?: string;
   /** Placeholder text */
   placeholder?: string;
   /** Callback when a result is selected */
-  onResultSelect?: (feature: MapboxFeature) => void;
+  onResultSelect?: (result: SearchResult) => void;
   /** Custom data attribute for testing */
   'data-testid'?: string;
 }
@@ -49,12 +26,12 @@ interface SearchBarProps {
 const SearchBar: React.FC<SearchBarProps> = ({
   map,
   className = '',
-  placeholder = 'Search for places or rivers...',
+  placeholder = 'Search places, reach IDs or lat, lon...',
   onResultSelect,
   'data-testid': testId,
 }) => {
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<MapboxFeature[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
@@ -65,11 +42,19 @@ const SearchBar: React.FC<SearchBarProps> = ({
   const abortControllerRef = useRef<AbortController | null>(null);
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  const { publicToken } = appConfig.public.map.mapbox;
+  const { savedPlaces } = useAppContext();
 
-  // Search function using Mapbox Geocoding API
+  // Reach results open the stream popup once their data has loaded
+  const { pickReach } = useStreamPick({
+    onError: (reachId, message) => {
+      setError(`Could not load reach ${reachId}: ${message}`);
+      setIsOpen(true);
+    },
+  });
+
+  // Search places, reach IDs, coordinates and saved places
   const searchPlaces = useCallback(async (searchQuery: string) => {
-    if (!searchQuery.trim() || !publicToken) return;
+    if (!searchQuery.trim()) return;
 
     // Cancel previous request
     if (abortControllerRef.current) {
@@ -83,23 +68,16 @@ const SearchBar: React.FC<SearchBarProps> = ({
       setIsLoading(true);
       setError(null);
 
-      // Mapbox Geocoding API
-      const url = new URL('https://api.mapbox.com/geocoding/v5/mapbox.places/' + encodeURIComponent(searchQuery) + '.json');
-      url.searchParams.set('access_token', publicToken);
-      url.searchParams.set('limit', '5');
-      url.searchParams.set('types', 'place,poi,address'); // Focus on places, points of interest, and addresses
-      url.searchParams.set('autocomplete', 'true');
+      // Bias place results toward what the user is looking at
+      const center = map?.getCenter();
 
-      const response = await fetch(url.toString(), {
+      const searchResults = await search(searchQuery, savedPlaces, {
+        limit: 8,
+        proximity: center ? { lat: center.lat, lon: center.lng } : undefined,
         signal: abortController.signal,
       });
 
-      if (!response.ok) {
-        throw new Error(`Search failed: ${response.status}`);
-      }
-
-      const data: MapboxGeocodingResponse = await response.json();
-      setResults(data.features || []);
+      setResults(searchResults);
       setIsOpen(true);
       setSelectedIndex(-1);
     } catch (err) {
@@ -108,12 +86,15 @@ const SearchBar: React.FC<SearchBarProps> = ({
         return;
       }
       console.error('Search error:', err);
-      setError('Search failed. Please try again.');
+      setError(`Search failed: ${getErrorMessage(err)}`);
       setResults([]);
+      setIsOpen(true);
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === abortController) {
+        setIsLoading(false);
+      }
     }
-  }, [publicToken]);
+  }, [map, savedPlaces]);
 
   // Debounced search
   const debouncedSearch = useCallback((searchQuery: string) => {
@@ -141,38 +122,45 @@ const SearchBar: React.FC<SearchBarProps> = ({
   };
 
   // Handle result selection
-  const selectResult = useCallback((feature: MapboxFeature) => {
-    setQuery(feature.place_name);
+  const selectResult = useCallback((result: SearchResult) => {
+    setQuery(result.title);
     setResults([]);
     setIsOpen(false);
     setSelectedIndex(-1);
 
     // Pan map to result
-    if (map && feature.center) {
-      const [lng, lat] = feature.center;
+    if (map && result.lat !== undefined && result.lon !== undefined) {
+      const { lat, lon } = result;
       map.flyTo({
-        center: [lng, lat],
-        zoom: feature.place_type.includes('address') ? 16 : 
-              feature.place_type.includes('poi') ? 14 : 12,
+        center: [lon, lat],
+        zoom: result.zoom ?? 12,
         duration: 1000,
       });
 
-      // Add a temporary marker
-      const marker = new mapboxgl.Marker({
-        color: '#3b82f6',
-      })
-        .setLngLat([lng, lat])
-        .addTo(map);
-
-      // Remove marker after 3 seconds
-      setTimeout(() => {
-        marker.remove();
-      }, 3000);
+      // Reaches get the stream popup instead of a marker
+      if (!result.reachId) {
+        // Add a temporary marker
+        const marker = new mapboxgl.Marker({
+          color: '#3b82f6',
+        })
+          .setLngLat([lon, lat])
+          .addTo(map);
+
+        // Remove marker after 3 seconds
+        setTimeout(() => {
+          marker.remove();
+        }, 3000);
+      }
+    }
+
+    // Open the stream popup for reaches (and saved places tied to one)
+    if (result.reachId) {
+      pickReach(result.reachId);
     }
 
     // Call callback if provided
-    onResultSelect?.(feature);
-  }, [map, onResultSelect]);
+    onResultSelect?.(result);
+  }, [map, onResultSelect, pickReach]);
 
   // Handle keyboard navigation
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -231,24 +219,31 @@ const SearchBar: React.FC<SearchBarProps> = ({
     inputRef.current?.focus();
   };
 
-  // Get place type icon
-  const getPlaceIcon = (placeTypes: string[]) => {
-    if (placeTypes.includes('poi')) {
+  // Get result type icon
+  const getResultIcon = (type: SearchResultType) => {
+    if (type === 'reach') {
       return (
-        <svg className="w-4 h-4 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
-          <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
+        <svg className="w-4 h-4 text-cyan-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 15c2.5-2 4.5-2 7 0s4.5 2 7 0 3.5-1.5 4-2M3 9c2.5-2 4.5-2 7 0s4.5 2 7 0 3.5-1.5 4-2" />
         </svg>
       );
     }
-    if (placeTypes.includes('address')) {
+    if (type === 'savedPlace') {
       return (
-        <svg className="w-4 h-4 text-green-500" fill="currentColor" viewBox="0 0 20 20">
-          <path d="M10.707 2.293a1 1 0 00-1.414 0l-7 7a1 1 0 001.414 1.414L4 10.414V17a1 1 0 001 1h2a1 1 0 001-1v-2a1 1 0 011-1h2a1 1 0 011 1v2a1 1 0 001 1h2a1 1 0 001-1v-6.586l.293.293a1 1 0 001.414-1.414l-7-7z" />
+        <svg className="w-4 h-4 text-yellow-500" fill="currentColor" viewBox="0 0 20 20">
+          <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+        </svg>
+      );
+    }
+    if (type === 'coordinates') {
+      return (
+        <svg className="w-4 h-4 text-green-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v4m0 10v4M3 12h4m10 0h4M12 15a3 3 0 100-6 3 3 0 000 6z" />
         </svg>
       );
     }
     return (
-      <svg className="w-4 h-4 text-gray-500" fill="currentColor" viewBox="0 0 20 20">
+      <svg className="w-4 h-4 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
         <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
       </svg>
     );
@@ -304,10 +299,10 @@ const SearchBar: React.FC<SearchBarProps> = ({
               {error}
             </div>
           ) : results.length > 0 ? (
-            results.map((feature, index) => (
+            results.map((result, index) => (
               <button
-                key={feature.id}
-                onClick={() => selectResult(feature)}
+                key={result.id}
+                onClick={() => selectResult(result)}
                 className={`w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-700 focus:bg-gray-50 dark:focus:bg-gray-700 focus:outline-none ${
                   index === selectedIndex ? 'bg-gray-50 dark:bg-gray-700' : ''
                 } ${index === 0 ? 'rounded-t-lg' : ''} ${
@@ -316,15 +311,17 @@ const SearchBar: React.FC<SearchBarProps> = ({
               >
                 <div className="flex items-start space-x-3">
                   <div className="flex-shrink-0 mt-0.5">
-                    {getPlaceIcon(feature.place_type)}
+                    {getResultIcon(result.type)}
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                      {feature.text}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
-                      {feature.place_name}
+                      {result.title}
                     </p>
+                    {result.subtitle && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {result.subtitle}
+                      </p>
+                    )}
                   </div>
                 </div>
               </button>
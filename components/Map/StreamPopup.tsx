@@ -2,7 +2,7 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { ReachId } from '@/types/models/RiverReach';
+import { ReachId, NetworkDirection } from '@/types/models/RiverReach';
 import { SavedPlace } from '@/types/models/SavedPlace';
 import { RiskLevel } from '@/types/models/FlowForecast';
 import { FlowUnit, TempUnit } from '@/types/models/UserPreferences';
@@ -15,7 +15,16 @@ import { useAppContext } from '@/components/Layout/AppShell';
 import { useShortRangeForecast, getCurrentFlow } from '@/hooks/useFlowData';
 import { useReachMetadata } from '@/hooks/useReachMetadata';
 import { useReturnPeriods } from '@/hooks/useReturnPeriods';
+import { useReachNetwork } from '@/hooks/useReachNetwork';
+import { useMapStreamHighlight } from '@/hooks/useMapStreamHighlight';
+import { useRiskProfile } from '@/hooks/useRiskProfile';
+import { useReachObservations } from '@/hooks/useReachObservations';
+import { useWeather, toWeatherData } from '@/hooks/useWeather';
 import { computeRisk } from '@/lib/utils/riskCalculator';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+
+// Hop counts offered for the network highlight
+const NETWORK_DEPTHS = [1, 2, 3, 5, 10];
 
 interface StreamMetadata {
   reachId: ReachId;
@@ -56,6 +65,8 @@ interface StreamPopupProps {
   onViewDashboard?: (streamData: StreamMetadata) => void;
   /** Callback to remove from saved places (legacy - uses context) */
   onRemoveFromSaved?: (reachId: ReachId) => void;
+  /** Map to draw the upstream/downstream network highlight on (Mapbox only) */
+  map?: mapboxgl.Map | null;
   /** Custom className */
   className?: string;
 }
@@ -67,14 +78,20 @@ const StreamPopup: React.FC<StreamPopupProps> = ({
   weatherData,
   flowUnit = 'CFS',
   tempUnit = 'F',
+  map = null,
   className = '',
 }) => {
   
   // Get context for save/remove operations
   const { savedPlaces, saveLocationFromReach, removeSavedPlace, viewStreamDashboard } = useAppContext();
+  const { getRiskProfile } = useRiskProfile();
   
   // Local loading state for save operations
   const [isSaving, setIsSaving] = useState(false);
+
+  // Network highlight mode (null = off)
+  const [networkDirection, setNetworkDirection] = useState<NetworkDirection | null>(null);
+  const [networkDepth, setNetworkDepth] = useState(3);
   
   // Compute if already saved from context
   const isAlreadySaved = !!(streamData && savedPlaces.some(p => p.reachId === streamData.reachId));
@@ -99,6 +116,50 @@ const StreamPopup: React.FC<StreamPopupProps> = ({
     staleTime: 2 * 60 * 1000, // 2 minutes - fresh data for current conditions
   });
 
+  // Reaches feeding into / below this one, outlined on the map
+  const {
+    data: network,
+    isLoading: networkLoading,
+    error: networkError,
+  } = useReachNetwork(streamData?.reachId || null, networkDirection ?? 'downstream', networkDepth, {
+    enabled: isOpen && !!networkDirection,
+  });
+  const { highlightNetwork, clearNetworkHighlight } = useMapStreamHighlight(map);
+
+  useEffect(() => {
+    if (isOpen && networkDirection && network) {
+      highlightNetwork(network);
+    } else {
+      clearNetworkHighlight();
+    }
+  }, [isOpen, networkDirection, network, highlightNetwork, clearNetworkHighlight]);
+
+  // A new reach starts with the highlight off; closing the popup clears it
+  useEffect(() => {
+    setNetworkDirection(null);
+    return () => clearNetworkHighlight();
+  }, [streamData?.reachId, clearNetworkHighlight]);
+
+  // Linked gauge and its latest reading (fills gaugeId when the map feature has none)
+  const { data: observations } = useReachObservations(streamData?.reachId || null, 6, {
+    enabled: isOpen && !!streamData?.reachId,
+    refetchInterval: false,
+  });
+  const gaugeId = streamData?.gaugeId || observations?.gauge?.siteId;
+  const latestObserved = observations?.points[observations.points.length - 1];
+
+  // Local weather from WeatherKit unless the caller supplies it
+  const weatherLat = streamData?.lat ?? reachMetadata?.latitude;
+  const weatherLon = streamData?.lon ?? reachMetadata?.longitude;
+  const weatherQuery = useWeather(weatherLat, weatherLon, {
+    enabled: isOpen && !weatherData,
+  });
+  const weather = weatherData ?? {
+    weather: toWeatherData(weatherQuery.data, tempUnit),
+    loading: weatherQuery.isLoading,
+    error: weatherQuery.error ? getErrorMessage(weatherQuery.error) : undefined,
+  };
+
   // Fetch return periods for risk calculation
   const {
     data: returnPeriodsData,
@@ -118,7 +179,7 @@ const StreamPopup: React.FC<StreamPopupProps> = ({
     // If we have both current flow and return periods, use proper classification
     if (currentFlow !== null && returnPeriods && !returnPeriodsLoading) {
       try {
-        return computeRisk(currentFlow, returnPeriods);
+        return computeRisk(currentFlow, returnPeriods, getRiskProfile(streamData?.reachId));
       } catch (error) {
         console.warn('Failed to compute risk level:', error);
         return 'normal';
@@ -318,12 +379,20 @@ const StreamPopup: React.FC<StreamPopupProps> = ({
                 </div>
               )}
               
-              {streamData.gaugeId && (
+              {gaugeId && (
                 <div>
                   <span className="text-gray-500 dark:text-gray-400">Gauge ID:</span>
                   <p className="font-medium text-gray-900 dark:text-white">
-                    {streamData.gaugeId}
+                    {gaugeId}
                   </p>
+                  {latestObserved && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Observed {flowUnit === 'CMS'
+                        ? `${(latestObserved.q / 35.314666721).toFixed(1)} CMS`
+                        : `${Math.round(latestObserved.q).toLocaleString()} CFS`}
+                      {' '}at {new Date(latestObserved.t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -344,7 +413,7 @@ const StreamPopup: React.FC<StreamPopupProps> = ({
                 Flow data temporarily unavailable
               </p>
               <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                Please try again later
+                {flowError ? getErrorMessage(flowError) : 'Please try again later'}
               </p>
             </div>
           ) : hasFlowData ? (
@@ -374,13 +443,62 @@ const StreamPopup: React.FC<StreamPopupProps> = ({
           )}
         </div>
 
+        {/* River Network */}
+        {streamData?.reachId && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium text-gray-900 dark:text-white">River Network</h4>
+              {networkDirection && (
+                <select
+                  value={networkDepth}
+                  onChange={(e) => setNetworkDepth(Number(e.target.value))}
+                  className="px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  aria-label="Network depth"
+                >
+                  {NETWORK_DEPTHS.map(depth => (
+                    <option key={depth} value={depth}>{depth} {depth === 1 ? 'hop' : 'hops'}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+              {([null, 'upstream', 'downstream'] as const).map(direction => (
+                <button
+                  key={direction ?? 'off'}
+                  onClick={() => setNetworkDirection(direction)}
+                  className={`
+                    flex-1 px-2 py-1 text-xs font-medium rounded-md transition-colors
+                    ${networkDirection === direction
+                      ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                    }
+                  `}
+                >
+                  {direction === null ? 'Off' : direction === 'upstream' ? 'Upstream' : 'Downstream'}
+                </button>
+              ))}
+            </div>
+            {networkDirection && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {networkLoading
+                  ? 'Loading river network...'
+                  : networkError
+                    ? getErrorMessage(networkError)
+                    : network
+                      ? `${network.nodes.length} ${network.nodes.length === 1 ? 'reach' : 'reaches'} ${networkDirection}${network.truncated ? ' (limit reached)' : ''}${map ? '' : ' • highlight needs the Mapbox map'}`
+                      : null}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Current Weather */}
         <div className="space-y-2">
           <h4 className="font-medium text-gray-900 dark:text-white">Local Weather</h4>
           <WeatherSummary
-            weather={weatherData?.weather}
-            loading={weatherData?.loading}
-            error={weatherData?.error}
+            weather={weather.weather}
+            loading={weather.loading}
+            error={weather.error}
             variant="card"
           />
         </div>
@@ -0,0 +1,38 @@
+// components/Map/types.ts
+/**
+ * Props shared by every map provider implementation (Mapbox GL, MapKit JS)
+ * Map.tsx picks the implementation from UserPreferences.mapProvider.
+ */
+
+import type React from 'react';
+
+export interface MapProps {
+  /** Custom className for styling */
+  className?: string;
+  /** Callback when map is ready (Mapbox only: search overlays query its stream tiles) */
+  onReady?: (map: mapboxgl.Map) => void;
+  /** Called with reachId (station_id / STATIONID) when user clicks a stream */
+  onPickReach?: (reachId: string) => void;
+  /** Map controls/overlays to render (legacy support) */
+  children?: React.ReactNode;
+  /** Loading state override */
+  loading?: boolean;
+  /** Error state override */
+  error?: string;
+  /** Show stream layers */
+  showStreams?: boolean;
+  /** Show stream search overlay (legacy - use MapPanel overlays instead) */
+  showStreamSearch?: boolean;
+  /** Custom data attribute for testing */
+  'data-testid'?: string;
+}
+
+// Error message types
+export type MapErrorType = 'stream-load' | 'map-init' | 'invalid-stream';
+
+export interface MapErrorMessage {
+  type: MapErrorType;
+  title: string;
+  message: string;
+  show: boolean;
+}
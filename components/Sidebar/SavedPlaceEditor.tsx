@@ -0,0 +1,102 @@
+// components/Sidebar/SavedPlaceEditor.tsx
+'use client';
+
+import React, { useState } from 'react';
+import type { SavedPlace } from '@/types/models/SavedPlace';
+import type { RiskProfile } from '@/types/models/RiskProfile';
+import { DEFAULT_RISK_PROFILE } from '@/lib/utils/riskCalculator';
+
+interface SavedPlaceEditorProps {
+  /** Place being edited */
+  place: SavedPlace;
+  /** User-defined risk profiles (the default profile is always offered) */
+  riskProfiles: RiskProfile[];
+  /** Called with the edited fields */
+  onSave: (updates: Pick<SavedPlace, 'name' | 'riskProfileId'>) => void;
+  /** Close without saving */
+  onCancel: () => void;
+  /** Custom className */
+  className?: string;
+}
+
+/**
+ * Rename a saved place and pick its risk profile override
+ */
+const SavedPlaceEditor: React.FC<SavedPlaceEditorProps> = ({
+  place,
+  riskProfiles,
+  onSave,
+  onCancel,
+  className = '',
+}) => {
+  const [name, setName] = useState(place.name);
+  // '' = no override (use the active profile)
+  const [riskProfileId, setRiskProfileId] = useState(place.riskProfileId ?? '');
+
+  const profiles = [DEFAULT_RISK_PROFILE, ...riskProfiles];
+  const inputClass = 'w-full px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim() || place.name,
+      riskProfileId: riskProfileId || undefined,
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`space-y-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 ${className}`}
+    >
+      <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Edit place</h3>
+
+      <div className="space-y-1">
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300" htmlFor="saved-place-name">
+          Name
+        </label>
+        <input
+          id="saved-place-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300" htmlFor="saved-place-risk-profile">
+          Risk profile
+        </label>
+        <select
+          id="saved-place-risk-profile"
+          value={riskProfileId}
+          onChange={(e) => setRiskProfileId(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Use active profile</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-xs font-medium rounded-md text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default SavedPlaceEditor;
@@ -1,16 +1,17 @@
 // components/sidebar/SavedPlacesList.tsx
 'use client';
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { SavedPlace } from '@/types/models/SavedPlace';
 import { FlowUnit } from '@/types/models/UserPreferences';
 import { RiskLevel } from '@/types/models/FlowForecast';
 import { ReturnPeriodThresholds } from '@/types/models/ReturnPeriod';
 import { WeatherData } from '@/components/display/WeatherSummary';
 import { useAppContext } from '@/components/Layout/AppShell';
-import { useShortRangeForecast, getCurrentFlow, getPeakFlow } from '@/hooks/useFlowData';
+import { useMultipleReaches, getCurrentFlow, getPeakFlow, ReachFlowResult } from '@/hooks/useFlowData';
 import { useReachMetadata } from '@/hooks/useReachMetadata';
 import { useReturnPeriods } from '@/hooks/useReturnPeriods';
+import { useRiskProfile } from '@/hooks/useRiskProfile';
 import { computeRisk } from '@/lib/utils/riskCalculator';
 import LoadingSpinner from '@/components/common/LoadingSpinner';
 
@@ -50,6 +51,8 @@ interface SavedPlaceCardProps {
   // New props for return periods integration
   returnPeriods?: ReturnPeriodThresholds | null;
   returnPeriodsLoading?: boolean;
+  // Short-range forecast from the list's batch request
+  flowResult?: ReachFlowResult;
 }
 
 const SavedPlaceCard: React.FC<SavedPlaceCardProps> = ({
@@ -62,12 +65,17 @@ const SavedPlaceCard: React.FC<SavedPlaceCardProps> = ({
   onDelete,
   returnPeriods,
   returnPeriodsLoading,
+  flowResult,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [videoLoaded, setVideoLoaded] = useState(false);
   const [videoError, setVideoError] = useState(false);
   const [lastFetchTime, setLastFetchTime] = useState<Date | null>(null);
 
+  // Risk profile for this place (its own override or the user's active profile)
+  const { getRiskProfile } = useRiskProfile();
+  const riskProfile = getRiskProfile(place.reachId, place.id);
+
   // Fetch river metadata to get the river name (only if we have a reachId)
   const {
     data: reachMetadata,
@@ -78,16 +86,9 @@ const SavedPlaceCard: React.FC<SavedPlaceCardProps> = ({
     staleTime: 60 * 60 * 1000, // Cache for 1 hour
   });
 
-  // Use individual flow data hook for this place (only if showFlowData is true)
-  const {
-    data: flowData,
-    isLoading: flowLoading,
-    error: flowError,
-  } = useShortRangeForecast(place.reachId || null, {
-    enabled: !!place.reachId && showFlowData,
-    staleTime: 5 * 60 * 1000, // 5 minutes
-    refetchInterval: 10 * 60 * 1000, // 10 minutes for saved places
-  });
+  const flowData = flowResult?.data;
+  const flowLoading = flowResult?.isLoading ?? false;
+  const flowError = flowResult?.error ?? null;
 
   // Extract flow metrics
   const currentFlow = getCurrentFlow(flowData);
@@ -104,7 +105,7 @@ const SavedPlaceCard: React.FC<SavedPlaceCardProps> = ({
     // If we have both current flow and return periods, use proper classification
     if (currentFlow !== null && returnPeriods && !returnPeriodsLoading) {
       try {
-        const computedRisk = computeRisk(currentFlow, returnPeriods);
+        const computedRisk = computeRisk(currentFlow, returnPeriods, riskProfile);
         console.log(`[SavedPlaceCard] - computedRisk:`, computedRisk);
         console.log(`[SavedPlaceCard] - RP2: ${returnPeriods.rp2}, RP10: ${returnPeriods.rp10}, RP25: ${returnPeriods.rp25}`);
         return computedRisk;
@@ -438,6 +439,15 @@ const SavedPlacesList: React.FC<SavedPlacesListProps> = ({
     enabled: showFlowData && reachIds.length > 0
   });
 
+  // Short-range forecasts for all places in one batch request (also seeds the per-reach cache)
+  const placeReachIds = useMemo(() => places.map(p => p.reachId || null), [places]);
+  const flowResults = useMultipleReaches(placeReachIds, 'short', {
+    enabled: showFlowData,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchInterval: 10 * 60 * 1000, // 10 minutes for saved places
+  });
+  const flowResultsById = new Map(places.map((p, i) => [p.id, flowResults[i]]));
+
   // Log return periods status for debugging
   useEffect(() => {
     if (hasReturnPeriodsData && !returnPeriodsLoading) {
@@ -548,6 +558,7 @@ const SavedPlacesList: React.FC<SavedPlacesListProps> = ({
               // Pass return periods data to each card
               returnPeriods={placeReturnPeriods}
               returnPeriodsLoading={returnPeriodsLoading}
+              flowResult={flowResultsById.get(place.id)}
             />
           );
         })}
@@ -3,7 +3,9 @@
 
 import React, { useState } from 'react';
 import { FlowUnit, ThemePref } from '@/types/models/UserPreferences';
+import type { RiskProfile } from '@/types/models/RiskProfile';
 import UnitsToggle from '@/components/settings/UnitsToggle';
+import RiskProfileEditor from '@/components/settings/RiskProfileEditor';
 import SidebarToggle from '@/components/Sidebar/SidebarToggle';
 
 export type AppView = 'map' | 'dashboard';
@@ -21,6 +23,12 @@ interface SidebarHeaderProps {
   flowUnit?: FlowUnit;
   /** Callback when flow unit changes */
   onFlowUnitChange?: (unit: FlowUnit) => void;
+  /** User-defined risk profiles */
+  riskProfiles?: RiskProfile[];
+  /** Active risk profile ID (default profile if unset) */
+  activeRiskProfileId?: string;
+  /** Callback when risk profiles or the active profile change */
+  onRiskProfilesChange?: (profiles: RiskProfile[], activeProfileId: string | undefined) => void;
   /** Current theme setting */
   theme?: ThemePref;
   /** Callback when theme changes */
@@ -40,6 +48,9 @@ const SidebarHeader: React.FC<SidebarHeaderProps> = ({
   onSidebarToggle,
   flowUnit = 'CFS',
   onFlowUnitChange,
+  riskProfiles = [],
+  activeRiskProfileId,
+  onRiskProfilesChange,
   theme = 'system',
   onThemeChange,
   showSettings = true,
@@ -134,6 +145,23 @@ const SidebarHeader: React.FC<SidebarHeaderProps> = ({
               </p>
             </div>
 
+            {/* Risk Profiles */}
+            {onRiskProfilesChange && (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Risk Profile
+                </label>
+                <RiskProfileEditor
+                  profiles={riskProfiles}
+                  activeProfileId={activeRiskProfileId}
+                  onChange={onRiskProfilesChange}
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Which flows count as elevated, high or flood; saved places can override it
+                </p>
+              </div>
+            )}
+
             {/* App Info */}
             <div className="pt-3 border-t border-gray-200 dark:border-gray-600">
               <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
@@ -145,7 +145,7 @@ const WeatherSummary: React.FC<WeatherSummaryProps> = ({
   if (error || !weather) {
     return (
       <div className={`text-gray-500 dark:text-gray-400 text-sm ${className}`}>
-        Weather unavailable
+        {error || 'Weather unavailable'}
       </div>
     );
   }
@@ -0,0 +1,195 @@
+// components/settings/RiskProfileEditor.tsx
+'use client';
+
+import React, { useState } from 'react';
+import type { ReturnPeriodThresholds, RiskProfile, RiskRule } from '@/types';
+import { DEFAULT_RISK_PROFILE } from '@/lib/utils/riskCalculator';
+
+const RULE_LEVELS: RiskRule['level'][] = ['elevated', 'high', 'flood'];
+const RETURN_PERIODS: Array<keyof ReturnPeriodThresholds> = ['rp2', 'rp5', 'rp10', 'rp25', 'rp50', 'rp100'];
+
+interface RiskProfileEditorProps {
+  /** User-defined profiles (the default profile is always offered, read-only) */
+  profiles: RiskProfile[];
+  /** Profile used when a saved place has no override */
+  activeProfileId?: string;
+  /** Called with the new profile list and active profile ID */
+  onChange: (profiles: RiskProfile[], activeProfileId: string | undefined) => void;
+  /** Custom className */
+  className?: string;
+}
+
+/**
+ * Create, edit and pick risk profiles (which flows map to which risk level)
+ */
+const RiskProfileEditor: React.FC<RiskProfileEditorProps> = ({
+  profiles,
+  activeProfileId,
+  onChange,
+  className = '',
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editing = profiles.find(p => p.id === editingId) ?? null;
+  const allProfiles = [DEFAULT_RISK_PROFILE, ...profiles];
+
+  const updateProfile = (id: string, changes: Partial<RiskProfile>) => {
+    onChange(profiles.map(p => (p.id === id ? { ...p, ...changes } : p)), activeProfileId);
+  };
+
+  const updateRule = (profile: RiskProfile, index: number, rule: RiskRule) => {
+    updateProfile(profile.id, { rules: profile.rules.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  // New profiles start as a copy of the active one
+  const handleCreate = () => {
+    const base = allProfiles.find(p => p.id === activeProfileId) ?? DEFAULT_RISK_PROFILE;
+    const profile: RiskProfile = {
+      id: crypto.randomUUID(),
+      name: `Custom profile ${profiles.length + 1}`,
+      rules: base.rules.map(rule => ({ ...rule, threshold: { ...rule.threshold } })),
+    };
+    onChange([...profiles, profile], profile.id);
+    setEditingId(profile.id);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(profiles.filter(p => p.id !== id), activeProfileId === id ? undefined : activeProfileId);
+    setEditingId(null);
+  };
+
+  const inputClass = 'px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {/* Active profile */}
+      <div className="flex items-center space-x-2">
+        <select
+          value={activeProfileId ?? DEFAULT_RISK_PROFILE.id}
+          onChange={(e) => onChange(profiles, e.target.value === DEFAULT_RISK_PROFILE.id ? undefined : e.target.value)}
+          className={`flex-1 ${inputClass}`}
+          aria-label="Active risk profile"
+        >
+          {allProfiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        {activeProfileId && profiles.some(p => p.id === activeProfileId) && (
+          <button
+            onClick={() => setEditingId(editingId === activeProfileId ? null : activeProfileId)}
+            className="px-2 py-1 text-xs font-medium rounded-md text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            {editingId === activeProfileId ? 'Done' : 'Edit'}
+          </button>
+        )}
+        <button
+          onClick={handleCreate}
+          className="px-2 py-1 text-xs font-medium rounded-md text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+        >
+          New
+        </button>
+      </div>
+
+      {/* Profile editor */}
+      {editing && (
+        <div className="space-y-2 p-2 rounded-md border border-gray-200 dark:border-gray-600">
+          <input
+            value={editing.name}
+            onChange={(e) => updateProfile(editing.id, { name: e.target.value })}
+            className={`w-full ${inputClass}`}
+            aria-label="Profile name"
+          />
+
+          {editing.rules.map((rule, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-1">
+              <select
+                value={rule.level}
+                onChange={(e) => updateRule(editing, index, { ...rule, level: e.target.value as RiskRule['level'] })}
+                className={inputClass}
+                aria-label="Risk level"
+              >
+                {RULE_LEVELS.map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+              <input
+                value={rule.label ?? ''}
+                placeholder="Label"
+                onChange={(e) => updateRule(editing, index, { ...rule, label: e.target.value || undefined })}
+                className={`w-24 ${inputClass}`}
+                aria-label="Rule label"
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400">at</span>
+              {rule.threshold.type === 'returnPeriod' ? (
+                <select
+                  value={rule.threshold.returnPeriod}
+                  onChange={(e) => updateRule(editing, index, {
+                    ...rule,
+                    threshold: { type: 'returnPeriod', returnPeriod: e.target.value as keyof ReturnPeriodThresholds },
+                  })}
+                  className={inputClass}
+                  aria-label="Return period"
+                >
+                  {RETURN_PERIODS.map(rp => (
+                    <option key={rp} value={rp}>{rp.toUpperCase()}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.threshold.cfs}
+                  onChange={(e) => updateRule(editing, index, {
+                    ...rule,
+                    threshold: { type: 'absolute', cfs: Math.max(0, Number(e.target.value) || 0) },
+                  })}
+                  className={`w-20 ${inputClass}`}
+                  aria-label="Threshold in CFS"
+                />
+              )}
+              <select
+                value={rule.threshold.type}
+                onChange={(e) => updateRule(editing, index, {
+                  ...rule,
+                  threshold: e.target.value === 'absolute'
+                    ? { type: 'absolute', cfs: 0 }
+                    : { type: 'returnPeriod', returnPeriod: 'rp2' },
+                })}
+                className={inputClass}
+                aria-label="Threshold type"
+              >
+                <option value="returnPeriod">return period</option>
+                <option value="absolute">CFS</option>
+              </select>
+              <button
+                onClick={() => updateProfile(editing.id, { rules: editing.rules.filter((_, i) => i !== index) })}
+                className="px-1 text-xs text-gray-500 hover:text-red-600"
+                title="Remove rule"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => updateProfile(editing.id, {
+                rules: [...editing.rules, { level: 'elevated', threshold: { type: 'absolute', cfs: 0 } }],
+              })}
+              className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              + Add rule
+            </button>
+            <button
+              onClick={() => handleDelete(editing.id)}
+              className="text-xs font-medium text-red-600 dark:text-red-400 hover:underline"
+            >
+              Delete profile
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskProfileEditor;
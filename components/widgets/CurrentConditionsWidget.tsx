@@ -9,6 +9,7 @@ import {
   getPeakFlow 
 } from '@/hooks/useFlowData';
 import { getReachDisplayName } from '@/hooks/useReachMetadata';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
 import type { RiskLevel } from '@/types';
 
 interface CurrentConditionsWidgetProps {
@@ -162,7 +163,7 @@ const CurrentConditionsWidget: React.FC<CurrentConditionsWidgetProps> = ({
             Unable to load current conditions
           </p>
           <p className="text-xs text-red-600 dark:text-red-400">
-            {error.message}
+            {getErrorMessage(error)}
           </p>
         </div>
       </div>
@@ -0,0 +1,299 @@
+// components/widgets/DownstreamPropagationWidget.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useAppContext, isRiverReach, getLocationProps } from '@/components/Layout/AppShell';
+import { useMultipleReaches } from '@/hooks/useFlowData';
+import { useReachNetwork } from '@/hooks/useReachNetwork';
+import { useReturnPeriods } from '@/hooks/useReturnPeriods';
+import { useRiskProfile } from '@/hooks/useRiskProfile';
+import { getReachDisplayName } from '@/hooks/useReachMetadata';
+import { buildPropagationRows, type PropagationRow } from '@/lib/utils/propagation';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import type { NormalizedFlowForecast, ReachId, RiskLevel } from '@/types';
+
+interface DownstreamPropagationWidgetProps {
+  /** Custom className for styling */
+  className?: string;
+  /** Hops to follow down the route */
+  depth?: number;
+  /** Custom data attribute for testing */
+  'data-testid'?: string;
+}
+
+// Risk level colors for the timeline strip and badges
+const RISK_STYLES: Record<RiskLevel, { bar: string; badge: string; label: string }> = {
+  normal: { bar: 'bg-green-500', badge: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-200', label: 'Normal' },
+  elevated: { bar: 'bg-yellow-500', badge: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200', label: 'Elevated' },
+  high: { bar: 'bg-orange-500', badge: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-200', label: 'High' },
+  flood: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-200', label: 'Flood' },
+};
+
+const DownstreamPropagationWidget: React.FC<DownstreamPropagationWidgetProps> = ({
+  className = '',
+  depth = 5,
+  'data-testid': testId,
+}) => {
+  // Get active location from AppShell context
+  const { activeLocation, userPreferences } = useAppContext();
+  const locationProps = getLocationProps(activeLocation);
+
+  const reachId = isRiverReach(activeLocation) ?
+    activeLocation.reachId : locationProps?.reachId || null;
+  const rootName = isRiverReach(activeLocation) ?
+    getReachDisplayName(activeLocation) : locationProps?.name;
+
+  // Reach the operator wants the arrival time for (defaults to the last reach on the route)
+  const [targetReachId, setTargetReachId] = useState<ReachId | null>(null);
+
+  const {
+    data: network,
+    isLoading: networkLoading,
+    error: networkError,
+  } = useReachNetwork(reachId, 'downstream', depth, { enabled: !!reachId });
+
+  const routeReachIds = useMemo(
+    () => network ? [network.rootReachId, ...network.nodes.map(n => n.reachId)] : [],
+    [network]
+  );
+
+  // One batch request for every reach on the route
+  const forecastResults = useMultipleReaches(routeReachIds, 'short', {
+    enabled: routeReachIds.length > 0,
+    refetchInterval: 5 * 60 * 1000,
+  });
+  const { data: thresholds } = useReturnPeriods(routeReachIds);
+  const { getRiskProfile } = useRiskProfile();
+
+  const forecastsLoading = forecastResults.some(r => r.isLoading);
+
+  const forecasts = useMemo(() => {
+    const byReach: Record<string, NormalizedFlowForecast | undefined> = {};
+    forecastResults.forEach(r => {
+      if (r.reachId) byReach[r.reachId] = r.data;
+    });
+    return byReach;
+  }, [forecastResults]);
+
+  const rows: PropagationRow[] = useMemo(
+    () => network ? buildPropagationRows(network, forecasts, thresholds, rootName, getRiskProfile) : [],
+    [network, forecasts, thresholds, rootName, getRiskProfile]
+  );
+
+  // Shared time window for the risk strips
+  const timeWindow = useMemo(() => {
+    const times = Object.values(forecasts).flatMap(f =>
+      f?.series?.filter(s => s.horizon === 'short' && s.label === 'mean').flatMap(s => s.points.map(p => new Date(p.t).getTime())) ?? []
+    );
+    if (times.length === 0) return null;
+    return { start: Math.min(...times), end: Math.max(...times) };
+  }, [forecasts]);
+
+  const targetRow = rows.find(r => r.reachId === targetReachId) ?? rows[rows.length - 1];
+
+  // Format flow value with proper units
+  const formatFlow = (flow: number | null): string => {
+    if (flow === null) return '--';
+
+    const unit = userPreferences.flowUnit || 'CFS';
+    if (unit === 'CMS') {
+      const flowCMS = flow / 35.314666721;
+      return `${flowCMS.toLocaleString(undefined, { maximumFractionDigits: 1 })} CMS`;
+    }
+
+    return `${flow.toLocaleString(undefined, { maximumFractionDigits: 0 })} CFS`;
+  };
+
+  const formatTime = (iso: string | null): string => {
+    if (!iso) return '--';
+    return new Date(iso).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  };
+
+  const formatLag = (hours: number | null): string => {
+    if (hours === null) return '--';
+    if (hours === 0) return '0 h';
+    return `${hours > 0 ? '+' : ''}${hours.toFixed(0)} h`;
+  };
+
+  // Risk timeline strip: one segment per level change across the shared window
+  const renderRiskStrip = (row: PropagationRow) => {
+    if (!timeWindow || row.riskChanges.length === 0) {
+      return <div className="h-2 rounded bg-gray-200 dark:bg-gray-700" title="No thresholds available" />;
+    }
+
+    const span = Math.max(timeWindow.end - timeWindow.start, 1);
+    return (
+      <div className="flex h-2 rounded overflow-hidden bg-gray-200 dark:bg-gray-700">
+        {row.riskChanges.map((change, index) => {
+          const from = new Date(change.t).getTime();
+          const to = index < row.riskChanges.length - 1
+            ? new Date(row.riskChanges[index + 1].t).getTime()
+            : timeWindow.end;
+          const offset = index === 0 ? ((from - timeWindow.start) / span) * 100 : 0;
+          return (
+            <div
+              key={change.t}
+              className={RISK_STYLES[change.level].bar}
+              style={{ width: `${((to - from) / span) * 100}%`, marginLeft: `${offset}%` }}
+              title={`${RISK_STYLES[change.level].label} from ${formatTime(change.t)}`}
+            />
+          );
+        })}
+      </div>
+    );
+  };
+
+  const isLoading = networkLoading || forecastsLoading;
+
+  // No reach selected
+  if (!reachId) {
+    return (
+      <div
+        className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+        data-testid={testId}
+      >
+        <div className="text-center py-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+            No Stream Selected
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Select a stream on the map to follow its flood wave downstream
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div
+        className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+        data-testid={testId}
+      >
+        <div className="animate-pulse space-y-3">
+          <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-48"></div>
+          {[0, 1, 2, 3].map(i => (
+            <div key={i} className="h-8 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (networkError) {
+    return (
+      <div
+        className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+        data-testid={testId}
+      >
+        <div className="text-center py-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+            Route Unavailable
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            Unable to load the downstream route
+          </p>
+          <p className="text-xs text-red-600 dark:text-red-400">
+            {getErrorMessage(networkError)}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+      data-testid={testId}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Downstream Propagation
+        </h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {rows.length - 1} reaches · {network?.depth} hops{network?.truncated ? ' (truncated)' : ''}
+        </span>
+      </div>
+
+      {/* Arrival summary for the target reach */}
+      {rows.length > 1 && targetRow && (
+        <div className="mb-4 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-900 dark:text-blue-100">
+          {targetRow.lagHours !== null ? (
+            <>
+              Peak at <span className="font-medium">{rows[0].name || `Reach ${rows[0].reachId}`}</span> reaches{' '}
+              <span className="font-medium">{targetRow.name || `Reach ${targetRow.reachId}`}</span>{' '}
+              {targetRow.lagHours > 0
+                ? <>about <span className="font-semibold">{targetRow.lagHours.toFixed(0)} h</span> later ({formatTime(targetRow.peakTime)})</>
+                : <>at the same time or earlier (local peak {formatTime(targetRow.peakTime)})</>}
+            </>
+          ) : (
+            <>No short-range forecast for {targetRow.name || `Reach ${targetRow.reachId}`}</>
+          )}
+        </div>
+      )}
+
+      {rows.length <= 1 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+          No downstream reaches found for this stream
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {/* Column headings */}
+          <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 dark:text-gray-400 px-2">
+            <span className="col-span-4">Reach</span>
+            <span className="col-span-2 text-right">Peak</span>
+            <span className="col-span-2 text-right">Peak time</span>
+            <span className="col-span-1 text-right">Lag</span>
+            <span className="col-span-3">Risk over time</span>
+          </div>
+
+          {rows.map(row => (
+            <button
+              key={row.reachId}
+              type="button"
+              onClick={() => setTargetReachId(row.reachId)}
+              className={`w-full grid grid-cols-12 gap-2 items-center text-left text-sm px-2 py-2 rounded-lg transition-colors ${
+                row.reachId === targetRow?.reachId
+                  ? 'bg-blue-50 dark:bg-blue-900/30'
+                  : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+              }`}
+              title="Use as arrival point"
+            >
+              <span className="col-span-4 truncate text-gray-900 dark:text-white">
+                <span className="text-xs text-gray-400 mr-1">{row.depth === 0 ? '●' : `↓${row.depth}`}</span>
+                {row.name || `Reach ${row.reachId}`}
+              </span>
+              <span className="col-span-2 text-right text-gray-900 dark:text-white">
+                {formatFlow(row.peakFlow)}
+              </span>
+              <span className="col-span-2 text-right text-gray-600 dark:text-gray-300">
+                {formatTime(row.peakTime)}
+              </span>
+              <span className="col-span-1 text-right font-medium text-gray-900 dark:text-white">
+                {row.depth === 0 ? '—' : formatLag(row.lagHours)}
+              </span>
+              <span className="col-span-3 flex items-center space-x-2">
+                <span className="flex-1">{renderRiskStrip(row)}</span>
+                {row.maxRisk && (
+                  <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${RISK_STYLES[row.maxRisk].badge}`}>
+                    {RISK_STYLES[row.maxRisk].label}
+                  </span>
+                )}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 text-center">
+        Short-range (18-hour) forecast peaks · lag relative to the selected stream · click a reach to set the arrival point
+      </div>
+    </div>
+  );
+};
+
+export default DownstreamPropagationWidget;
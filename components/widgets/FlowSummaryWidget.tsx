@@ -7,10 +7,13 @@ import {
   useShortRangeForecast, 
   useMediumRangeForecast,
   getCurrentFlow, 
-  getPeakFlow 
+  getPeakFlow,
+  getThresholdCrossings
 } from '@/hooks/useFlowData';
 import { getReachDisplayName } from '@/hooks/useReachMetadata';
-import type { RiskLevel, NormalizedFlowForecast } from '@/types';
+import { useReturnPeriod } from '@/hooks/useReturnPeriods';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import type { RiskLevel, NormalizedFlowForecast, ReturnPeriodThresholds } from '@/types';
 
 interface FlowSummaryWidgetProps {
   /** Custom className for styling */
@@ -21,6 +24,23 @@ interface FlowSummaryWidgetProps {
   'data-testid'?: string;
 }
 
+// Return periods summarised in the threshold section
+const THRESHOLD_KEYS: Array<keyof ReturnPeriodThresholds> = ['rp2', 'rp10', 'rp25'];
+
+const THRESHOLD_LABELS: Record<keyof ReturnPeriodThresholds, string> = {
+  rp2: '2-yr',
+  rp5: '5-yr',
+  rp10: '10-yr',
+  rp25: '25-yr',
+  rp50: '50-yr',
+  rp100: '100-yr',
+};
+
+const HORIZON_LABELS: Record<string, string> = {
+  short: 'Next 18 hours',
+  medium: 'Next 10 days',
+};
+
 interface FlowStatistics {
   current: number | null;
   min: number | null;
@@ -63,6 +83,17 @@ const FlowSummaryWidget: React.FC<FlowSummaryWidgetProps> = ({
     enabled: !!reachId,
   });
 
+  // Return periods for threshold crossing analysis
+  const { thresholds: returnPeriods } = useReturnPeriod(reachId, {
+    enabled: !!reachId,
+  });
+
+  // When each horizon crosses each return period and for how long
+  const thresholdAnalyses = useMemo(() => [
+    ...getThresholdCrossings(shortRangeData, returnPeriods, THRESHOLD_KEYS),
+    ...getThresholdCrossings(mediumRangeData, returnPeriods, THRESHOLD_KEYS),
+  ], [shortRangeData, mediumRangeData, returnPeriods]);
+
   // Calculate flow statistics from forecast data
   const flowStats: FlowStatistics = useMemo(() => {
     if (!shortRangeData?.series?.[0]?.points?.length) {
@@ -155,6 +186,16 @@ const FlowSummaryWidget: React.FC<FlowSummaryWidgetProps> = ({
     return `${flow.toLocaleString(undefined, { maximumFractionDigits: 0 })} CFS`;
   };
 
+  // Format an ISO timestamp as short day + time
+  const formatDateTime = (iso: string | null): string => {
+    if (!iso) return '--';
+    return new Date(iso).toLocaleString([], {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
   // Get flow level styling and text
   const getFlowLevelStyle = (level: string) => {
     const styles = {
@@ -259,7 +300,7 @@ const FlowSummaryWidget: React.FC<FlowSummaryWidgetProps> = ({
             Unable to load flow statistics
           </p>
           <p className="text-xs text-red-600 dark:text-red-400">
-            {error.message}
+            {getErrorMessage(error)}
           </p>
         </div>
       </div>
@@ -395,6 +436,49 @@ const FlowSummaryWidget: React.FC<FlowSummaryWidgetProps> = ({
         </div>
       )}
 
+      {/* Threshold crossings */}
+      {showDetails && thresholdAnalyses.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Flood Thresholds
+          </h4>
+          {thresholdAnalyses.map(analysis => {
+            const crossed = analysis.crossings.filter(c => c.hoursAbove > 0 || c.aboveAtStart);
+            return (
+              <div key={analysis.horizon} className="text-sm">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  {HORIZON_LABELS[analysis.horizon]} · peak {formatFlow(analysis.peakFlow)} at {formatDateTime(analysis.peakTime)}
+                </p>
+                {crossed.length === 0 ? (
+                  <p className="text-gray-600 dark:text-gray-400">
+                    Stays below the {THRESHOLD_LABELS[THRESHOLD_KEYS[0]]} flow
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {crossed.map(c => (
+                      <li key={c.key} className="flex justify-between items-start">
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {THRESHOLD_LABELS[c.key]}
+                        </span>
+                        <span className="text-right text-gray-600 dark:text-gray-400">
+                          {c.aboveAtStart ? 'Above now' : `Crosses ${formatDateTime(c.firstCrossing)}`}
+                          {' · '}
+                          {c.aboveAtEnd ? 'still above at end' : `recedes ${formatDateTime(c.recession)}`}
+                          {' · '}
+                          <span className="font-medium text-gray-900 dark:text-white">
+                            {c.hoursAbove.toFixed(c.hoursAbove < 10 ? 1 : 0)} h above
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Forecast Period Indicator */}
       {showDetails && shortRangeData?.series?.[0]?.points && (
         <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
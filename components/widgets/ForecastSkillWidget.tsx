@@ -0,0 +1,242 @@
+// components/widgets/ForecastSkillWidget.tsx
+'use client';
+
+import React, { useState } from 'react';
+import { useAppContext, isRiverReach, getLocationProps } from '@/components/Layout/AppShell';
+import { useForecastSkill } from '@/hooks/useForecastSkill';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import type { ArchivedHorizon } from '@/types';
+
+interface ForecastSkillWidgetProps {
+  /** Custom className for styling */
+  className?: string;
+  /** Horizon selected initially */
+  defaultHorizon?: ArchivedHorizon;
+  /** Custom data attribute for testing */
+  'data-testid'?: string;
+}
+
+const HORIZON_OPTIONS: Array<{ key: ArchivedHorizon; label: string }> = [
+  { key: 'short', label: 'Short' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'medium_blend', label: 'Blend' },
+  { key: 'long', label: 'Long' },
+];
+
+// Nash–Sutcliffe rating bands commonly used for streamflow models
+const NSE_RATINGS: Array<{ min: number; label: string; className: string }> = [
+  { min: 0.75, label: 'Very good', className: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-200' },
+  { min: 0.65, label: 'Good', className: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-200' },
+  { min: 0.5, label: 'Satisfactory', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200' },
+  { min: -Infinity, label: 'Unsatisfactory', className: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-200' },
+];
+
+const getNseRating = (nse: number | null) =>
+  nse === null ? null : NSE_RATINGS.find(r => nse >= r.min)!;
+
+const ForecastSkillWidget: React.FC<ForecastSkillWidgetProps> = ({
+  className = '',
+  defaultHorizon = 'short',
+  'data-testid': testId,
+}) => {
+  // Get active location from AppShell context
+  const { activeLocation, userPreferences } = useAppContext();
+  const locationProps = getLocationProps(activeLocation);
+
+  const reachId = isRiverReach(activeLocation) ?
+    activeLocation.reachId : locationProps?.reachId || null;
+
+  const [horizon, setHorizon] = useState<ArchivedHorizon>(defaultHorizon);
+
+  const { data: skill, isLoading, error } = useForecastSkill(reachId, horizon, { enabled: !!reachId });
+
+  // Format flow value with proper units (signed for bias)
+  const formatFlow = (flow: number, signed = false): string => {
+    const unit = userPreferences.flowUnit || 'CFS';
+    const value = unit === 'CMS' ? flow / 35.314666721 : flow;
+    const digits = unit === 'CMS' ? 1 : 0;
+    const sign = signed && value > 0 ? '+' : '';
+    return `${sign}${value.toLocaleString(undefined, { maximumFractionDigits: digits })} ${unit}`;
+  };
+
+  const formatLead = (start: number, end: number): string =>
+    end <= 48 ? `${start}–${end} h` : `${start / 24}–${end / 24} d`;
+
+  const formatHours = (hours: number | null, signed = false): string => {
+    if (hours === null) return '--';
+    const sign = signed && hours > 0 ? '+' : '';
+    return `${sign}${hours.toFixed(1)} h`;
+  };
+
+  const formatDateTime = (iso: string | null): string => {
+    if (!iso) return '--';
+    return new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  };
+
+  const overallRating = getNseRating(skill?.overall?.nse ?? null);
+
+  // No reach selected
+  if (!reachId) {
+    return (
+      <div
+        className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+        data-testid={testId}
+      >
+        <div className="text-center py-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+            No Stream Selected
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Select a stream on the map to see how well past forecasts verified
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+      data-testid={testId}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Forecast Skill
+          </h3>
+          {locationProps && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {locationProps.name}
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-1">
+          {HORIZON_OPTIONS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setHorizon(key)}
+              className={`px-2 py-1 text-xs font-medium rounded-lg transition-all ${
+                horizon === key
+                  ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          {[0, 1, 2].map(i => (
+            <div key={i} className="h-6 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ))}
+        </div>
+      ) : error ? (
+        <div className="text-center py-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+            Unable to load forecast skill
+          </p>
+          <p className="text-xs text-red-600 dark:text-red-400">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      ) : !skill || !skill.overall ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+          No verified forecasts yet. Skill builds up as past runs for this reach are archived and the
+          analysis catches up with their valid times.
+        </p>
+      ) : (
+        <>
+          {/* Overall verdict */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="text-xs text-gray-500 dark:text-gray-400">NSE</div>
+              <div className="flex items-center space-x-2">
+                <span className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {skill.overall.nse !== null ? skill.overall.nse.toFixed(2) : '--'}
+                </span>
+                {overallRating && (
+                  <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${overallRating.className}`}>
+                    {overallRating.label}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Bias</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                {formatFlow(skill.overall.bias, true)}
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="text-xs text-gray-500 dark:text-gray-400">MAE</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                {formatFlow(skill.overall.mae)}
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <div className="text-xs text-gray-500 dark:text-gray-400">Peak timing</div>
+              <div className="text-lg font-semibold text-gray-900 dark:text-white">
+                {formatHours(skill.peakTiming.meanErrorHours, true)}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                ±{formatHours(skill.peakTiming.meanAbsErrorHours)} · {skill.peakTiming.issuanceCount} peaks
+              </div>
+            </div>
+          </div>
+
+          {/* Per lead time */}
+          <div className="space-y-1">
+            <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500 dark:text-gray-400 px-2">
+              <span className="col-span-3">Lead time</span>
+              <span className="col-span-3 text-right">Bias</span>
+              <span className="col-span-3 text-right">MAE</span>
+              <span className="col-span-2 text-right">NSE</span>
+              <span className="col-span-1 text-right">n</span>
+            </div>
+            {skill.leadTimes.map(lead => {
+              const rating = getNseRating(lead.nse);
+              return (
+                <div
+                  key={lead.leadStart}
+                  className="grid grid-cols-12 gap-2 items-center text-sm px-2 py-1.5 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                >
+                  <span className="col-span-3 text-gray-900 dark:text-white">
+                    {formatLead(lead.leadStart, lead.leadEnd)}
+                  </span>
+                  <span className="col-span-3 text-right text-gray-600 dark:text-gray-300">
+                    {formatFlow(lead.bias, true)}
+                  </span>
+                  <span className="col-span-3 text-right text-gray-600 dark:text-gray-300">
+                    {formatFlow(lead.mae)}
+                  </span>
+                  <span className="col-span-2 text-right">
+                    <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${rating?.className ?? 'text-gray-500'}`}>
+                      {lead.nse !== null ? lead.nse.toFixed(2) : '--'}
+                    </span>
+                  </span>
+                  <span className="col-span-1 text-right text-xs text-gray-500 dark:text-gray-400">
+                    {lead.sampleCount}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {/* Footer */}
+      <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 text-center">
+        {skill && skill.issuanceCount > 0
+          ? <>Verified {skill.issuanceCount} runs ({formatDateTime(skill.firstIssuance)} – {formatDateTime(skill.lastIssuance)}) against NWM analysis & assimilation</>
+          : <>Verified against NWM analysis & assimilation</>}
+      </div>
+    </div>
+  );
+};
+
+export default ForecastSkillWidget;
@@ -3,8 +3,9 @@
 
 import React, { useMemo, useState } from 'react';
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -18,10 +19,25 @@ import {
   useFlowData,
   useShortRangeForecast,
   useMediumRangeForecast,
-  useLongRangeForecast 
+  useMediumBlendForecast,
+  useLongRangeForecast,
+  getIssuancePeakTrend
 } from '@/hooks/useFlowData';
+import { useForecastIssuances } from '@/hooks/useForecastIssuances';
 import { getReachDisplayName } from '@/hooks/useReachMetadata';
-import type { NormalizedFlowForecast, Horizon, RiskLevel } from '@/types';
+import { useReturnPeriod } from '@/hooks/useReturnPeriods';
+import { useRiskProfile } from '@/hooks/useRiskProfile';
+import { useClimatology } from '@/hooks/useClimatology';
+import { useReachObservations } from '@/hooks/useReachObservations';
+import { getClimatologyForDate } from '@/lib/utils/climatology';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import { getResolvedRules } from '@/lib/utils/riskCalculator';
+import {
+  getMemberSeries,
+  computeEnsemblePercentiles,
+  computeMemberExceedance,
+} from '@/lib/utils/ensemble';
+import type { NormalizedFlowForecast, Horizon, RiskLevel, RiskRule } from '@/types';
 
 interface HydrographWidgetProps {
   /** Custom className for styling */
@@ -32,6 +48,16 @@ interface HydrographWidgetProps {
   showRangeSelector?: boolean;
   /** Show risk level indicators */
   showRiskLevels?: boolean;
+  /** Show ensemble percentile bands for medium/long ranges */
+  showEnsembleBands?: boolean;
+  /** Shade the retrospective "normal range" for each date behind the forecast */
+  showNormalRange?: boolean;
+  /** Model runs overlaid in forecast evolution mode */
+  evolutionRuns?: number;
+  /** Plot observed discharge from the linked gauge */
+  showObservations?: boolean;
+  /** Hours of observations before now */
+  observationHours?: number;
   /** Custom data attribute for testing */
   'data-testid'?: string;
 }
@@ -42,15 +68,61 @@ interface ChartDataPoint {
   timestamp: number;
   short?: number;
   medium?: number;
+  medium_blend?: number;
   long?: number;
+  /** Ensemble 10-90th percentile band [low, high] */
+  mediumOuter?: [number, number];
+  longOuter?: [number, number];
+  /** Ensemble 25-75th percentile band [low, high] */
+  mediumInner?: [number, number];
+  longInner?: [number, number];
+  /** Ensemble median */
+  mediumMedian?: number;
+  longMedian?: number;
+  /** Retrospective 5-95th / 25-75th percentile for this day of year [low, high] */
+  normalOuter?: [number, number];
+  normalInner?: [number, number];
+  /** Observed discharge at the linked gauge */
+  observed?: number;
+  /** Forecast evolution mode: flow of each archived run, newest first */
+  runs?: Array<number | undefined>;
   formattedTime: string;
 }
 
+// Forecast horizons the chart can toggle (analysis is observed, not a forecast range)
+type ForecastHorizon = Exclude<Horizon, 'analysis'>;
+
+// Display names for forecast lines (tooltip/legend)
+const LINE_NAMES: Record<ForecastHorizon, string> = {
+  short: 'Short',
+  medium: 'Medium',
+  medium_blend: 'Medium Blend',
+  long: 'Long',
+};
+
+// Legend/tooltip name of the gauge observation line
+const OBSERVED_NAME = 'Observed';
+
+// Horizons that carry ensemble members
+type EnsembleHorizon = 'medium' | 'long';
+
+// Reference line colour per risk profile rule level
+const RISK_LINE_COLORS: Record<RiskRule['level'], string> = {
+  elevated: '#EAB308',
+  high: '#F97316',
+  flood: '#DC2626',
+};
+
 const HydrographWidget: React.FC<HydrographWidgetProps> = ({
   className = '',
   height = 400,
   showRangeSelector = true,
   showRiskLevels = true,
+  showEnsembleBands = true,
+  showNormalRange = true,
+  evolutionRuns = 5,
+  showObservations = true,
+  observationHours = 72,
   'data-testid': testId,
 }) => {
   // Get active location from AppShell context
@@ -58,67 +130,184 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
   const locationProps = getLocationProps(activeLocation);
   
   // State for which ranges to display
-  const [selectedRanges, setSelectedRanges] = useState<Set<Horizon>>(() => 
+  const [selectedRanges, setSelectedRanges] = useState<Set<ForecastHorizon>>(() => 
     new Set(['short', 'medium'])
   );
 
+  // Forecast evolution mode: horizon whose last N runs are overlaid (null = off)
+  const [evolutionHorizon, setEvolutionHorizon] = useState<ForecastHorizon | null>(null);
+
   // Get reach ID if active location is a RiverReach
   const reachId = isRiverReach(activeLocation) ? activeLocation.reachId : locationProps?.reachId || null;
   
   // Fetch multiple forecast ranges
   const shortRange = useShortRangeForecast(reachId, { enabled: !!reachId && selectedRanges.has('short') });
-  const mediumRange = useMediumRangeForecast(reachId, { enabled: !!reachId && selectedRanges.has('medium') });
-  const longRange = useLongRangeForecast(reachId, { enabled: !!reachId && selectedRanges.has('long') });
+  const mediumRange = useMediumRangeForecast(reachId, {
+    enabled: !!reachId && selectedRanges.has('medium'),
+    includeMembers: showEnsembleBands,
+  });
+  const mediumBlend = useMediumBlendForecast(reachId, {
+    enabled: !!reachId && selectedRanges.has('medium_blend'),
+  });
+  const longRange = useLongRangeForecast(reachId, {
+    enabled: !!reachId && selectedRanges.has('long'),
+    includeMembers: showEnsembleBands,
+  });
+
+  // Return periods for threshold reference lines
+  const { thresholds: returnPeriods } = useReturnPeriod(reachId, {
+    enabled: !!reachId && showRiskLevels,
+  });
+
+  // Risk profile thresholds drawn as reference lines (same rules as the risk badge)
+  const { getRiskProfile } = useRiskProfile();
+  const riskProfile = getRiskProfile(reachId);
+  const thresholdLines = useMemo(
+    () => getResolvedRules(riskProfile, returnPeriods).map(({ rule, thresholdCfs, label }, index) => ({
+      key: `${rule.level}-${index}`,
+      y: thresholdCfs,
+      label,
+      color: RISK_LINE_COLORS[rule.level],
+    })),
+    [riskProfile, returnPeriods]
+  );
+
+  // Archived runs for forecast evolution mode
+  const { data: issuanceHistory } = useForecastIssuances(reachId, evolutionHorizon ?? 'short', evolutionRuns, {
+    enabled: !!reachId && evolutionHorizon !== null,
+  });
+  const issuances = useMemo(
+    () => evolutionHorizon !== null && issuanceHistory?.horizon === evolutionHorizon ? issuanceHistory.issuances : [],
+    [evolutionHorizon, issuanceHistory]
+  );
+  const peakTrend = useMemo(() => getIssuancePeakTrend(issuances), [issuances]);
+
+  // Observed discharge at the linked gauge (gauge is null for ungauged reaches)
+  const { data: observations } = useReachObservations(reachId, observationHours, {
+    enabled: !!reachId && showObservations,
+  });
+  const hasObservations = showObservations && !!observations?.gauge && observations.points.length > 0;
+
+  // Day-of-year climatology for the normal range band
+  const { data: climatology } = useClimatology(reachId, {
+    enabled: !!reachId && showNormalRange,
+  });
 
   // Combine loading states
-  const isLoading = shortRange.isLoading || mediumRange.isLoading || longRange.isLoading;
+  const isLoading = shortRange.isLoading || mediumRange.isLoading || mediumBlend.isLoading || longRange.isLoading;
   
   // Combine error states
-  const error = shortRange.error || mediumRange.error || longRange.error;
+  const error = shortRange.error || mediumRange.error || mediumBlend.error || longRange.error;
 
   // Transform forecast data into chart format
   const chartData = useMemo(() => {
     const dataMap = new Map<string, ChartDataPoint>();
 
+    // Helper to get (or create) the chart point for a timestamp
+    const getDataPoint = (t: string): ChartDataPoint => {
+      if (!dataMap.has(t)) {
+        dataMap.set(t, {
+          time: t,
+          timestamp: new Date(t).getTime(),
+          formattedTime: new Date(t).toLocaleString([], {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+          })
+        });
+      }
+      return dataMap.get(t)!;
+    };
+
     // Helper to add series data to the map
-    const addSeriesToMap = (forecast: NormalizedFlowForecast | undefined, horizon: Horizon) => {
+    const addSeriesToMap = (forecast: NormalizedFlowForecast | undefined, horizon: ForecastHorizon) => {
       if (!forecast?.series) return;
 
       forecast.series.forEach(series => {
-        if (series.horizon === horizon) {
+        // Members are drawn as percentile bands, not individual lines
+        if (series.horizon === horizon && series.label === 'mean') {
           series.points.forEach(point => {
-            const timestamp = new Date(point.t).getTime();
-            const timeKey = point.t;
-            
-            if (!dataMap.has(timeKey)) {
-              dataMap.set(timeKey, {
-                time: point.t,
-                timestamp,
-                formattedTime: new Date(point.t).toLocaleString([], {
-                  month: 'short',
-                  day: 'numeric',
-                  hour: '2-digit',
-                  minute: '2-digit'
-                })
-              });
-            }
-
-            const dataPoint = dataMap.get(timeKey)!;
-            dataPoint[horizon] = point.q;
+            getDataPoint(point.t)[horizon] = point.q;
           });
         }
       });
     };
 
-    // Add data from each range
-    if (selectedRanges.has('short')) addSeriesToMap(shortRange.data, 'short');
-    if (selectedRanges.has('medium')) addSeriesToMap(mediumRange.data, 'medium');
-    if (selectedRanges.has('long')) addSeriesToMap(longRange.data, 'long');
+    // Helper to add ensemble percentile bands to the map
+    const addBandsToMap = (forecast: NormalizedFlowForecast | undefined, horizon: EnsembleHorizon) => {
+      if (!showEnsembleBands) return;
+
+      computeEnsemblePercentiles(getMemberSeries(forecast, horizon)).forEach(point => {
+        const dataPoint = getDataPoint(point.t);
+        dataPoint[`${horizon}Outer`] = [point.p10, point.p90];
+        dataPoint[`${horizon}Inner`] = [point.p25, point.p75];
+        dataPoint[`${horizon}Median`] = point.p50;
+      });
+    };
+
+    // Add data from each range (in evolution mode the archived runs replace the live line)
+    const isLive = (horizon: ForecastHorizon) =>
+      selectedRanges.has(horizon) && !(horizon === evolutionHorizon && issuances.length > 0);
+    if (isLive('short')) addSeriesToMap(shortRange.data, 'short');
+    if (isLive('medium')) addSeriesToMap(mediumRange.data, 'medium');
+    if (isLive('medium_blend')) addSeriesToMap(mediumBlend.data, 'medium_blend');
+    if (isLive('long')) addSeriesToMap(longRange.data, 'long');
+
+    // Gauge observations
+    if (hasObservations) {
+      observations!.points.forEach(point => {
+        getDataPoint(point.t).observed = point.q;
+      });
+    }
+
+    // Forecast evolution: one value per archived run
+    issuances.forEach((issuance, index) => {
+      issuance.points.forEach(point => {
+        const dataPoint = getDataPoint(point.t);
+        dataPoint.runs = dataPoint.runs ?? [];
+        dataPoint.runs[index] = point.q;
+      });
+    });
+    if (selectedRanges.has('medium')) addBandsToMap(mediumRange.data, 'medium');
+    if (selectedRanges.has('long')) addBandsToMap(longRange.data, 'long');
+
+    // Normal range for each timestamp's day of year
+    if (showNormalRange) {
+      dataMap.forEach(dataPoint => {
+        const normal = getClimatologyForDate(climatology, dataPoint.time);
+        if (!normal) return;
+        dataPoint.normalOuter = [normal.p5, normal.p95];
+        dataPoint.normalInner = [normal.p25, normal.p75];
+      });
+    }
 
     // Convert to array and sort by time
     return Array.from(dataMap.values())
       .sort((a, b) => a.timestamp - b.timestamp);
-  }, [shortRange.data, mediumRange.data, longRange.data, selectedRanges]);
+  }, [shortRange.data, mediumRange.data, mediumBlend.data, longRange.data, selectedRanges, showEnsembleBands, showNormalRange, climatology, evolutionHorizon, issuances, hasObservations, observations]);
+
+  // Percentage of ensemble members exceeding each risk threshold
+  // Medium range is preferred (more skillful); long range is the fallback
+  const exceedance = useMemo(() => {
+    if (thresholdLines.length === 0) return null;
+
+    const sources: Array<[EnsembleHorizon, NormalizedFlowForecast | undefined]> = [
+      ['medium', mediumRange.data],
+      ['long', longRange.data],
+    ];
+
+    for (const [horizon, forecast] of sources) {
+      if (!selectedRanges.has(horizon)) continue;
+      const members = getMemberSeries(forecast, horizon);
+      if (members.length === 0) continue;
+
+      const byKey = new Map(thresholdLines.map(line => [line.key, computeMemberExceedance(members, line.y)]));
+      return { horizon, memberCount: members.length, byKey };
+    }
+
+    return null;
+  }, [thresholdLines, mediumRange.data, longRange.data, selectedRanges]);
 
   // Get flow unit for formatting
   const flowUnit = userPreferences.flowUnit || 'CFS';
@@ -151,11 +340,15 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
                   style={{ backgroundColor: entry.color }}
                 />
                 <span className="text-sm text-gray-600 dark:text-gray-400 capitalize">
-                  {entry.dataKey} Range
+                  {entry.dataKey in LINE_NAMES
+                    ? `${LINE_NAMES[entry.dataKey as ForecastHorizon]} Range`
+                    : entry.name}
                 </span>
               </div>
               <span className="font-medium text-gray-900 dark:text-white">
-                {formatFlow(entry.value)} {flowUnit}
+                {Array.isArray(entry.value)
+                  ? `${formatFlow(entry.value[0])} – ${formatFlow(entry.value[1])}`
+                  : formatFlow(entry.value)} {flowUnit}
               </span>
             </div>
           ))}
@@ -164,8 +357,12 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
     );
   };
 
+  // Model run label, e.g. "Oct 19 06:00"
+  const formatRunTime = (referenceTime: string) =>
+    new Date(referenceTime).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
   // Range toggle handler
-  const toggleRange = (range: Horizon) => {
+  const toggleRange = (range: ForecastHorizon) => {
     setSelectedRanges(prev => {
       const newSet = new Set(prev);
       if (newSet.has(range)) {
@@ -178,10 +375,11 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
   };
 
   // Get line colors for different ranges
-  const getLineColor = (range: Horizon) => {
+  const getLineColor = (range: ForecastHorizon) => {
     const colors = {
       short: '#3B82F6', // Blue
       medium: '#10B981', // Green
+      medium_blend: '#8B5CF6', // Purple
       long: '#F59E0B', // Orange
     };
     return colors[range];
@@ -225,7 +423,7 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
             Unable to load forecast data
           </p>
           <p className="text-xs text-red-600 dark:text-red-400">
-            {error.message}
+            {getErrorMessage(error)}
           </p>
         </div>
       </div>
@@ -289,9 +487,10 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
           </span>
           <div className="flex space-x-2">
             {[
-              { key: 'short' as Horizon, label: 'Short (18h)', description: 'Hourly' },
-              { key: 'medium' as Horizon, label: 'Medium (10d)', description: 'Daily' },
-              { key: 'long' as Horizon, label: 'Long (30d)', description: 'Weekly' },
+              { key: 'short' as ForecastHorizon, label: 'Short (18h)', description: 'Hourly' },
+              { key: 'medium' as ForecastHorizon, label: 'Medium (10d)', description: 'Daily' },
+              { key: 'medium_blend' as ForecastHorizon, label: 'Blend (10d)', description: 'Medium-range blend (hourly)' },
+              { key: 'long' as ForecastHorizon, label: 'Long (30d)', description: 'Weekly' },
             ].map(({ key, label, description }) => (
               <button
                 key={key}
@@ -314,10 +513,50 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
         </div>
       )}
 
+      {/* Forecast evolution mode */}
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+        <span className="text-sm font-medium text-gray-600 dark:text-gray-400 mr-2">
+          Forecast Evolution:
+        </span>
+        {([null, 'short', 'medium', 'medium_blend', 'long'] as Array<ForecastHorizon | null>).map(horizon => (
+          <button
+            key={horizon ?? 'off'}
+            onClick={() => setEvolutionHorizon(horizon)}
+            className={`px-2 py-1 font-medium rounded-lg transition-all ${
+              evolutionHorizon === horizon
+                ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+            title={horizon ? `Overlay the last ${evolutionRuns} ${LINE_NAMES[horizon].toLowerCase()}-range runs` : 'Show the live forecast only'}
+          >
+            {horizon ? LINE_NAMES[horizon] : 'Off'}
+          </button>
+        ))}
+        {evolutionHorizon && (
+          <span className="ml-2 text-gray-500 dark:text-gray-400">
+            {issuances.length === 0
+              ? 'No archived runs yet'
+              : peakTrend.trend === null
+                ? '1 run archived so far'
+                : <>
+                    Peak{' '}
+                    <span className={`font-medium ${
+                      peakTrend.trend === 'rising' ? 'text-red-600 dark:text-red-400'
+                        : peakTrend.trend === 'falling' ? 'text-green-600 dark:text-green-400'
+                        : 'text-gray-700 dark:text-gray-300'
+                    }`}>
+                      {peakTrend.trend} ({peakTrend.changePercent! > 0 ? '+' : ''}{peakTrend.changePercent!.toFixed(0)}%)
+                    </span>
+                    {' '}vs previous run · {peakTrend.peaks.length} runs
+                  </>}
+          </span>
+        )}
+      </div>
+
       {/* Chart */}
       <div style={{ height: `${height}px` }}>
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart
+          <ComposedChart
             data={chartData}
             margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
           >
@@ -359,7 +598,7 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
               iconType="line"
               formatter={(value: string) => (
                 <span className="capitalize text-gray-700 dark:text-gray-300">
-                  {value} Range
+                  {value === OBSERVED_NAME ? value : `${value} Range`}
                 </span>
               )}
             />
@@ -372,6 +611,122 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
               label="Now"
             />
 
+            {/* Risk profile thresholds with ensemble exceedance */}
+            {showRiskLevels && thresholdLines.map(({ key, y, label, color }) => {
+              const e = exceedance?.byKey.get(key);
+              return (
+                <ReferenceLine
+                  key={key}
+                  y={y}
+                  stroke={color}
+                  strokeDasharray="6 3"
+                  ifOverflow="extendDomain"
+                  label={{
+                    value: e ? `${label} · ${Math.round(e.percent)}% of members` : label,
+                    position: 'insideTopRight',
+                    fill: color,
+                    fontSize: 11,
+                  }}
+                />
+              );
+            })}
+
+            {/* Normal range for the date (drawn first so it sits behind everything) */}
+            {showNormalRange && climatology && [
+              <Area
+                key="normalOuter"
+                type="monotone"
+                dataKey="normalOuter"
+                stroke="none"
+                fill="#9CA3AF"
+                fillOpacity={0.15}
+                connectNulls={false}
+                legendType="none"
+                name="Normal 5–95%"
+              />,
+              <Area
+                key="normalInner"
+                type="monotone"
+                dataKey="normalInner"
+                stroke="none"
+                fill="#9CA3AF"
+                fillOpacity={0.25}
+                connectNulls={false}
+                legendType="none"
+                name="Normal 25–75%"
+              />,
+            ]}
+
+            {/* Ensemble percentile bands (drawn beneath the mean lines) */}
+            {showEnsembleBands && (['medium', 'long'] as EnsembleHorizon[])
+              .filter(horizon => selectedRanges.has(horizon))
+              .flatMap(horizon => [
+                <Area
+                  key={`${horizon}Outer`}
+                  type="monotone"
+                  dataKey={`${horizon}Outer`}
+                  stroke="none"
+                  fill={getLineColor(horizon)}
+                  fillOpacity={0.12}
+                  connectNulls={false}
+                  legendType="none"
+                  name={`${horizon} 10–90%`}
+                />,
+                <Area
+                  key={`${horizon}Inner`}
+                  type="monotone"
+                  dataKey={`${horizon}Inner`}
+                  stroke="none"
+                  fill={getLineColor(horizon)}
+                  fillOpacity={0.25}
+                  connectNulls={false}
+                  legendType="none"
+                  name={`${horizon} 25–75%`}
+                />,
+                <Line
+                  key={`${horizon}Median`}
+                  type="monotone"
+                  dataKey={`${horizon}Median`}
+                  stroke={getLineColor(horizon)}
+                  strokeWidth={1}
+                  strokeDasharray="4 2"
+                  dot={false}
+                  connectNulls={false}
+                  legendType="none"
+                  name={`${horizon} median`}
+                />,
+              ])}
+
+            {/* Archived runs, newest strongest (forecast evolution mode) */}
+            {evolutionHorizon && issuances.map((issuance, index) => (
+              <Line
+                key={`run-${issuance.referenceTime}`}
+                type="monotone"
+                dataKey={(d: ChartDataPoint) => d.runs?.[index]}
+                stroke={getLineColor(evolutionHorizon)}
+                strokeWidth={index === 0 ? 2 : 1.5}
+                strokeOpacity={index === 0 ? 1 : Math.max(0.2, 0.8 - index * 0.15)}
+                strokeDasharray={index === 0 ? undefined : '5 3'}
+                dot={false}
+                connectNulls
+                legendType="none"
+                name={`Run ${formatRunTime(issuance.referenceTime)}`}
+              />
+            ))}
+
+            {/* Gauge observations */}
+            {hasObservations && (
+              <Line
+                type="monotone"
+                dataKey="observed"
+                stroke="#111827"
+                strokeWidth={1.5}
+                dot={{ r: 1.5 }}
+                connectNulls
+                name={OBSERVED_NAME}
+              />
+            )}
+
             {/* Data lines */}
             {selectedRanges.has('short') && (
               <Line
@@ -395,6 +750,17 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
                 name="Medium"
               />
             )}
+            {selectedRanges.has('medium_blend') && (
+              <Line
+                type="monotone"
+                dataKey="medium_blend"
+                stroke={getLineColor('medium_blend')}
+                strokeWidth={2}
+                dot={false}
+                connectNulls={false}
+                name="Medium Blend"
+              />
+            )}
             {selectedRanges.has('long') && (
               <Line
                 type="monotone"
@@ -406,7 +772,7 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
                 name="Long"
               />
             )}
-          </LineChart>
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
@@ -415,6 +781,15 @@ const HydrographWidget: React.FC<HydrographWidgetProps> = ({
         <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
           <span>
             {chartData.length} data points
+            {exceedance && (
+              <> · Exceedance from {exceedance.memberCount} {exceedance.horizon}-range members</>
+            )}
+            {hasObservations && (
+              <> · Observed: {observations!.gauge!.agency} {observations!.gauge!.siteId}{observations!.gauge!.name ? ` (${observations!.gauge!.name})` : ''}</>
+            )}
+            {showNormalRange && climatology && (
+              <> · Grey band: normal range for the date ({climatology.startYear}–{climatology.endYear} NWM retrospective)</>
+            )}
           </span>
           <span>
             Updated: {new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -0,0 +1,330 @@
+// components/widgets/PrecipitationChartWidget.tsx
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { useAppContext, isRiverReach, getLocationProps } from '@/components/Layout/AppShell';
+import { useShortRangeForecast, useMediumRangeForecast } from '@/hooks/useFlowData';
+import { useReachObservations } from '@/hooks/useReachObservations';
+import { usePrecipitation } from '@/hooks/usePrecipitation';
+import { getForecastTimeDomain } from '@/lib/utils/flow';
+import { getCumulativeTotals } from '@/lib/utils/precipitation';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import type { PrecipitationChartWidgetConfig } from '@/types';
+
+type PrecipitationView = 'hourly' | 'daily';
+
+interface PrecipitationChartWidgetProps extends Partial<Pick<PrecipitationChartWidgetConfig, 'lat' | 'lon'>> {
+  /** Custom className for styling */
+  className?: string;
+  /** Widget height */
+  height?: number;
+  /** View selected initially */
+  defaultView?: PrecipitationView;
+  /** Hours of past precipitation (matches the hydrograph's observation window by default) */
+  pastHours?: number;
+  /** Custom data attribute for testing */
+  'data-testid'?: string;
+}
+
+// Chart data point interface
+interface ChartDataPoint {
+  timestamp: number;
+  mm: number;
+  cumulativeMm: number;
+  probability?: number;
+  formattedTime: string;
+}
+
+const VIEW_OPTIONS: Array<{ key: PrecipitationView; label: string }> = [
+  { key: 'hourly', label: 'Hourly' },
+  { key: 'daily', label: 'Daily' },
+];
+
+const PrecipitationChartWidget: React.FC<PrecipitationChartWidgetProps> = ({
+  className = '',
+  lat,
+  lon,
+  height = 240,
+  defaultView = 'hourly',
+  pastHours = 72,
+  'data-testid': testId,
+}) => {
+  // Get active location from AppShell context
+  const { activeLocation, userPreferences } = useAppContext();
+  const locationProps = getLocationProps(activeLocation);
+
+  // Configured point wins over the active location
+  const pointLat = lat ?? locationProps?.lat ?? null;
+  const pointLon = lon ?? locationProps?.lon ?? null;
+
+  const reachId = isRiverReach(activeLocation) ? activeLocation.reachId : locationProps?.reachId || null;
+
+  const [view, setView] = useState<PrecipitationView>(defaultView);
+
+  const { data: precipitation, isLoading, error } = usePrecipitation(pointLat, pointLon, { pastHours });
+
+  // Same queries as the hydrograph's default view, so both charts share one time axis
+  const shortRange = useShortRangeForecast(reachId, { enabled: !!reachId });
+  const mediumRange = useMediumRangeForecast(reachId, { enabled: !!reachId, includeMembers: true });
+  const { data: observations } = useReachObservations(reachId, 72, { enabled: !!reachId });
+
+  const timeDomain = useMemo(
+    () => getForecastTimeDomain([shortRange.data, mediumRange.data], observations?.points),
+    [shortRange.data, mediumRange.data, observations]
+  );
+
+  // Bars inside the shared time axis, with running totals from its start
+  const chartData = useMemo((): ChartDataPoint[] => {
+    if (!precipitation) return [];
+
+    const source = view === 'hourly'
+      ? precipitation.hourly.map(point => ({ time: point.t, mm: point.mm, probability: point.probability }))
+      : precipitation.daily.map(day => ({ time: day.start, mm: day.mm, probability: undefined }));
+
+    const visible = source
+      .map(point => ({ ...point, timestamp: new Date(point.time).getTime() }))
+      .filter(point => !timeDomain || (point.timestamp >= timeDomain[0] && point.timestamp <= timeDomain[1]));
+
+    return getCumulativeTotals(visible).map(point => ({
+      timestamp: point.timestamp,
+      mm: point.mm,
+      cumulativeMm: point.cumulativeMm,
+      probability: point.probability,
+      formattedTime: new Date(point.time).toLocaleString([], view === 'hourly'
+        ? { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }
+        : { weekday: 'short', month: 'short', day: 'numeric' }),
+    }));
+  }, [precipitation, view, timeDomain]);
+
+  // Precipitation unit follows the temperature preference (°F → inches)
+  const useInches = (userPreferences.tempUnit || 'F') === 'F';
+  const precipUnit = useInches ? 'in' : 'mm';
+
+  const formatPrecip = (mm: number): string =>
+    useInches ? (mm / 25.4).toFixed(2) : mm.toFixed(1);
+
+  const formatHours = (hours: number): string =>
+    hours % 24 === 0 ? `${hours / 24} d` : `${hours} h`;
+
+  // Custom tooltip component
+  const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: ChartDataPoint }> }) => {
+    if (!active || !payload || !payload.length) return null;
+
+    const data = payload[0].payload;
+
+    return (
+      <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700">
+        <p className="font-medium text-gray-900 dark:text-white mb-2">
+          {data.formattedTime}
+        </p>
+        <div className="space-y-1 text-sm">
+          <div className="flex justify-between space-x-4">
+            <span className="text-gray-600 dark:text-gray-400">{view === 'hourly' ? 'Hour' : 'Day'}</span>
+            <span className="font-medium text-gray-900 dark:text-white">{formatPrecip(data.mm)} {precipUnit}</span>
+          </div>
+          <div className="flex justify-between space-x-4">
+            <span className="text-gray-600 dark:text-gray-400">Cumulative</span>
+            <span className="font-medium text-gray-900 dark:text-white">{formatPrecip(data.cumulativeMm)} {precipUnit}</span>
+          </div>
+          {data.probability !== undefined && (
+            <div className="flex justify-between space-x-4">
+              <span className="text-gray-600 dark:text-gray-400">Chance</span>
+              <span className="font-medium text-gray-900 dark:text-white">{data.probability}%</span>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // No location selected
+  if (pointLat === null || pointLon === null) {
+    return (
+      <div
+        className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+        data-testid={testId}
+      >
+        <div className="text-center py-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+            No Location Selected
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Select a stream or place on the map to see recent and forecast precipitation
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+      data-testid={testId}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="flex items-center space-x-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Precipitation
+            </h3>
+            {precipitation?.provider === 'stub' && (
+              <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+                Sample data
+              </span>
+            )}
+          </div>
+          {locationProps && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {locationProps.name}
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-1">
+          {VIEW_OPTIONS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={`px-2 py-1 text-xs font-medium rounded-lg transition-all ${
+                view === key
+                  ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse">
+          <div className="bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg" style={{ height: `${height}px` }}></div>
+        </div>
+      ) : error ? (
+        <div className="text-center py-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+            Unable to load precipitation
+          </p>
+          <p className="text-xs text-red-600 dark:text-red-400">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      ) : chartData.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+          No precipitation data for this period
+        </p>
+      ) : (
+        <div style={{ height: `${height}px` }}>
+          <ResponsiveContainer width="100%" height="100%">
+            {/* Same margins and time axis as the hydrograph so the two line up when stacked */}
+            <ComposedChart
+              data={chartData}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                className="opacity-30"
+                stroke="currentColor"
+              />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                scale="time"
+                domain={timeDomain ?? ['dataMin', 'dataMax']}
+                allowDataOverflow={!!timeDomain}
+                tickFormatter={(timestamp: string | number | Date) => {
+                  const date = new Date(timestamp);
+                  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+                }}
+                className="text-gray-600 dark:text-gray-400"
+                stroke="currentColor"
+              />
+              <YAxis
+                yAxisId="amount"
+                tickFormatter={(value: number) => formatPrecip(value)}
+                label={{
+                  value: `${view === 'hourly' ? 'Hourly' : 'Daily'} (${precipUnit})`,
+                  angle: -90,
+                  position: 'insideLeft',
+                  style: { textAnchor: 'middle' }
+                } as {
+                  value: string;
+                  angle: number;
+                  position: string;
+                  style: { textAnchor: string };
+                }}
+                className="text-gray-600 dark:text-gray-400"
+                stroke="currentColor"
+              />
+              <YAxis
+                yAxisId="cumulative"
+                orientation="right"
+                tickFormatter={(value: number) => formatPrecip(value)}
+                className="text-gray-600 dark:text-gray-400"
+                stroke="currentColor"
+              />
+              <Tooltip content={<CustomTooltip />} />
+
+              {/* Reference line for current time */}
+              <ReferenceLine
+                yAxisId="amount"
+                x={Date.now()}
+                stroke="#6B7280"
+                strokeDasharray="2 2"
+                label="Now"
+              />
+
+              <Bar
+                yAxisId="amount"
+                dataKey="mm"
+                name={view === 'hourly' ? 'Hourly' : 'Daily'}
+                fill="#3B82F6"
+                isAnimationActive={false}
+              />
+              <Line
+                yAxisId="cumulative"
+                type="monotone"
+                dataKey="cumulativeMm"
+                name="Cumulative"
+                stroke="#1E3A8A"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {/* Footer */}
+      <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-700 grid grid-cols-2 gap-3 text-center">
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Past {formatHours(pastHours)}</div>
+          <div className="text-lg font-semibold text-gray-900 dark:text-white">
+            {precipitation ? `${formatPrecip(precipitation.pastTotalMm)} ${precipUnit}` : '--'}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">Forecast</div>
+          <div className="text-lg font-semibold text-gray-900 dark:text-white">
+            {precipitation ? `${formatPrecip(precipitation.forecastTotalMm)} ${precipUnit}` : '--'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrecipitationChartWidget;
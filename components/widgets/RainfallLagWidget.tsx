@@ -0,0 +1,161 @@
+// components/widgets/RainfallLagWidget.tsx
+'use client';
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { useAppContext, isRiverReach, getLocationProps } from '@/components/Layout/AppShell';
+import { useRainfallLag } from '@/hooks/useRainfallLag';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import type { LagStrength } from '@/types';
+
+interface RainfallLagWidgetProps {
+  /** Custom className for styling */
+  className?: string;
+  /** Show the lag correlogram sparkline */
+  showCorrelogram?: boolean;
+  /** Custom data attribute for testing */
+  'data-testid'?: string;
+}
+
+const STRENGTH_STYLES: Record<LagStrength, { label: string; className: string }> = {
+  strong: { label: 'Strong link', className: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-200' },
+  moderate: { label: 'Moderate link', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200' },
+  weak: { label: 'Weak link', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+const RainfallLagWidget: React.FC<RainfallLagWidgetProps> = ({
+  className = '',
+  showCorrelogram = true,
+  'data-testid': testId,
+}) => {
+  // Get active location from AppShell context
+  const { activeLocation } = useAppContext();
+  const locationProps = getLocationProps(activeLocation);
+
+  const reachId = isRiverReach(activeLocation) ?
+    activeLocation.reachId : locationProps?.reachId || null;
+  const lat = locationProps?.lat ?? null;
+  const lon = locationProps?.lon ?? null;
+
+  const { data: lag, isLoading, error } = useRainfallLag(reachId, lat, lon, {
+    enabled: !!reachId && lat !== null && lon !== null,
+  });
+
+  const formatLag = (hours: number): string =>
+    hours < 48 ? `~${Math.round(hours)} h` : `~${(hours / 24).toFixed(1)} d`;
+
+  const formatDateTime = (iso: string): string =>
+    new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  // Needs both a place (for rain) and a reach (for flow)
+  if (!reachId || lat === null || lon === null) {
+    return (
+      <div
+        className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+        data-testid={testId}
+      >
+        <div className="text-center py-4">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+            No Stream Selected
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Select a place with a linked stream to see how quickly rain reaches it
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const strength = lag?.strength ? STRENGTH_STYLES[lag.strength] : null;
+
+  return (
+    <div
+      className={`bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700 ${className}`}
+      data-testid={testId}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Rain → Flow
+          </h3>
+          {locationProps && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {locationProps.name}
+            </p>
+          )}
+        </div>
+        {lag?.provider === 'stub' && (
+          <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+            Sample data
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-10 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      ) : error ? (
+        <div className="text-center py-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+            Unable to analyze rainfall lag
+          </p>
+          <p className="text-xs text-red-600 dark:text-red-400">
+            {getErrorMessage(error)}
+          </p>
+        </div>
+      ) : !lag || lag.lagHours === null ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+          Not enough rain in the last 3 days or the forecast to estimate how this reach responds.
+        </p>
+      ) : (
+        <>
+          {/* Guidance */}
+          <div className="flex items-center justify-between mb-3">
+            <div className="text-2xl font-semibold text-gray-900 dark:text-white">
+              Rain now → peak in {formatLag(lag.lagHours)}
+            </div>
+            {strength && (
+              <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${strength.className}`}>
+                {strength.label}
+              </span>
+            )}
+          </div>
+
+          {/* Largest storm in the window */}
+          {lag.rainPeak && lag.flowPeak && lag.peakLagHours !== null && (
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+              Heaviest rain {formatDateTime(lag.rainPeak.t)} ({lag.rainPeak.q.toFixed(1)} mm/h) →
+              flow peak {formatDateTime(lag.flowPeak.t)} ({formatLag(lag.peakLagHours)} later)
+            </p>
+          )}
+
+          {/* Correlation by lag */}
+          {showCorrelogram && lag.correlogram.length > 1 && (
+            <div className="h-16">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={lag.correlogram} margin={{ top: 2, right: 4, left: 4, bottom: 2 }}>
+                  <XAxis dataKey="lagHours" type="number" hide domain={['dataMin', 'dataMax']} />
+                  <YAxis hide domain={[-1, 1]} />
+                  <ReferenceLine x={lag.lagHours} stroke="#3B82F6" strokeDasharray="2 2" />
+                  <Line type="monotone" dataKey="r" stroke="#6B7280" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Footer */}
+      <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 text-center">
+        {lag && lag.correlation !== null
+          ? <>r = {lag.correlation.toFixed(2)} over {lag.overlapHours} h of rain vs. forecast flow</>
+          : <>Rain at this place cross-correlated with forecast flow</>}
+      </div>
+    </div>
+  );
+};
+
+export default RainfallLagWidget;
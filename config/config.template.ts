@@ -15,6 +15,9 @@ export const config = {
     api: {
       noaaBaseUrl: 'https://api.water.noaa.gov/nwps/v1',
       nwmBaseUrl: 'https://nwm-api.ciroh.org',
+      usgsBaseUrl: 'https://waterservices.usgs.gov',
+      nldiBaseUrl: 'https://api.water.usgs.gov/nldi',
+      weatherKitBaseUrl: 'https://weatherkit.apple.com',
       returnPeriodsBaseUrl: 'YOUR_RETURN_PERIODS_API_BASE_URL',
     },
     map: {
@@ -31,6 +34,19 @@ export const config = {
       flow: 'cfs' as 'cfs' | 'cms',
       temperature: 'fahrenheit' as 'fahrenheit' | 'celsius',
     },
+    geocoding: {
+      // 'mapbox' | 'nominatim' | 'mock' (offline); unset picks Mapbox if the token above is set
+      provider: process.env.NEXT_PUBLIC_GEOCODING_PROVIDER as 'mapbox' | 'nominatim' | 'mock' | undefined,
+      nominatimBaseUrl: 'https://nominatim.openstreetmap.org',
+    },
+    flowData: {
+      // 'nwps' | 'fixture' (recorded responses under FLOW_FIXTURES_DIR, default fixtures/nwps)
+      provider: process.env.FLOW_DATA_PROVIDER as 'nwps' | 'fixture' | undefined,
+    },
+    upstreamRecording: {
+      // 'record' | 'replay' upstream responses under UPSTREAM_FIXTURES_DIR (default fixtures/upstream)
+      mode: process.env.UPSTREAM_RECORDING as 'record' | 'replay' | undefined,
+    },
     appOrigin: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
   },
 
@@ -53,6 +69,10 @@ YOUR_WEATHERKIT_PRIVATE_KEY_HERE
     },
     api: {
       returnPeriodsApiKey: 'YOUR_RETURN_PERIODS_API_KEY',
+      nwmApiKey: 'YOUR_NWM_API_KEY',
+    },
+    mapbox: {
+      geocodingToken: 'YOUR_MAPBOX_GEOCODING_TOKEN',
     },
     // Add other service keys as needed
     analytics: {
@@ -4,6 +4,9 @@
  * Exports only public config for client-side usage
  */
 
+import type { GeocodingProvider } from '@/types/models/Location';
+import type { FlowDataProviderName } from '@/types/models/FlowForecast';
+
 // Server-side: Import actual secrets
 // Client-side: This import will fail, which is handled below
 import { config as localConfig } from './secrets.local'; 
@@ -34,6 +37,14 @@ export interface PublicConfig {
   api: {
     noaaBaseUrl: string;
     nwmBaseUrl: string;
+    /** Return periods API (proxied server-side; key lives in secrets.api) */
+    returnPeriodsBaseUrl?: string;
+    /** USGS Water Services (instantaneous values) */
+    usgsBaseUrl?: string;
+    /** USGS Network-Linked Data Index (reach → gauge links) */
+    nldiBaseUrl?: string;
+    /** Apple WeatherKit REST API (token signed server-side with secrets.apple.weatherKit) */
+    weatherKitBaseUrl?: string;
   };
   map: {
     defaultCenter: { lat: number; lng: number };
@@ -43,6 +54,20 @@ export interface PublicConfig {
     flow: 'cfs' | 'cms';
     temperature: 'fahrenheit' | 'celsius';
   };
+  geocoding?: {
+    /** Place name lookups; unset = Mapbox when a public token is configured, otherwise the offline mock */
+    provider?: GeocodingProvider;
+    /** Nominatim-compatible API (OpenStreetMap or self-hosted) */
+    nominatimBaseUrl?: string;
+  };
+  flowData?: {
+    /** Raw streamflow source (server only); unset = the NWPS API */
+    provider?: FlowDataProviderName;
+  };
+  upstreamRecording?: {
+    /** Record or replay server-side upstream responses (server only); unset = live */
+    mode?: 'record' | 'replay';
+  };
   appOrigin: string;
 }
 
@@ -58,6 +83,14 @@ export interface SecretsConfig {
       privateKey: string;
     };
   };
+  api?: {
+    returnPeriodsApiKey?: string;
+    nwmApiKey?: string;
+  };
+  mapbox?: {
+    /** Server-only token for /api/geocode (falls back to the public map token) */
+    geocodingToken?: string;
+  };
   analytics: {
     apiKey: string;
   };
@@ -0,0 +1,73 @@
+// hooks/useClimatology.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type {
+  ReachId,
+  ReachClimatology
+} from '@/types';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UseClimatologyOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+  /** First year of the retrospective record (server default: 1991) */
+  startYear?: number;
+  /** Last year of the retrospective record (server default: 2020) */
+  endYear?: number;
+}
+
+// ========================================
+// Primary Hook: useClimatology
+// ========================================
+
+/**
+ * React hook to fetch the day-of-year flow climatology for a reach
+ *
+ * @param reachId - Reach identifier
+ * @param options - Query configuration options
+ * @returns Query result with 5/25/50/75/95th percentiles per day of year (CFS)
+ *
+ * @example
+ * ```tsx
+ * const { data: climatology } = useClimatology(reachId);
+ * const today = getClimatologyForDate(climatology, new Date());
+ * ```
+ */
+export function useClimatology(
+  reachId: ReachId | null,
+  options: UseClimatologyOptions = {}
+) {
+  const { enabled = true, startYear, endYear } = options;
+
+  return useQuery({
+    queryKey: ['climatology', reachId, startYear ?? null, endYear ?? null],
+    queryFn: async (): Promise<ReachClimatology> => {
+      if (!reachId) {
+        throw new Error('Reach ID is required');
+      }
+
+      const params = new URLSearchParams();
+      if (startYear !== undefined) params.set('startYear', String(startYear));
+      if (endYear !== undefined) params.set('endYear', String(endYear));
+      const query = params.toString();
+      const url = `/api/reaches/${reachId}/climatology${query ? `?${query}` : ''}`;
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<ReachClimatology>(response, 'Failed to fetch climatology');
+    },
+    enabled: enabled && !!reachId,
+    // The retrospective record never changes
+    staleTime: Infinity,
+    gcTime: 24 * 60 * 60 * 1000,
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 1),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
@@ -1,18 +1,20 @@
 // hooks/useFlowData.ts
 'use client';
 
-import { useQuery, useQueries, UseQueryResult } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import { useQuery, useQueries, useQueryClient, UseQueryResult } from '@tanstack/react-query';
 import type { 
   ReachId, 
   NormalizedFlowForecast, 
-  ApiResponse 
+  BatchFlowResponse,
+  ForecastRange,
+  BatchFlowResult
 } from '@/types';
+import { ApiRequestError } from '@/types/utils';
+import { readApiResponse, shouldRetryRequest, getRetryDelay, getErrorCodeForStatus } from '@/lib/utils/apiErrors';
 
 // Forecast range types matching your API
-export type ForecastRange = 'short' | 'medium' | 'long' | 'all';
-
-// API response wrapper
-type FlowApiResponse = ApiResponse<NormalizedFlowForecast>;
+export type { ForecastRange };
 
 // Hook options
 interface UseFlowDataOptions {
@@ -24,6 +26,8 @@ interface UseFlowDataOptions {
   staleTime?: number;
   /** Garbage collection time in milliseconds */
   gcTime?: number;
+  /** Include medium/long-range ensemble members (member1..memberN) */
+  includeMembers?: boolean;
 }
 
 // ========================================
@@ -57,16 +61,17 @@ export function useFlowData(
     refetchInterval,
     staleTime = 5 * 60 * 1000, // 5 minutes default
     gcTime = 10 * 60 * 1000, // 10 minutes default
+    includeMembers = false,
   } = options;
 
   return useQuery({
-    queryKey: ['flowData', reachId, range],
+    queryKey: ['flowData', reachId, range, includeMembers],
     queryFn: async (): Promise<NormalizedFlowForecast> => {
       if (!reachId) {
         throw new Error('Reach ID is required');
       }
 
-      const url = `/api/flow/${reachId}?range=${range}`;
+      const url = `/api/flow/${reachId}?range=${range}${includeMembers ? '&members=true' : ''}`;
       
       const response = await fetch(url, {
         headers: {
@@ -74,35 +79,15 @@ export function useFlowData(
         },
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result: FlowApiResponse = await response.json();
-
-      if (!result.ok) {
-        throw new Error(result.error || 'Failed to fetch flow data');
-      }
-
-      if (!result.data) {
-        throw new Error('No flow data returned from API');
-      }
-
-      return result.data;
+      return readApiResponse<NormalizedFlowForecast>(response, 'Failed to fetch flow data');
     },
     enabled: enabled && !!reachId,
     staleTime,
     gcTime,
     refetchInterval,
-    retry: (failureCount: number, error: Error) => {
-      // Don't retry on 404 (reach not found) or 400 (bad request)
-      if (error.message.includes('404') || error.message.includes('400')) {
-        return false;
-      }
-      // Retry up to 3 times for other errors
-      return failureCount < 3;
-    },
-    retryDelay: (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 3),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
   });
 }
 
@@ -140,6 +125,21 @@ export function useMediumRangeForecast(
   });
 }
 
+/**
+ * Hook for medium-range blend forecast (~10-day)
+ * Same cadence as medium range; the blend is deterministic (no members)
+ */
+export function useMediumBlendForecast(
+  reachId: ReachId | null,
+  options: UseFlowDataOptions = {}
+) {
+  return useFlowData(reachId, 'medium_blend', {
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    refetchInterval: 30 * 60 * 1000, // Refetch every 30 minutes
+    ...options,
+  });
+}
+
 /**
  * Hook for long-range forecast (~30-day)
  * Optimized for seasonal planning
@@ -184,7 +184,8 @@ export function useAllFlowRanges(
 ) {
   return useQueries({
     queries: ranges.map(range => ({
-      queryKey: ['flowData', reachId, range],
+      // Same key as useFlowData (no ensemble members), so the caches are shared
+      queryKey: ['flowData', reachId, range, false],
       queryFn: async (): Promise<NormalizedFlowForecast> => {
         if (!reachId) {
           throw new Error('Reach ID is required');
@@ -198,41 +199,94 @@ export function useAllFlowRanges(
           },
         });
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const result: FlowApiResponse = await response.json();
-
-        if (!result.ok) {
-          throw new Error(result.error || 'Failed to fetch flow data');
-        }
-
-        if (!result.data) {
-          throw new Error('No flow data returned from API');
-        }
-
-        return result.data;
+        return readApiResponse<NormalizedFlowForecast>(response, 'Failed to fetch flow data');
       },
       enabled: options.enabled !== false && !!reachId,
       staleTime: options.staleTime || 5 * 60 * 1000,
       gcTime: options.gcTime || 10 * 60 * 1000,
       refetchInterval: options.refetchInterval,
-      retry: (failureCount: number, error: Error) => {
-        if (error.message.includes('404') || error.message.includes('400')) {
-          return false;
-        }
-        return failureCount < 3;
-      },
-      retryDelay: (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 30000),
+      // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+      retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 3),
+      retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
     })),
   });
 }
 
 // ========================================
-// Multi-Reach Hook: useMultipleReaches
+// Multi-Reach Hooks: useBatchFlowData / useMultipleReaches
 // ========================================
 
+/**
+ * React hook to fetch flow data for many reaches in one request (POST /api/flow/batch)
+ * 
+ * @param reachIds - Reach IDs to fetch (nulls are ignored)
+ * @param range - Forecast range for all reaches
+ * @param options - Query configuration options
+ * @returns Query result whose data holds one result (or error) per reach
+ * 
+ * Each successful reach is also written to the single-reach cache, so a later
+ * useFlowData call for the same reach/range is served without a refetch.
+ */
+export function useBatchFlowData(
+  reachIds: (ReachId | null)[],
+  range: ForecastRange = 'short',
+  options: UseFlowDataOptions = {}
+) {
+  const queryClient = useQueryClient();
+  const {
+    enabled = true,
+    refetchInterval,
+    staleTime = 5 * 60 * 1000,
+    gcTime = 10 * 60 * 1000,
+    includeMembers = false,
+  } = options;
+
+  // Stable, de-duplicated key regardless of caller ordering
+  const ids = Array.from(new Set(reachIds.filter((id): id is ReachId => !!id))).sort();
+
+  return useQuery({
+    queryKey: ['flowDataBatch', ids, range, includeMembers],
+    queryFn: async (): Promise<BatchFlowResponse> => {
+      const response = await fetch('/api/flow/batch', {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reachIds: ids, range, members: includeMembers }),
+      });
+
+      const batch = await readApiResponse<BatchFlowResponse>(response, 'Failed to fetch flow data');
+
+      // Seed single-reach queries
+      batch.results.forEach(r => {
+        if (r.ok && r.data) {
+          queryClient.setQueryData(['flowData', r.reachId, range, includeMembers], r.data);
+        }
+      });
+
+      return batch;
+    },
+    enabled: enabled && ids.length > 0,
+    staleTime,
+    gcTime,
+    refetchInterval,
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 3),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
+
+/**
+ * Per-reach view of a batch request
+ */
+export interface ReachFlowResult {
+  reachId: ReachId | null;
+  data: NormalizedFlowForecast | undefined;
+  error: Error | null;
+  isLoading: boolean;
+}
+
 /**
  * Hook to fetch flow data for multiple reaches
  * Useful for saved places list or comparison views
@@ -240,7 +294,11 @@ export function useAllFlowRanges(
  * @param reachIds - Array of reach IDs to fetch
  * @param range - Forecast range for all reaches
  * @param options - Query configuration options
- * @returns Array of query results for each reach
+ * @returns One result per input reach, in the same order
+ * 
+ * All reaches are fetched in a single batch request; a failing reach only
+ * sets the error on its own entry. The returned array keeps its identity until
+ * the batch result or `reachIds` changes, so it is safe as a memo dependency.
  * 
  * @example
  * ```tsx
@@ -265,52 +323,33 @@ export function useMultipleReaches(
   reachIds: (ReachId | null)[],
   range: ForecastRange = 'short',
   options: UseFlowDataOptions = {}
-) {
-  return useQueries({
-    queries: reachIds.map(reachId => ({
-      queryKey: ['flowData', reachId, range],
-      queryFn: async (): Promise<NormalizedFlowForecast> => {
-        if (!reachId) {
-          throw new Error('Reach ID is required');
-        }
-
-        const url = `/api/flow/${reachId}?range=${range}`;
-        
-        const response = await fetch(url, {
-          headers: {
-            'Accept': 'application/json',
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const result: FlowApiResponse = await response.json();
-
-        if (!result.ok) {
-          throw new Error(result.error || 'Failed to fetch flow data');
-        }
-
-        if (!result.data) {
-          throw new Error('No flow data returned from API');
-        }
+): ReachFlowResult[] {
+  const { data, error, isLoading } = useBatchFlowData(reachIds, range, options);
+
+  return useMemo(() => {
+    const byReach = new Map(data?.results.map(r => [r.reachId, r]) ?? []);
+
+    return reachIds.map(reachId => {
+      const result = reachId ? byReach.get(reachId) : undefined;
+      return {
+        reachId,
+        data: result?.ok ? result.data : undefined,
+        error: error ?? (result && !result.ok ? toReachError(result) : null),
+        isLoading,
+      };
+    });
+  }, [reachIds, data, error, isLoading]);
+}
 
-        return result.data;
-      },
-      enabled: options.enabled !== false && !!reachId,
-      staleTime: options.staleTime || 5 * 60 * 1000,
-      gcTime: options.gcTime || 10 * 60 * 1000,
-      refetchInterval: options.refetchInterval,
-      retry: (failureCount: number, error: Error) => {
-        if (error.message.includes('404') || error.message.includes('400')) {
-          return false;
-        }
-        return failureCount < 3;
-      },
-      retryDelay: (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 30000),
-    })),
-  });
+/**
+ * Typed error for a reach that failed inside a successful batch
+ */
+function toReachError(result: BatchFlowResult): ApiRequestError {
+  return new ApiRequestError(
+    result.error || 'Failed to fetch flow data',
+    result.status,
+    result.code ?? getErrorCodeForStatus(result.status)
+  );
 }
 
 // ========================================
@@ -321,9 +360,14 @@ export function useMultipleReaches(
 export { 
   getCurrentFlow, 
   getPeakFlow, 
+  getMeanSeries,
+  getForecastMeanSeries,
+  getAssimilatedFlow,
   getLatestFlow,
   getFlowStats,
   getCurrentFlowInterpolated,
+  getThresholdCrossings,
+  getIssuancePeakTrend,
   isWithinForecastPeriod 
 } from '@/lib/utils/flow';
 
@@ -0,0 +1,74 @@
+// hooks/useForecastIssuances.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type {
+  ReachId,
+  ArchivedHorizon,
+  ForecastIssuanceHistory
+} from '@/types';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UseForecastIssuancesOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+  /** Refetch interval in milliseconds */
+  refetchInterval?: number | false;
+}
+
+// ========================================
+// Primary Hook: useForecastIssuances
+// ========================================
+
+/**
+ * React hook to fetch the last N archived model runs for a reach + horizon
+ *
+ * @param reachId - Reach identifier
+ * @param horizon - Forecast horizon
+ * @param limit - Number of issuances (1-48)
+ * @param options - Query configuration options
+ * @returns Query result with issuances, newest first
+ *
+ * @example
+ * ```tsx
+ * const { data: history } = useForecastIssuances(reachId, 'medium', 5);
+ * const { trend } = getIssuancePeakTrend(history?.issuances ?? []);
+ * ```
+ */
+export function useForecastIssuances(
+  reachId: ReachId | null,
+  horizon: ArchivedHorizon = 'short',
+  limit: number = 6,
+  options: UseForecastIssuancesOptions = {}
+) {
+  const {
+    enabled = true,
+    refetchInterval = 15 * 60 * 1000, // 15 minutes (new runs arrive hourly at most)
+  } = options;
+
+  return useQuery({
+    queryKey: ['forecastIssuances', reachId, horizon, limit],
+    queryFn: async (): Promise<ForecastIssuanceHistory> => {
+      if (!reachId) {
+        throw new Error('Reach ID is required');
+      }
+
+      const url = `/api/flow/${reachId}/issuances?horizon=${horizon}&limit=${limit}`;
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<ForecastIssuanceHistory>(response, 'Failed to fetch forecast issuances');
+    },
+    enabled: enabled && !!reachId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchInterval,
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
@@ -0,0 +1,66 @@
+// hooks/useForecastSkill.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type {
+  ReachId,
+  ArchivedHorizon,
+  ForecastSkill
+} from '@/types';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UseForecastSkillOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+}
+
+// ========================================
+// Primary Hook: useForecastSkill
+// ========================================
+
+/**
+ * React hook to fetch forecast verification metrics for a reach + horizon
+ *
+ * @param reachId - Reach identifier
+ * @param horizon - Forecast horizon to verify
+ * @param options - Query configuration options
+ * @returns Query result with bias/MAE/NSE per lead time and peak timing error
+ *
+ * @example
+ * ```tsx
+ * const { data: skill } = useForecastSkill(reachId, 'short');
+ * const trustworthy = (skill?.overall?.nse ?? -Infinity) > 0.5;
+ * ```
+ */
+export function useForecastSkill(
+  reachId: ReachId | null,
+  horizon: ArchivedHorizon = 'short',
+  options: UseForecastSkillOptions = {}
+) {
+  const { enabled = true } = options;
+
+  return useQuery({
+    queryKey: ['forecastSkill', reachId, horizon],
+    queryFn: async (): Promise<ForecastSkill> => {
+      if (!reachId) {
+        throw new Error('Reach ID is required');
+      }
+
+      const url = `/api/flow/${reachId}/skill?horizon=${horizon}`;
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<ForecastSkill>(response, 'Failed to fetch forecast skill');
+    },
+    enabled: enabled && !!reachId,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
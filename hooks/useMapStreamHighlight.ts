@@ -1,16 +1,27 @@
 // hooks/useMapStreamHighlight.ts
 /**
  * Hook for highlighting selected streams on the map
- * Handles stream navigation and visual highlighting
+ * Handles stream navigation and visual highlighting, plus a network mode that
+ * outlines every reach upstream/downstream of a root reach (see useReachNetwork)
  */
 
 import { useCallback, useRef, useEffect } from 'react';
+import { appConfig } from '@/config';
 import type {
   VisibleStream,
   StreamHighlightConfig,
 } from '@/types/models/VisibleStream';
+import type { NetworkDirection, ReachNetwork } from '@/types';
 import { DEFAULT_HIGHLIGHT_CONFIG } from '@/types/models/VisibleStream';
 
+const NETWORK_LAYER_ID = 'stream-network-highlight';
+
+// Upstream = tributaries (teal), downstream = reaches at risk below (amber)
+const NETWORK_HIGHLIGHT_COLORS: Record<NetworkDirection, string> = {
+  upstream: '#14B8A6',
+  downstream: '#F59E0B',
+};
+
 interface UseMapStreamHighlightOptions {
   /** Custom highlight configuration */
   config?: Partial<StreamHighlightConfig>;
@@ -27,6 +38,10 @@ interface UseMapStreamHighlightResult {
   clearHighlight: () => void;
   /** Fly to stream without highlighting */
   flyToStream: (stream: VisibleStream) => Promise<void>;
+  /** Outline the root reach and every reach in an upstream/downstream network */
+  highlightNetwork: (network: ReachNetwork) => void;
+  /** Remove the network outline */
+  clearNetworkHighlight: () => void;
 }
 
 export function useMapStreamHighlight(
@@ -174,18 +189,78 @@ export function useMapStreamHighlight(
     }
   }, [map]);
 
+  /**
+   * Clear network highlight
+   */
+  const clearNetworkHighlight = useCallback((): void => {
+    if (!map) return;
+
+    try {
+      if (map.getLayer(NETWORK_LAYER_ID)) {
+        map.removeLayer(NETWORK_LAYER_ID);
+      }
+    } catch (error) {
+      console.warn('⚠️ Error clearing network highlight:', error);
+    }
+  }, [map]);
+
+  /**
+   * Highlight a reach network using the stream vector tiles
+   * Replaces any previous network highlight; not auto-cleared
+   */
+  const highlightNetwork = useCallback((network: ReachNetwork): void => {
+    if (!map || !map.getSource('streams')) return;
+
+    try {
+      const reachIds = [network.rootReachId, ...network.nodes.map(node => node.reachId)];
+      const filter: mapboxgl.Expression = ['in', ['get', 'station_id'], ['literal', reachIds]];
+
+      if (map.getLayer(NETWORK_LAYER_ID)) {
+        map.setFilter(NETWORK_LAYER_ID, filter);
+        map.setPaintProperty(NETWORK_LAYER_ID, 'line-color', NETWORK_HIGHLIGHT_COLORS[network.direction]);
+      } else {
+        map.addLayer({
+          id: NETWORK_LAYER_ID,
+          type: 'line',
+          source: 'streams',
+          'source-layer': appConfig.public.map.mapbox.sourceLayer,
+          paint: {
+            'line-color': NETWORK_HIGHLIGHT_COLORS[network.direction],
+            'line-width': [
+              'interpolate',
+              ['linear'],
+              ['zoom'],
+              8, 3,
+              12, 6,
+              16, 9
+            ],
+            'line-opacity': 0.9,
+          },
+          filter,
+        });
+      }
+
+      console.log(`✅ Highlighted ${network.direction} network of ${network.rootReachId} (${network.nodes.length} reaches)`);
+    } catch (error) {
+      console.error('❌ Error highlighting network:', error);
+    }
+  }, [map]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       clearHighlight();
+      clearNetworkHighlight();
     };
-  }, [clearHighlight]);
+  }, [clearHighlight, clearNetworkHighlight]);
 
   return {
     highlightedStream: highlightedStreamRef.current,
     highlightStream,
     clearHighlight,
     flyToStream,
+    highlightNetwork,
+    clearNetworkHighlight,
   };
 }
 
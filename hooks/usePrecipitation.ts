@@ -0,0 +1,94 @@
+// hooks/usePrecipitation.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { PrecipitationSeries } from '@/types';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UsePrecipitationOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+  /** Hours before now (0-72) */
+  pastHours?: number;
+  /** Forecast hours from now (1-240) */
+  hours?: number;
+  /** Refetch interval in milliseconds */
+  refetchInterval?: number | false;
+}
+
+// ========================================
+// Primary Hook: usePrecipitation
+// ========================================
+
+/**
+ * React hook to fetch hourly precipitation (past + forecast) for a point
+ *
+ * @param lat - Latitude (null disables the query)
+ * @param lon - Longitude (null disables the query)
+ * @param options - Window and query configuration options
+ * @returns Query result with hourly/daily precipitation in mm
+ *
+ * Daily totals follow the browser's timezone. `provider === 'stub'` means the
+ * server returned synthetic sample data.
+ *
+ * @example
+ * ```tsx
+ * const { data: precipitation } = usePrecipitation(place.lat, place.lon, { pastHours: 24 });
+ * return <span>{precipitation?.forecastTotalMm} mm expected</span>;
+ * ```
+ */
+export function usePrecipitation(
+  lat: number | null | undefined,
+  lon: number | null | undefined,
+  options: UsePrecipitationOptions = {}
+) {
+  const {
+    enabled = true,
+    pastHours = 72,
+    hours = 240,
+    refetchInterval = 15 * 60 * 1000, // 15 minutes
+  } = options;
+
+  const hasLocation = typeof lat === 'number' && typeof lon === 'number';
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+  return useQuery({
+    // Same ~1 km rounding as the server cache
+    queryKey: [
+      'precipitation',
+      hasLocation ? lat.toFixed(2) : null,
+      hasLocation ? lon.toFixed(2) : null,
+      pastHours,
+      hours,
+      timezone,
+    ],
+    queryFn: async (): Promise<PrecipitationSeries> => {
+      if (!hasLocation) {
+        throw new Error('Coordinates are required');
+      }
+
+      const params = new URLSearchParams({
+        lat: lat.toFixed(4),
+        lon: lon.toFixed(4),
+        pastHours: String(pastHours),
+        hours: String(hours),
+        timezone,
+      });
+
+      const response = await fetch(`/api/precipitation?${params}`, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<PrecipitationSeries>(response, 'Failed to fetch precipitation');
+    },
+    enabled: enabled && hasLocation,
+    staleTime: 10 * 60 * 1000, // 10 minutes (matches the server cache)
+    refetchInterval,
+    // Permanent failures (bad coordinates, not configured) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
@@ -0,0 +1,70 @@
+// hooks/useRainfallLag.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type {
+  ReachId,
+  RainfallRunoffLag
+} from '@/types';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UseRainfallLagOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+}
+
+// ========================================
+// Primary Hook: useRainfallLag
+// ========================================
+
+/**
+ * React hook to fetch the rainfall → flow response lag for a reach and place
+ *
+ * @param reachId - Reach identifier
+ * @param lat - Latitude of the place (null disables the query)
+ * @param lon - Longitude of the place (null disables the query)
+ * @param options - Query configuration options
+ * @returns Query result with the typical lag, its correlation and the correlogram
+ *
+ * @example
+ * ```tsx
+ * const { data: lag } = useRainfallLag(place.reachId, place.lat, place.lon);
+ * return <span>Rain now → peak in ~{lag?.lagHours} h</span>;
+ * ```
+ */
+export function useRainfallLag(
+  reachId: ReachId | null | undefined,
+  lat: number | null | undefined,
+  lon: number | null | undefined,
+  options: UseRainfallLagOptions = {}
+) {
+  const { enabled = true } = options;
+
+  const hasLocation = typeof lat === 'number' && typeof lon === 'number';
+
+  return useQuery({
+    // Same ~1 km rounding as the precipitation cache
+    queryKey: ['rainfallLag', reachId, hasLocation ? lat.toFixed(2) : null, hasLocation ? lon.toFixed(2) : null],
+    queryFn: async (): Promise<RainfallRunoffLag> => {
+      if (!reachId || !hasLocation) {
+        throw new Error('Reach ID and coordinates are required');
+      }
+
+      const url = `/api/reaches/${reachId}/rainfall-lag?lat=${lat.toFixed(4)}&lon=${lon.toFixed(4)}`;
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<RainfallRunoffLag>(response, 'Failed to fetch rainfall lag');
+    },
+    enabled: enabled && !!reachId && hasLocation,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    // Permanent failures (bad request, not configured) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
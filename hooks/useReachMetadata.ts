@@ -4,12 +4,9 @@
 import { useQuery } from '@tanstack/react-query';
 import type { 
   ReachId, 
-  RiverReach, 
-  ApiResponse 
+  RiverReach
 } from '@/types';
-
-// API response wrapper
-type ReachApiResponse = ApiResponse<RiverReach>;
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
 
 // Hook options
 interface UseReachMetadataOptions {
@@ -66,34 +63,14 @@ export function useReachMetadata(
         },
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result: ReachApiResponse = await response.json();
-
-      if (!result.ok) {
-        throw new Error(result.error || 'Failed to fetch reach metadata');
-      }
-
-      if (!result.data) {
-        throw new Error('No reach data returned from API');
-      }
-
-      return result.data;
+      return readApiResponse<RiverReach>(response, 'Failed to fetch reach metadata');
     },
     enabled: enabled && !!reachId,
     staleTime,
     gcTime,
-    retry: (failureCount: number, error: Error) => {
-      // Don't retry on 404 (reach not found) or 400 (bad request)
-      if (error.message.includes('404') || error.message.includes('400')) {
-        return false;
-      }
-      // Retry up to 2 times for other errors
-      return failureCount < 2;
-    },
-    retryDelay: (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 10000),
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 10000),
   });
 }
 
@@ -123,7 +100,7 @@ export function getReachCoordinates(reach: RiverReach | undefined): [number, num
  */
 export function hasStreamflowSeries(
   reach: RiverReach | undefined, 
-  series: 'short_range' | 'medium_range' | 'long_range'
+  series: 'short_range' | 'medium_range' | 'medium_range_blend' | 'long_range'
 ): boolean {
   if (!reach?.streamflow) return false;
   return reach.streamflow.includes(series);
@@ -138,6 +115,7 @@ export function getAvailableRanges(reach: RiverReach | undefined): string[] {
   const rangeMap = {
     'short_range': 'Short (18h)',
     'medium_range': 'Medium (10d)',
+    'medium_range_blend': 'Medium Blend (10d)',
     'long_range': 'Long (30d)',
   };
   
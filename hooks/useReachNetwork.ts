@@ -0,0 +1,98 @@
+// hooks/useReachNetwork.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type {
+  ReachId,
+  ReachNetwork,
+  NetworkDirection
+} from '@/types';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UseReachNetworkOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+  /** Stale time in milliseconds */
+  staleTime?: number;
+  /** Garbage collection time in milliseconds */
+  gcTime?: number;
+}
+
+// ========================================
+// Primary Hook: useReachNetwork
+// ========================================
+
+/**
+ * React hook to fetch the reaches upstream or downstream of a reach
+ *
+ * @param reachId - Root reach
+ * @param direction - 'upstream' or 'downstream'
+ * @param depth - Hops to follow (1-10)
+ * @param options - Query configuration options
+ * @returns Query result with the network (root excluded, nearest reaches first)
+ *
+ * @example
+ * ```tsx
+ * const { data: network } = useReachNetwork(reachId, 'upstream', 4);
+ * const { highlightNetwork } = useMapStreamHighlight(map);
+ *
+ * useEffect(() => {
+ *   if (network) highlightNetwork(network);
+ * }, [network, highlightNetwork]);
+ * ```
+ */
+export function useReachNetwork(
+  reachId: ReachId | null,
+  direction: NetworkDirection = 'downstream',
+  depth: number = 3,
+  options: UseReachNetworkOptions = {}
+) {
+  const {
+    enabled = true,
+    staleTime = 60 * 60 * 1000, // 1 hour default (route topology doesn't change)
+    gcTime = 24 * 60 * 60 * 1000, // 24 hours default
+  } = options;
+
+  return useQuery({
+    queryKey: ['reachNetwork', reachId, direction, depth],
+    queryFn: async (): Promise<ReachNetwork> => {
+      if (!reachId) {
+        throw new Error('Reach ID is required');
+      }
+
+      const url = `/api/reaches/${reachId}/network?direction=${direction}&depth=${depth}`;
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<ReachNetwork>(response, 'Failed to fetch reach network');
+    },
+    enabled: enabled && !!reachId,
+    staleTime,
+    gcTime,
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 10000),
+  });
+}
+
+// ========================================
+// Utility Functions
+// ========================================
+
+/**
+ * Reach IDs in a network, optionally limited to a depth
+ */
+export function getNetworkReachIds(
+  network: ReachNetwork | undefined,
+  maxDepth?: number
+): ReachId[] {
+  if (!network) return [];
+  return network.nodes
+    .filter(node => maxDepth === undefined || node.depth <= maxDepth)
+    .map(node => node.reachId);
+}
@@ -0,0 +1,71 @@
+// hooks/useReachObservations.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type {
+  ReachId,
+  ReachObservations
+} from '@/types';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UseReachObservationsOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+  /** Refetch interval in milliseconds */
+  refetchInterval?: number | false;
+}
+
+// ========================================
+// Primary Hook: useReachObservations
+// ========================================
+
+/**
+ * React hook to fetch recent observed discharge at the gauge linked to a reach
+ *
+ * @param reachId - Reach identifier
+ * @param hours - Observation window ending now (1-720)
+ * @param options - Query configuration options
+ * @returns Query result with the linked gauge (null if ungauged) and points in CFS
+ *
+ * @example
+ * ```tsx
+ * const { data: observations } = useReachObservations(reachId, 72);
+ * if (observations?.gauge) console.log(`USGS ${observations.gauge.siteId}`);
+ * ```
+ */
+export function useReachObservations(
+  reachId: ReachId | null,
+  hours: number = 72,
+  options: UseReachObservationsOptions = {}
+) {
+  const {
+    enabled = true,
+    refetchInterval = 15 * 60 * 1000, // 15 minutes (gauge reporting interval)
+  } = options;
+
+  return useQuery({
+    queryKey: ['reachObservations', reachId, hours],
+    queryFn: async (): Promise<ReachObservations> => {
+      if (!reachId) {
+        throw new Error('Reach ID is required');
+      }
+
+      const url = `/api/reaches/${reachId}/observations?hours=${hours}`;
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<ReachObservations>(response, 'Failed to fetch observations');
+    },
+    enabled: enabled && !!reachId,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchInterval,
+    // Permanent failures (bad request, unknown reach) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
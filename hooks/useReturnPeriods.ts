@@ -2,13 +2,15 @@
 /**
  * Simple React hook for fetching return period data
  * 
- * Fetches return period thresholds for multiple river reaches.
+ * Fetches return period thresholds for multiple river reaches in one batch request.
  * All returned values are in CFS for consistency with the app.
  */
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { fetchReturnPeriods } from '@/services/returnPeriodsService';
-import type { ReachId, ReturnPeriodThresholds } from '@/types';
+import { fetchReturnPeriodsBatch } from '@/services/returnPeriodsService';
+import { getErrorMessage } from '@/lib/utils/apiErrors';
+import { ApiRequestError } from '@/types/utils';
+import type { ApiErrorCode, ReachId, ReturnPeriodThresholds } from '@/types';
 
 interface UseReturnPeriodsOptions {
   enabled?: boolean;
@@ -21,6 +23,8 @@ interface UseReturnPeriodsResult {
   loading: boolean;
   /** Error message if requests failed */
   error: string | null;
+  /** Error code if the request failed (null for partial coverage) */
+  errorCode: ApiErrorCode | null;
   /** Whether any data has been loaded */
   hasData: boolean;
   /** Get return periods for a specific reach */
@@ -45,6 +49,7 @@ export function useReturnPeriods(
   const [data, setData] = useState<Record<string, ReturnPeriodThresholds>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<ApiErrorCode | null>(null);
   const [hasData, setHasData] = useState(false);
 
   const mountedRef = useRef(true);
@@ -78,23 +83,17 @@ export function useReturnPeriods(
 
     setLoading(true);
     setError(null);
+    setErrorCode(null);
 
     try {
       console.log(`[useReturnPeriods] Starting fetch for ${validReachIds.length} reaches:`, validReachIds);
 
-      // Make requests for all reaches in parallel
-      const results = await Promise.all(
-        validReachIds.map(async (reachId) => {
-          try {
-            const thresholds = await fetchReturnPeriods(reachId);
-            console.log(`[useReturnPeriods] Individual result for ${reachId}:`, thresholds);
-            return { reachId, thresholds, success: true };
-          } catch (error) {
-            console.error(`[useReturnPeriods] Error for reach ${reachId}:`, error);
-            return { reachId, thresholds: null, success: false, error };
-          }
-        })
-      );
+      // One batch request for every reach not already cached
+      const batch = await fetchReturnPeriodsBatch(validReachIds);
+      const results = validReachIds.map(reachId => {
+        const thresholds = batch[String(reachId)] ?? null;
+        return { reachId, thresholds, success: thresholds !== null };
+      });
 
       // ✅ CRITICAL FIX: Only check mounted state as a safety measure, don't skip state updates
       // React's cleanup handles most cases where this was needed in older versions
@@ -141,7 +140,8 @@ export function useReturnPeriods(
 
     } catch (err) {
       console.error('[useReturnPeriods] Fetch error:', err);
-      setError('Failed to load flood threshold data. Using estimated levels.');
+      setError(`Flood thresholds unavailable, using estimated levels. ${getErrorMessage(err)}`);
+      setErrorCode(ApiRequestError.isApiRequestError(err) ? err.code : 'INTERNAL_ERROR');
       setData({});
       setHasData(false);
       setLoading(false);
@@ -184,6 +184,7 @@ export function useReturnPeriods(
     data,
     loading,
     error,
+    errorCode,
     hasData,
     getReturnPeriods,
     refetch,
@@ -197,7 +198,7 @@ export function useReturnPeriod(
   reachId: ReachId | null | undefined,
   options: UseReturnPeriodsOptions = {}
 ) {
-  const { data, loading, error, refetch } = useReturnPeriods(
+  const { data, loading, error, errorCode, refetch } = useReturnPeriods(
     reachId ? [reachId] : [],
     options
   );
@@ -208,6 +209,7 @@ export function useReturnPeriod(
     thresholds,
     loading,
     error,
+    errorCode,
     hasData: !!thresholds,
     refetch,
   };
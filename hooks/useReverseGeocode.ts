@@ -1,11 +1,11 @@
 // hooks/useReverseGeocode.ts
 /**
  * React hook for reverse geocoding coordinates to location names
- * Uses Mapbox geocoding service with caching for stream locations
+ * Uses the configured geocoding provider (Mapbox, Nominatim or offline mock) with caching
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { reverseGeocode } from '@/services/mapboxGeocodingService';
+import { reverseGeocode } from '@/services/geocodingService';
 import {
   Coordinates,
   NormalizedLocation,
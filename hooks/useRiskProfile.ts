@@ -0,0 +1,43 @@
+// hooks/useRiskProfile.ts
+'use client';
+
+import { useCallback } from 'react';
+import { useAppContext } from '@/components/Layout/AppShell';
+import { resolveRiskProfile } from '@/lib/utils/riskCalculator';
+import type { ReachId, RiskProfile } from '@/types';
+
+/**
+ * Risk profile lookup for reaches/saved places
+ *
+ * Resolution: saved place override → user's active profile → default profile.
+ * A reach picks up a saved place's override when a saved place points at it.
+ *
+ * @returns `getRiskProfile(reachId?, placeId?)` plus the user's active profile
+ *
+ * @example
+ * ```tsx
+ * const { getRiskProfile } = useRiskProfile();
+ * const risk = computeRisk(currentFlow, returnPeriods, getRiskProfile(reachId));
+ * ```
+ */
+export function useRiskProfile() {
+  const { userPreferences, savedPlaces } = useAppContext();
+
+  const getRiskProfile = useCallback((
+    reachId?: ReachId | string | null,
+    placeId?: string | null
+  ): RiskProfile => {
+    // The place itself wins over another saved place on the same reach
+    const place =
+      (placeId ? savedPlaces.find(p => p.id === placeId) : undefined) ??
+      (reachId ? savedPlaces.find(p => p.reachId === reachId) : undefined);
+    return resolveRiskProfile(userPreferences, place?.riskProfileId);
+  }, [userPreferences, savedPlaces]);
+
+  return {
+    activeProfile: resolveRiskProfile(userPreferences),
+    getRiskProfile,
+  };
+}
+
+export default useRiskProfile;
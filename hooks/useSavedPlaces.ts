@@ -24,6 +24,7 @@ interface AddPlaceInput {
   notes?: string;
   photoUrl?: string;
   isPrimary?: boolean;
+  riskProfileId?: string;
 }
 
 // Update place input (all fields optional except id)
@@ -36,6 +37,7 @@ interface UpdatePlaceInput {
   notes?: string;
   photoUrl?: string;
   isPrimary?: boolean;
+  riskProfileId?: string;
 }
 
 // Hook return type
@@ -265,6 +267,7 @@ export function useSavedPlaces(
         lon: input.lon,
         notes: input.notes,
         photoUrl: input.photoUrl,
+        riskProfileId: input.riskProfileId,
         isPrimary: input.isPrimary || false,
         createdAt: now,
         updatedAt: now,
@@ -0,0 +1,120 @@
+// hooks/useStreamPick.ts
+'use client';
+
+/**
+ * Stream pick flow shared by every map provider:
+ * picked reach → metadata + short-range forecast → stream popup (AppShell modal)
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAppContext, type StreamModalData } from '@/components/Layout/AppShell';
+import { useReachMetadata } from '@/hooks/useReachMetadata';
+import { useShortRangeForecast } from '@/hooks/useFlowData';
+import { getCurrentFlow } from '@/lib/utils/flow';
+import type { ReachId } from '@/types';
+
+interface UseStreamPickOptions {
+  /** Called when the picked reach's data can't be loaded */
+  onError?: (reachId: ReachId, message: string) => void;
+}
+
+/**
+ * React hook driving the stream popup from a picked reach
+ *
+ * @param options - Error callback
+ * @returns `pickReach` to start the flow, plus its loading/error state
+ *
+ * @example
+ * ```tsx
+ * const { pickReach, isLoadingReach } = useStreamPick({ onError: (id, msg) => showToast(msg) });
+ * map.on('click', 'streams-line', e => pickReach(toReachId(e.features[0].properties.station_id)));
+ * ```
+ */
+export function useStreamPick(options: UseStreamPickOptions = {}) {
+  const [pickedReachId, setPickedReachId] = useState<ReachId | null>(null);
+
+  const { openStreamModal } = useAppContext();
+
+  const onErrorRef = useRef(options.onError);
+  useEffect(() => {
+    onErrorRef.current = options.onError;
+  }, [options.onError]);
+
+  // Fetch reach metadata when a reach is picked
+  const {
+    data: reachData,
+    isLoading: isLoadingReach,
+    error: reachError
+  } = useReachMetadata(pickedReachId, {
+    enabled: !!pickedReachId,
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+
+  // Fetch short-range forecast for current flow when we have reach data
+  const {
+    data: forecastData,
+    isLoading: isLoadingForecast,
+    error: forecastError
+  } = useShortRangeForecast(reachData?.reachId || null, {
+    enabled: !!reachData,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  // When both reach data and forecast data are loaded, show modal
+  useEffect(() => {
+    if (pickedReachId && reachData && !isLoadingReach && !reachError && !isLoadingForecast) {
+      console.log('Stream data loaded, showing modal for:', reachData);
+
+      // Extract current flow by comparing device time to forecast validTime
+      const currentFlowValue = forecastData ? getCurrentFlow(forecastData) : null;
+
+      // Transform RiverReach data to StreamModalData format
+      const streamModalData: StreamModalData = {
+        reachId: reachData.reachId,
+        name: reachData.name,
+        lat: reachData.latitude,
+        lon: reachData.longitude,
+        currentFlow: currentFlowValue ?? undefined, // Convert null to undefined for type compatibility
+        metadata: {
+          streamflow: reachData.streamflow,
+          forecastAvailable: !!forecastData,
+          forecastError: forecastError?.message,
+        },
+      };
+
+      // Open modal with stream data
+      openStreamModal(streamModalData);
+
+      // Clear the picked reach ID to reset for next pick
+      setPickedReachId(null);
+    }
+  }, [pickedReachId, reachData, isLoadingReach, reachError, forecastData, isLoadingForecast, forecastError, openStreamModal]);
+
+  // Handle reach or forecast loading errors
+  useEffect(() => {
+    if ((reachError || forecastError) && pickedReachId) {
+      console.error('Failed to fetch stream data:', { reachError, forecastError });
+      const errorMsg = reachError?.message || forecastError?.message || 'Unknown error';
+      onErrorRef.current?.(pickedReachId, errorMsg);
+      setPickedReachId(null);
+    }
+  }, [reachError, forecastError, pickedReachId]);
+
+  const pickReach = useCallback((reachId: ReachId) => {
+    setPickedReachId(reachId);
+  }, []);
+
+  const cancelPick = useCallback(() => {
+    setPickedReachId(null);
+  }, []);
+
+  return {
+    pickReach,
+    cancelPick,
+    pickedReachId,
+    isLoadingReach: !!pickedReachId && isLoadingReach,
+    isLoadingForecast: !!pickedReachId && isLoadingForecast,
+    reachError,
+    forecastError,
+  };
+}
@@ -0,0 +1,128 @@
+// hooks/useWeather.ts
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { WeatherForecast } from '@/types';
+import type { TempUnit } from '@/types/models/UserPreferences';
+import type { WeatherCondition, WeatherData } from '@/components/display/WeatherSummary';
+import { readApiResponse, shouldRetryRequest, getRetryDelay } from '@/lib/utils/apiErrors';
+
+// Hook options
+interface UseWeatherOptions {
+  /** Enable/disable the query */
+  enabled?: boolean;
+  /** Refetch interval in milliseconds */
+  refetchInterval?: number | false;
+}
+
+// ========================================
+// Primary Hook: useWeather
+// ========================================
+
+/**
+ * React hook to fetch current weather and the hourly/daily forecast for a point
+ *
+ * @param lat - Latitude (null disables the query)
+ * @param lon - Longitude (null disables the query)
+ * @param options - Query configuration options
+ * @returns Query result with the normalized forecast (metric units)
+ *
+ * Daily forecast days follow the browser's timezone.
+ *
+ * @example
+ * ```tsx
+ * const { data: forecast } = useWeather(reach.latitude, reach.longitude);
+ * const weather = toWeatherData(forecast, 'F');
+ * return <WeatherSummary weather={weather} />;
+ * ```
+ */
+export function useWeather(
+  lat: number | null | undefined,
+  lon: number | null | undefined,
+  options: UseWeatherOptions = {}
+) {
+  const {
+    enabled = true,
+    refetchInterval = 15 * 60 * 1000, // 15 minutes
+  } = options;
+
+  const hasLocation = typeof lat === 'number' && typeof lon === 'number';
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+  return useQuery({
+    // Same ~1 km rounding as the server cache
+    queryKey: ['weather', hasLocation ? lat.toFixed(2) : null, hasLocation ? lon.toFixed(2) : null, timezone],
+    queryFn: async (): Promise<WeatherForecast> => {
+      if (!hasLocation) {
+        throw new Error('Coordinates are required');
+      }
+
+      const url = `/api/weather?lat=${lat.toFixed(4)}&lon=${lon.toFixed(4)}&timezone=${encodeURIComponent(timezone)}`;
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json',
+        },
+      });
+
+      return readApiResponse<WeatherForecast>(response, 'Failed to fetch weather');
+    },
+    enabled: enabled && hasLocation,
+    staleTime: 10 * 60 * 1000, // 10 minutes (matches the server cache)
+    refetchInterval,
+    // Permanent failures (bad coordinates, not configured) aren't retried; Retry-After is honoured
+    retry: (failureCount: number, error: Error) => shouldRetryRequest(failureCount, error, 2),
+    retryDelay: (attemptIndex: number, error: Error) => getRetryDelay(attemptIndex, error, 30000),
+  });
+}
+
+// ========================================
+// Utility Functions
+// ========================================
+
+/**
+ * WeatherKit condition code → WeatherSummary condition
+ */
+export function getWeatherCondition(conditionCode: string | undefined): WeatherCondition {
+  const code = conditionCode ?? '';
+
+  if (/Thunder/.test(code)) return 'thunderstorm';
+  if (/Snow|Flurries|Blizzard|Sleet|WintryMix/.test(code)) return 'snow';
+  if (/Showers/.test(code)) return 'showers';
+  if (/Rain|Drizzle|Hail/.test(code)) return 'rain';
+  if (/Fog|Haze|Smok|Dust/.test(code)) return 'fog';
+  if (/Wind|Breezy|Hurricane|TropicalStorm/.test(code)) return 'wind';
+  if (code === 'PartlyCloudy') return 'partly-cloudy';
+  if (code === 'MostlyCloudy') return 'cloudy';
+  if (code === 'Cloudy') return 'overcast';
+  return 'clear';
+}
+
+/**
+ * Summarize a forecast for WeatherSummary (current conditions + today's range)
+ *
+ * @returns Summary, or undefined without current conditions
+ */
+export function toWeatherData(
+  forecast: WeatherForecast | undefined,
+  tempUnit: TempUnit = 'F'
+): WeatherData | undefined {
+  const current = forecast?.current;
+  if (!current || current.temperatureC === undefined) return undefined;
+
+  const convert = (celsius: number | undefined) =>
+    celsius === undefined ? undefined : Math.round(tempUnit === 'F' ? celsius * 9 / 5 + 32 : celsius);
+
+  const today = forecast.daily[0];
+  const nextHour = forecast.hourly.find(point => point.time >= current.time);
+
+  return {
+    temperature: convert(current.temperatureC)!,
+    tempUnit,
+    condition: getWeatherCondition(current.conditionCode),
+    precipChance: nextHour?.precipitationChance ?? today?.precipitationChance,
+    precipAmount: current.precipitationMm,
+    highTemp: convert(today?.temperatureMaxC),
+    lowTemp: convert(today?.temperatureMinC),
+  };
+}
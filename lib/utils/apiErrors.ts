@@ -0,0 +1,148 @@
+// lib/utils/apiErrors.ts
+/**
+ * Error taxonomy helpers shared by API routes, services and client hooks
+ * Maps HTTP statuses to ApiErrorCodes, parses Retry-After hints and turns
+ * ApiResponse envelopes into typed ApiRequestErrors on the client.
+ * (Route-side NextResponse helpers live in apiResponses.ts.)
+ */
+
+import type { ApiErrorCode, ApiResponse } from '@/types';
+import { ApiRequestError } from '@/types/utils';
+
+/** Default HTTP status for each error code */
+export const ERROR_CODE_STATUS: Record<ApiErrorCode, number> = {
+  INVALID_PARAM: 400,
+  REACH_NOT_FOUND: 404,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_ERROR: 502,
+  NOT_CONFIGURED: 503,
+  UPSTREAM_TIMEOUT: 504,
+};
+
+/** Codes that won't change on retry (the request itself is the problem) */
+const PERMANENT_CODES: ApiErrorCode[] = ['INVALID_PARAM', 'REACH_NOT_FOUND', 'NOT_FOUND', 'NOT_CONFIGURED'];
+
+/**
+ * Error code for an HTTP status (used when a response has no envelope)
+ */
+export function getErrorCodeForStatus(status: number): ApiErrorCode {
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 503) return 'NOT_CONFIGURED';
+  if (status === 504) return 'UPSTREAM_TIMEOUT';
+  if (status >= 400 && status < 500) return 'INVALID_PARAM';
+  if (status === 502) return 'UPSTREAM_ERROR';
+  return 'INTERNAL_ERROR';
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ *
+ * @returns Whole seconds to wait, or undefined when absent/unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+  const date = Date.parse(value);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Whether a fetch failed because its AbortSignal.timeout fired
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+}
+
+/**
+ * Unwrap an ApiResponse from one of our API routes
+ *
+ * @param response - Fetch response from an /api route
+ * @param fallbackMessage - Message when a failed response carries none
+ * @returns The envelope's data
+ * @throws ApiRequestError with the envelope's code (or one derived from the status)
+ */
+export async function readApiResponse<T>(response: Response, fallbackMessage: string): Promise<T> {
+  const body = await response.json().catch(() => null) as ApiResponse<T> | null;
+  const retryAfter = body?.retryAfter ?? parseRetryAfter(response.headers.get('Retry-After'));
+
+  if (!response.ok || !body?.ok) {
+    const status = response.ok ? 500 : response.status;
+    throw new ApiRequestError(
+      body?.error || (response.ok ? fallbackMessage : `HTTP ${response.status}: ${response.statusText}`),
+      status,
+      body?.code ?? getErrorCodeForStatus(status),
+      retryAfter,
+      body?.context
+    );
+  }
+
+  if (body.data === undefined) {
+    throw new ApiRequestError('No data returned from API', 500, 'INTERNAL_ERROR');
+  }
+
+  return body.data;
+}
+
+/**
+ * React Query `retry` callback: retry transient failures only
+ */
+export function shouldRetryRequest(failureCount: number, error: Error, maxRetries: number = 2): boolean {
+  if (ApiRequestError.isApiRequestError(error) && PERMANENT_CODES.includes(error.code)) {
+    return false;
+  }
+  return failureCount < maxRetries;
+}
+
+/**
+ * React Query `retryDelay` callback: honour Retry-After, else exponential backoff
+ */
+export function getRetryDelay(attemptIndex: number, error: Error, maxDelay: number = 30000): number {
+  if (ApiRequestError.isApiRequestError(error) && error.retryAfter !== undefined) {
+    return error.retryAfter * 1000;
+  }
+  return Math.min(1000 * 2 ** attemptIndex, maxDelay);
+}
+
+/**
+ * User-facing message for a failed request
+ */
+export function getErrorMessage(error: unknown): string {
+  if (ApiRequestError.isApiRequestError(error)) {
+    switch (error.code) {
+      case 'RATE_LIMITED':
+        return error.retryAfter
+          ? `The data provider is busy. Try again in ${formatWait(error.retryAfter)}.`
+          : 'The data provider is busy. Try again shortly.';
+      case 'UPSTREAM_TIMEOUT':
+        return 'The data provider took too long to respond. Try again in a moment.';
+      case 'UPSTREAM_ERROR':
+        return 'The data provider is having problems right now. Try again later.';
+      case 'NOT_CONFIGURED':
+        return 'This data source is not configured on the server.';
+      case 'INTERNAL_ERROR':
+        return 'Something went wrong loading this data. Try again later.';
+      case 'INVALID_PARAM':
+      case 'REACH_NOT_FOUND':
+      case 'NOT_FOUND':
+        return error.message;
+    }
+  }
+
+  // fetch() rejects with a TypeError when the network is down
+  if (error instanceof TypeError) {
+    return 'Unable to reach the server. Check your connection.';
+  }
+
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function formatWait(seconds: number): string {
+  return seconds < 90 ? `${seconds} s` : `${Math.ceil(seconds / 60)} min`;
+}
@@ -0,0 +1,136 @@
+// lib/utils/apiResponses.ts
+/**
+ * Error responses for API routes (server only - imports next/server)
+ * Every failed route response is an ApiResponse with `ok: false`, a
+ * human-readable `error` and a machine-readable `code`; rate-limit and
+ * upstream failures also carry a `retryAfter` hint (body and header).
+ */
+
+import { NextResponse } from 'next/server';
+import type { ApiErrorCode, ApiResponse } from '@/types';
+import { ApiError } from '@/types/utils';
+import { GeocodingError } from '@/types/models/Location';
+import { ERROR_CODE_STATUS, isTimeoutError } from '@/lib/utils/apiErrors';
+
+interface ErrorResponseOptions {
+  /** Override the code's default status */
+  status?: number;
+  /** Seconds the client should wait before retrying */
+  retryAfter?: number;
+  /** Optional error details (e.g. upstream response excerpt) */
+  context?: unknown;
+}
+
+/**
+ * Build a failed ApiResponse
+ *
+ * @param code - Error code
+ * @param message - Human-readable message
+ * @param options - Status override, retry hint, context
+ */
+export function errorResponse<T = never>(
+  code: ApiErrorCode,
+  message: string,
+  options: ErrorResponseOptions = {}
+): NextResponse<ApiResponse<T>> {
+  const { status = ERROR_CODE_STATUS[code], retryAfter, context } = options;
+
+  return NextResponse.json(
+    {
+      ok: false,
+      error: message,
+      code,
+      retryAfter,
+      context: context || undefined
+    },
+    {
+      status,
+      headers: retryAfter !== undefined ? { 'Retry-After': String(retryAfter) } : undefined
+    }
+  );
+}
+
+/** A thrown error classified into the taxonomy */
+export interface ClassifiedError {
+  code: ApiErrorCode;
+  message: string;
+  status: number;
+  retryAfter?: number;
+  context?: unknown;
+}
+
+/**
+ * Map a thrown error onto the error taxonomy
+ * ApiErrors keep their message and status, GeocodingErrors map by their code;
+ * anything else becomes INTERNAL_ERROR.
+ *
+ * @param error - Caught error
+ * @param fallbackMessage - Message for unexpected (non-ApiError) errors
+ * @param notFoundCode - Code for an ApiError 404 (reach routes pass REACH_NOT_FOUND)
+ */
+export function classifyError(
+  error: unknown,
+  fallbackMessage: string,
+  notFoundCode: ApiErrorCode = 'NOT_FOUND'
+): ClassifiedError {
+  if (ApiError.isApiError(error)) {
+    const status = error.statusCode >= 400 && error.statusCode < 600
+      ? error.statusCode
+      : 500;
+
+    return {
+      code: status === 404 ? notFoundCode : getErrorCodeForApiError(status),
+      message: error.message,
+      status,
+      retryAfter: error.retryAfter,
+      context: error.details
+    };
+  }
+
+  if (error instanceof GeocodingError) {
+    return classifyGeocodingError(error);
+  }
+
+  if (isTimeoutError(error)) {
+    return { code: 'UPSTREAM_TIMEOUT', message: 'Upstream API timed out', status: 504 };
+  }
+
+  return { code: 'INTERNAL_ERROR', message: fallbackMessage, status: 500 };
+}
+
+/**
+ * Failed ApiResponse for a thrown error (see classifyError)
+ */
+export function toErrorResponse<T = never>(
+  error: unknown,
+  fallbackMessage: string,
+  notFoundCode: ApiErrorCode = 'NOT_FOUND'
+): NextResponse<ApiResponse<T>> {
+  const { code, message, ...options } = classifyError(error, fallbackMessage, notFoundCode);
+  return errorResponse<T>(code, message, options);
+}
+
+/**
+ * ApiErrors mostly come from upstream calls: only a 400 blames the caller,
+ * other failures (auth, 5xx, bad payloads) are the upstream's
+ */
+function getErrorCodeForApiError(status: number): ApiErrorCode {
+  if (status === 400) return 'INVALID_PARAM';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 504) return 'UPSTREAM_TIMEOUT';
+  return 'UPSTREAM_ERROR';
+}
+
+/**
+ * GeocodingErrors: bad coordinates blame the caller, everything else the provider
+ */
+function classifyGeocodingError(error: GeocodingError): ClassifiedError {
+  switch (error.code) {
+    case 'INVALID_COORDINATES':
+      return { code: 'INVALID_PARAM', message: error.message, status: 400 };
+    case 'RATE_LIMITED':
+      return { code: 'RATE_LIMITED', message: error.message, status: 429, retryAfter: error.retryAfter };
+    default:
+      return { code: 'UPSTREAM_ERROR', message: error.message, status: 502 };
+  }
+}
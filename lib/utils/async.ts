@@ -0,0 +1,31 @@
+// lib/utils/async.ts
+/**
+ * Async helpers for fanning out upstream requests without flooding them
+ */
+
+/**
+ * Map over items with at most `limit` promises pending
+ *
+ * @param items - Inputs
+ * @param limit - Maximum concurrent calls
+ * @param fn - Async mapper
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
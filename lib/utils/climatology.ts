@@ -0,0 +1,113 @@
+// lib/utils/climatology.ts
+/**
+ * Day-of-year climatology from retrospective daily flows
+ * Answers "is 2,000 CFS high or low for mid-October on this reach?"
+ */
+
+import type { ClimatologyDay, ReachClimatology } from '@/types';
+import { percentileOfSorted } from '@/lib/utils/ensemble';
+
+/** Days in the leap-year reference calendar */
+const DAYS_IN_YEAR = 366;
+
+/** Cumulative days before each month on a leap-year calendar */
+const LEAP_MONTH_OFFSETS = [0, 31, 60, 91, 121, 152, 182, 213, 244, 274, 305, 335];
+
+/**
+ * Day of year on a leap-year calendar (UTC)
+ * Every date maps to the same slot regardless of year: Feb 29 = 60, Mar 1 = 61
+ *
+ * @param date - Date or ISO string
+ * @returns 1..366
+ */
+export function getDayOfYear(date: Date | string): number {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return LEAP_MONTH_OFFSETS[d.getUTCMonth()] + d.getUTCDate();
+}
+
+/**
+ * Average sub-daily flows into one value per UTC calendar date
+ *
+ * @param points - Flows with timestamps (any cadence)
+ * @returns Daily means keyed by 'YYYY-MM-DD'
+ */
+export function toDailyMeans(points: Array<{ t: string; q: number }>): Map<string, number> {
+  const sums = new Map<string, { sum: number; count: number }>();
+
+  for (const point of points) {
+    if (!Number.isFinite(point.q)) continue;
+    const day = new Date(point.t).toISOString().slice(0, 10);
+    const entry = sums.get(day);
+    if (entry) {
+      entry.sum += point.q;
+      entry.count++;
+    } else {
+      sums.set(day, { sum: point.q, count: 1 });
+    }
+  }
+
+  const means = new Map<string, number>();
+  for (const [day, { sum, count }] of sums) {
+    means.set(day, sum / count);
+  }
+  return means;
+}
+
+/**
+ * 5/25/50/75/95th percentiles of daily flow for each day of year
+ * Each day pools the daily means within ±windowDays (wrapping at year end),
+ * which smooths the curve and keeps short records usable.
+ *
+ * @param dailyMeans - Daily mean flow (CFS) keyed by 'YYYY-MM-DD'
+ * @param windowDays - Days either side to pool
+ * @returns Percentiles per day of year; days with no samples are omitted
+ */
+export function computeDayOfYearPercentiles(
+  dailyMeans: Map<string, number>,
+  windowDays: number
+): ClimatologyDay[] {
+  // Bucket daily means by day of year
+  const byDoy: number[][] = Array.from({ length: DAYS_IN_YEAR + 1 }, () => []);
+  for (const [day, q] of dailyMeans) {
+    byDoy[getDayOfYear(`${day}T00:00:00Z`)].push(q);
+  }
+
+  const days: ClimatologyDay[] = [];
+  for (let doy = 1; doy <= DAYS_IN_YEAR; doy++) {
+    const samples: number[] = [];
+    for (let offset = -windowDays; offset <= windowDays; offset++) {
+      const slot = ((doy - 1 + offset + DAYS_IN_YEAR) % DAYS_IN_YEAR) + 1;
+      samples.push(...byDoy[slot]);
+    }
+    if (samples.length === 0) continue;
+
+    const sorted = samples.sort((a, b) => a - b);
+    days.push({
+      doy,
+      p5: percentileOfSorted(sorted, 5),
+      p25: percentileOfSorted(sorted, 25),
+      p50: percentileOfSorted(sorted, 50),
+      p75: percentileOfSorted(sorted, 75),
+      p95: percentileOfSorted(sorted, 95),
+      sampleCount: sorted.length,
+    });
+  }
+
+  return days;
+}
+
+/**
+ * Look up the climatology for a date
+ *
+ * @param climatology - Reach climatology
+ * @param date - Date or ISO string
+ * @returns Percentiles for that day of year, or null if unavailable
+ */
+export function getClimatologyForDate(
+  climatology: ReachClimatology | undefined,
+  date: Date | string
+): ClimatologyDay | null {
+  if (!climatology?.days.length) return null;
+  const doy = getDayOfYear(date);
+  return climatology.days.find(d => d.doy === doy) ?? null;
+}
@@ -0,0 +1,167 @@
+// lib/utils/ensemble.ts
+/**
+ * Ensemble utilities for medium/long-range forecasts
+ * Turns member series (member1..memberN) into percentile bands and exceedance probabilities
+ */
+
+import type {
+  Horizon,
+  NormalizedFlowForecast,
+  NormalizedSeries,
+  ReturnPeriodThresholds,
+} from '@/types';
+
+/** Percentiles drawn as bands around the mean */
+export const ENSEMBLE_PERCENTILES = [10, 25, 50, 75, 90] as const;
+
+export type EnsemblePercentile = typeof ENSEMBLE_PERCENTILES[number];
+
+export interface EnsemblePercentilePoint {
+  /** ISO timestamp (UTC) */
+  t: string;
+  /** Number of members with a value at this time */
+  memberCount: number;
+  /** Discharge in CFS for each percentile */
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface ThresholdExceedance {
+  /** Return period key (e.g., 'rp10') */
+  key: keyof ReturnPeriodThresholds;
+  /** Threshold in CFS */
+  threshold: number;
+  /** Members whose peak reaches the threshold */
+  exceedingMembers: number;
+  /** Total members considered */
+  totalMembers: number;
+  /** 0-100 */
+  percent: number;
+}
+
+/**
+ * Get ensemble member series for a horizon (mean excluded)
+ *
+ * @param forecast - Normalized flow forecast data
+ * @param horizon - Horizon to select
+ * @returns Member series for that horizon
+ */
+export function getMemberSeries(
+  forecast: NormalizedFlowForecast | undefined,
+  horizon: Horizon
+): NormalizedSeries[] {
+  return forecast?.series?.filter(
+    s => s.horizon === horizon && s.label !== 'mean' && s.points.length > 0
+  ) ?? [];
+}
+
+/**
+ * Linear-interpolated percentile of an ascending-sorted array
+ */
+export function percentileOfSorted(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Compute 10/25/50/75/90 percentiles across ensemble members at each timestamp
+ *
+ * @param members - Member series (same horizon)
+ * @returns Percentile points sorted by time ascending; empty if fewer than 2 members
+ */
+export function computeEnsemblePercentiles(
+  members: NormalizedSeries[]
+): EnsemblePercentilePoint[] {
+  if (members.length < 2) return [];
+
+  // Group member values by timestamp
+  const byTime = new Map<string, number[]>();
+  for (const member of members) {
+    for (const point of member.points) {
+      const values = byTime.get(point.t);
+      if (values) {
+        values.push(point.q);
+      } else {
+        byTime.set(point.t, [point.q]);
+      }
+    }
+  }
+
+  const out: EnsemblePercentilePoint[] = [];
+  for (const [t, values] of byTime) {
+    // Skip times where too few members report to describe a spread
+    if (values.length < 2) continue;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    out.push({
+      t,
+      memberCount: sorted.length,
+      p10: percentileOfSorted(sorted, 10),
+      p25: percentileOfSorted(sorted, 25),
+      p50: percentileOfSorted(sorted, 50),
+      p75: percentileOfSorted(sorted, 75),
+      p90: percentileOfSorted(sorted, 90),
+    });
+  }
+
+  out.sort((a, b) => (a.t < b.t ? -1 : a.t > b.t ? 1 : 0));
+  return out;
+}
+
+/**
+ * Percentage of members whose peak flow reaches a threshold
+ *
+ * @param members - Member series (same horizon)
+ * @param thresholdCfs - Threshold in CFS
+ * @returns Exceedance, or null if there are no members
+ */
+export function computeMemberExceedance(
+  members: NormalizedSeries[],
+  thresholdCfs: number
+): Omit<ThresholdExceedance, 'key' | 'threshold'> | null {
+  if (members.length === 0) return null;
+
+  const exceedingMembers = members.filter(m => Math.max(...m.points.map(p => p.q)) >= thresholdCfs).length;
+  return {
+    exceedingMembers,
+    totalMembers: members.length,
+    percent: (exceedingMembers / members.length) * 100,
+  };
+}
+
+/**
+ * Percentage of members whose peak flow reaches each return-period threshold
+ *
+ * @param members - Member series (same horizon)
+ * @param thresholds - Return period thresholds in CFS
+ * @param keys - Which thresholds to evaluate (defaults to all)
+ * @returns Exceedance per threshold; empty if there are no members
+ */
+export function computeThresholdExceedance(
+  members: NormalizedSeries[],
+  thresholds: ReturnPeriodThresholds,
+  keys: Array<keyof ReturnPeriodThresholds> = ['rp2', 'rp5', 'rp10', 'rp25', 'rp50', 'rp100']
+): ThresholdExceedance[] {
+  if (members.length === 0) return [];
+
+  const memberPeaks = members.map(m => Math.max(...m.points.map(p => p.q)));
+
+  return keys.map(key => {
+    const threshold = thresholds[key];
+    const exceedingMembers = memberPeaks.filter(peak => peak >= threshold).length;
+    return {
+      key,
+      threshold,
+      exceedingMembers,
+      totalMembers: memberPeaks.length,
+      percent: (exceedingMembers / memberPeaks.length) * 100,
+    };
+  });
+}
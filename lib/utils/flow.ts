@@ -3,7 +3,41 @@
  * Flow data utilities for extracting current conditions and analyzing time series
  */
 
-import type { NormalizedFlowForecast, NormalizedPoint } from '@/types';
+import type {
+  ForecastIssuance,
+  Horizon,
+  NormalizedFlowForecast,
+  NormalizedPoint,
+  NormalizedSeries,
+  ReturnPeriodThresholds,
+} from '@/types';
+
+/**
+ * Get the mean series of a forecast, dropping ensemble members
+ * Current/peak/stats helpers describe the expected flow, not the ensemble spread
+ * 
+ * @param forecast - Normalized flow forecast data
+ * @returns Series labelled 'mean' (one per horizon)
+ */
+export function getMeanSeries(
+  forecast: NormalizedFlowForecast | undefined
+): NormalizedSeries[] {
+  return forecast?.series?.filter(s => s.label === 'mean') ?? [];
+}
+
+/**
+ * Get the mean forecast series, dropping the Analysis & Assimilation series
+ * A&A holds past assimilated values, so it must not feed the forecast
+ * peak/min/max/mean; only getCurrentFlow uses it, as the current value
+ * 
+ * @param forecast - Normalized flow forecast data
+ * @returns Mean series of the forecast horizons
+ */
+export function getForecastMeanSeries(
+  forecast: NormalizedFlowForecast | undefined
+): NormalizedSeries[] {
+  return getMeanSeries(forecast).filter(s => s.horizon !== 'analysis');
+}
 
 /**
  * Find the flow value for the current hour (not closest point)
@@ -75,10 +109,45 @@ export function getCurrentFlowValue(
   return closestPoint?.q || null;
 }
 
+/**
+ * Maximum age of an assimilated (analysis) value for it to count as "current"
+ * NOAA publishes A&A hourly; older values mean the feed has stalled
+ */
+const ANALYSIS_MAX_AGE_MS = 3 * 60 * 60 * 1000; // 3 hours
+
+/**
+ * Get the latest assimilated (observed/nowcast) flow, if fresh enough
+ * 
+ * @param forecast - Normalized flow forecast data
+ * @param targetTime - Optional target time (defaults to current device time)
+ * @returns Latest analysis value in CFS at or before target time, or null
+ */
+export function getAssimilatedFlow(
+  forecast: NormalizedFlowForecast | undefined,
+  targetTime?: string
+): { flow: number; timestamp: string } | null {
+  const analysis = forecast?.series?.find(s => s.horizon === 'analysis' && s.points.length > 0);
+  if (!analysis) return null;
+
+  const targetMs = targetTime ? new Date(targetTime).getTime() : Date.now();
+
+  // Points are sorted ascending; walk back to the latest one not in the future
+  for (let i = analysis.points.length - 1; i >= 0; i--) {
+    const point = analysis.points[i];
+    const pointMs = new Date(point.t).getTime();
+    if (pointMs > targetMs) continue;
+    if (targetMs - pointMs > ANALYSIS_MAX_AGE_MS) return null;
+    return { flow: point.q, timestamp: point.t };
+  }
+
+  return null;
+}
+
 /**
  * Get current flow from forecast data using current hour logic
  * 
  * Flow Selection Logic:
+ * 0. **Assimilated First**: A fresh Analysis & Assimilation value wins over any forecast
  * 1. **Current Hour Floor**: At 15:56 local time, it floors to 15:00 local time (21:00 UTC)
  * 2. **Exact Match First**: Looks for forecast point with `validTime: "2025-08-18T21:00:00Z"`
  * 3. **Fallback Logic**: If no exact match, finds the most recent point before/at current hour
@@ -91,12 +160,18 @@ export function getCurrentFlow(
   forecast: NormalizedFlowForecast | undefined
 ): number | null {
   if (!forecast?.series?.length) return null;
+
+  // Prefer the assimilated value (closest thing to an observation)
+  const assimilated = getAssimilatedFlow(forecast);
+  if (assimilated) {
+    return assimilated.flow;
+  }
   
   // Prioritize short-range data for current conditions (most accurate for near-term)
-  const prioritizedSeries = forecast.series
+  const prioritizedSeries = getForecastMeanSeries(forecast)
     .filter(s => s.points.length > 0)
     .sort((a, b) => {
-      const priorityMap = { short: 1, medium: 2, long: 3 };
+      const priorityMap = { analysis: 0, short: 1, medium_blend: 2, medium: 3, long: 4 };
       return priorityMap[a.horizon] - priorityMap[b.horizon];
     });
   
@@ -124,7 +199,7 @@ export function getLatestFlow(
   if (!forecast?.series?.length) return null;
   
   // Get all points from all series and find the most recent
-  const allPoints = forecast.series.flatMap(s => s.points);
+  const allPoints = getForecastMeanSeries(forecast).flatMap(s => s.points);
   if (allPoints.length === 0) return null;
   
   // Sort by time descending to get most recent first
@@ -237,10 +312,10 @@ export function getCurrentFlowInterpolated(
   if (!forecast?.series?.length) return null;
   
   // Prioritize short-range data for current conditions
-  const prioritizedSeries = forecast.series
+  const prioritizedSeries = getForecastMeanSeries(forecast)
     .filter(s => s.points.length > 0)
     .sort((a, b) => {
-      const priorityMap = { short: 1, medium: 2, long: 3 };
+      const priorityMap = { analysis: 0, short: 1, medium_blend: 2, medium: 3, long: 4 };
       return priorityMap[a.horizon] - priorityMap[b.horizon];
     });
   
@@ -264,7 +339,7 @@ export function getCurrentFlowInterpolated(
 export function getPeakFlow(forecast: NormalizedFlowForecast | undefined): number | null {
   if (!forecast?.series?.length) return null;
   
-  const allPoints = forecast.series.flatMap(s => s.points);
+  const allPoints = getForecastMeanSeries(forecast).flatMap(s => s.points);
   if (allPoints.length === 0) return null;
   
   return Math.max(...allPoints.map(p => p.q));
@@ -288,7 +363,7 @@ export function getFlowStats(forecast: NormalizedFlowForecast | undefined) {
     };
   }
   
-  const allPoints = forecast.series.flatMap(s => s.points);
+  const allPoints = getForecastMeanSeries(forecast).flatMap(s => s.points);
   if (allPoints.length === 0) {
     return {
       min: null,
@@ -311,4 +386,210 @@ export function getFlowStats(forecast: NormalizedFlowForecast | undefined) {
     latest: getLatestFlow(forecast),
     pointCount: allPoints.length
   };
-}
\ No newline at end of file
+}
+
+// ========================================
+// Threshold Crossing Analysis
+// ========================================
+
+const ALL_RETURN_PERIODS: Array<keyof ReturnPeriodThresholds> = ['rp2', 'rp5', 'rp10', 'rp25', 'rp50', 'rp100'];
+
+export interface ThresholdCrossing {
+  /** Return period key (e.g., 'rp10') */
+  key: keyof ReturnPeriodThresholds;
+  /** Threshold in CFS */
+  threshold: number;
+  /** ISO time flow first reaches the threshold (start of the series if already above) */
+  firstCrossing: string | null;
+  /** ISO time flow drops back below after its last exceedance (null if never above or still above at the end) */
+  recession: string | null;
+  /** Total hours at or above the threshold within the series */
+  hoursAbove: number;
+  /** Flow is at/above the threshold at the first point */
+  aboveAtStart: boolean;
+  /** Flow is still at/above the threshold at the last point */
+  aboveAtEnd: boolean;
+}
+
+export interface HorizonThresholdAnalysis {
+  horizon: Horizon;
+  /** Peak flow in CFS and when it occurs */
+  peakFlow: number | null;
+  peakTime: string | null;
+  /** One entry per requested threshold, lowest first */
+  crossings: ThresholdCrossing[];
+}
+
+/**
+ * Linear-interpolated time (ms) where a segment reaches a flow value
+ */
+function interpolateCrossingTime(a: NormalizedPoint, b: NormalizedPoint, threshold: number): number {
+  const ta = new Date(a.t).getTime();
+  const tb = new Date(b.t).getTime();
+  if (b.q === a.q) return ta;
+  return ta + ((threshold - a.q) / (b.q - a.q)) * (tb - ta);
+}
+
+/**
+ * Crossing times and duration above one threshold, interpolating between points
+ * 
+ * @param points - Time-sorted points
+ * @param key - Return period key
+ * @param threshold - Threshold in CFS
+ * @returns Crossing summary for the threshold
+ */
+export function analyzeThresholdCrossing(
+  points: NormalizedPoint[],
+  key: keyof ReturnPeriodThresholds,
+  threshold: number
+): ThresholdCrossing {
+  const result: ThresholdCrossing = {
+    key,
+    threshold,
+    firstCrossing: null,
+    recession: null,
+    hoursAbove: 0,
+    aboveAtStart: points.length > 0 && points[0].q >= threshold,
+    aboveAtEnd: points.length > 0 && points[points.length - 1].q >= threshold,
+  };
+
+  if (points.length === 0) return result;
+  if (result.aboveAtStart) result.firstCrossing = points[0].t;
+
+  let msAbove = 0;
+  let lastRecession: number | null = null;
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const ta = new Date(a.t).getTime();
+    const tb = new Date(b.t).getTime();
+    const aAbove = a.q >= threshold;
+    const bAbove = b.q >= threshold;
+
+    if (aAbove && bAbove) {
+      msAbove += tb - ta;
+    } else if (!aAbove && bAbove) {
+      const tc = interpolateCrossingTime(a, b, threshold);
+      msAbove += tb - tc;
+      if (!result.firstCrossing) result.firstCrossing = new Date(tc).toISOString();
+    } else if (aAbove && !bAbove) {
+      const tr = interpolateCrossingTime(a, b, threshold);
+      msAbove += tr - ta;
+      lastRecession = tr;
+    }
+  }
+
+  result.hoursAbove = msAbove / (60 * 60 * 1000);
+  if (!result.aboveAtEnd && lastRecession !== null) {
+    result.recession = new Date(lastRecession).toISOString();
+  }
+
+  return result;
+}
+
+/**
+ * When each horizon crosses each return period, and for how long
+ * Uses the mean series of every forecast horizon (analysis and ensemble members excluded)
+ * 
+ * @param forecast - Normalized flow forecast data
+ * @param thresholds - Return period thresholds in CFS
+ * @param keys - Thresholds to analyze (defaults to all)
+ * @returns One analysis per horizon, in forecast order
+ */
+export function getThresholdCrossings(
+  forecast: NormalizedFlowForecast | undefined,
+  thresholds: ReturnPeriodThresholds | null | undefined,
+  keys: Array<keyof ReturnPeriodThresholds> = ALL_RETURN_PERIODS
+): HorizonThresholdAnalysis[] {
+  if (!thresholds) return [];
+
+  return getForecastMeanSeries(forecast)
+    .filter(series => series.points.length > 0)
+    .map(series => {
+      const peak = series.points.reduce((max, p) => (p.q > max.q ? p : max), series.points[0]);
+      return {
+        horizon: series.horizon,
+        peakFlow: peak.q,
+        peakTime: peak.t,
+        crossings: keys
+          .map(key => analyzeThresholdCrossing(series.points, key, thresholds[key]))
+          .sort((a, b) => a.threshold - b.threshold),
+      };
+    });
+}
+
+// ========================================
+// Run-to-Run Comparison
+// ========================================
+
+/** Relative peak change (latest vs previous run) below which the trend is 'steady' */
+const STEADY_PEAK_CHANGE = 0.05;
+
+export interface IssuancePeak {
+  /** Model issuance time */
+  referenceTime: string;
+  peakFlow: number;
+  peakTime: string;
+}
+
+export interface IssuancePeakTrend {
+  /** Peak of each issuance, oldest first */
+  peaks: IssuancePeak[];
+  /** Direction of the latest run's peak vs the previous run (null with fewer than two runs) */
+  trend: 'rising' | 'falling' | 'steady' | null;
+  /** Latest vs previous peak, percent (null with fewer than two runs) */
+  changePercent: number | null;
+}
+
+/**
+ * How the forecast peak moved between successive model runs
+ * 
+ * @param issuances - Archived issuances in any order
+ * @returns Peaks oldest first plus the latest run-to-run trend
+ */
+export function getIssuancePeakTrend(issuances: ForecastIssuance[]): IssuancePeakTrend {
+  const peaks = issuances
+    .filter(issuance => issuance.points.length > 0)
+    .map(issuance => {
+      const peak = issuance.points.reduce((max, p) => (p.q > max.q ? p : max), issuance.points[0]);
+      return { referenceTime: issuance.referenceTime, peakFlow: peak.q, peakTime: peak.t };
+    })
+    .sort((a, b) => a.referenceTime.localeCompare(b.referenceTime));
+
+  if (peaks.length < 2) return { peaks, trend: null, changePercent: null };
+
+  const latest = peaks[peaks.length - 1].peakFlow;
+  const previous = peaks[peaks.length - 2].peakFlow;
+  const change = previous > 0 ? (latest - previous) / previous : 0;
+
+  return {
+    peaks,
+    trend: Math.abs(change) < STEADY_PEAK_CHANGE ? 'steady' : change > 0 ? 'rising' : 'falling',
+    changePercent: change * 100,
+  };
+}
+
+/**
+ * Time extent (epoch ms) covered by forecasts and observations
+ * Lets charts plotted alongside the hydrograph (e.g. precipitation) share its time axis.
+ * 
+ * @param forecasts - Forecasts whose mean series are plotted (analysis and undefined entries skipped)
+ * @param observations - Extra plotted points, e.g. gauge observations
+ * @returns [first, last] timestamp, or null when there are no points
+ */
+export function getForecastTimeDomain(
+  forecasts: Array<NormalizedFlowForecast | undefined>,
+  observations: NormalizedPoint[] = []
+): [number, number] | null {
+  const times = [
+    ...forecasts.flatMap(forecast => getForecastMeanSeries(forecast).flatMap(series => series.points)),
+    ...observations,
+  ]
+    .map(point => new Date(point.t).getTime())
+    .filter(time => !isNaN(time));
+
+  if (times.length === 0) return null;
+
+  return [Math.min(...times), Math.max(...times)];
+}
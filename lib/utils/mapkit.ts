@@ -0,0 +1,147 @@
+// lib/utils/mapkit.ts
+/**
+ * Apple MapKit JS helpers (browser only)
+ * Loads MapKit JS once per page, authorizes it with tokens from /api/mapkit/token,
+ * and maps HydroDash map preferences onto MapKit options.
+ */
+
+import type { MapKitToken } from '@/services/mapKitService';
+import type { BaseMapLayer } from '@/types/models/UserPreferences';
+import { readApiResponse } from '@/lib/utils/apiErrors';
+
+const MAPKIT_SCRIPT_URL = 'https://cdn.apple-mapkit.com/mk/5.x.x/mapkit.core.js';
+const MAPKIT_LIBRARIES = 'map,overlays';
+const LOADED_CALLBACK = '__hydrodashMapKitLoaded';
+
+let mapKitPromise: Promise<typeof mapkit> | null = null;
+
+/**
+ * Fetch a signed MapKit JS token from our API
+ *
+ * @throws ApiRequestError (NOT_CONFIGURED when the server has no Maps key)
+ */
+export async function fetchMapKitToken(): Promise<string> {
+  const response = await fetch('/api/mapkit/token', {
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
+  const { token } = await readApiResponse<MapKitToken>(response, 'Failed to fetch MapKit token');
+  return token;
+}
+
+/**
+ * Load and initialize MapKit JS (shared by every map on the page)
+ *
+ * A token is fetched before the script loads so a server without a Maps key
+ * fails fast with NOT_CONFIGURED instead of an unauthorized blank map.
+ *
+ * @returns The global `mapkit` namespace
+ * @throws ApiRequestError when no token can be issued, Error when the script fails to load
+ */
+export function loadMapKit(): Promise<typeof mapkit> {
+  if (mapKitPromise) return mapKitPromise;
+
+  mapKitPromise = (async () => {
+    if (typeof window === 'undefined') {
+      throw new Error('MapKit JS can only be loaded in the browser');
+    }
+
+    let firstToken: string | null = await fetchMapKitToken();
+
+    await new Promise<void>((resolve, reject) => {
+      const callbacks = window as unknown as Record<string, (() => void) | undefined>;
+      callbacks[LOADED_CALLBACK] = () => {
+        delete callbacks[LOADED_CALLBACK];
+        resolve();
+      };
+
+      const script = document.createElement('script');
+      script.src = MAPKIT_SCRIPT_URL;
+      script.crossOrigin = 'anonymous';
+      script.async = true;
+      script.dataset.libraries = MAPKIT_LIBRARIES;
+      script.dataset.callback = LOADED_CALLBACK;
+      script.onerror = () => reject(new Error('Failed to load MapKit JS'));
+      document.head.appendChild(script);
+    });
+
+    mapkit.init({
+      authorizationCallback: (done) => {
+        // Reuse the token fetched above once; MapKit asks again when it expires
+        if (firstToken) {
+          done(firstToken);
+          firstToken = null;
+          return;
+        }
+        fetchMapKitToken()
+          .then(done)
+          .catch(error => console.error('❌ Failed to refresh MapKit token:', error));
+      },
+    });
+
+    mapkit.addEventListener('error', (event) => {
+      console.error(`❌ MapKit JS error: ${event.status}`);
+    });
+
+    return mapkit;
+  })();
+
+  // Allow a retry after a failed load
+  mapKitPromise.catch(() => {
+    mapKitPromise = null;
+  });
+
+  return mapKitPromise;
+}
+
+/**
+ * HydroDash base layer → MapKit map type and color scheme
+ */
+export function getMapKitStyle(
+  mk: typeof mapkit,
+  baseLayer: BaseMapLayer = 'standard'
+): { mapType: string; colorScheme: string } {
+  const { MapTypes, ColorSchemes } = mk.Map;
+
+  switch (baseLayer) {
+    case 'satellite':
+      return { mapType: MapTypes.Satellite, colorScheme: ColorSchemes.Light };
+    case 'satelliteStreets':
+      return { mapType: MapTypes.Hybrid, colorScheme: ColorSchemes.Light };
+    case 'light':
+      return { mapType: MapTypes.MutedStandard, colorScheme: ColorSchemes.Light };
+    case 'dark':
+      return { mapType: MapTypes.MutedStandard, colorScheme: ColorSchemes.Dark };
+    default:
+      // MapKit has no separate streets/outdoors styles
+      return { mapType: MapTypes.Standard, colorScheme: ColorSchemes.Light };
+  }
+}
+
+/**
+ * Region showing roughly what a Mapbox zoom level shows in a container
+ *
+ * @param mk - The mapkit namespace
+ * @param lat - Center latitude
+ * @param lon - Center longitude
+ * @param zoom - Web Mercator zoom (512 px tiles, as Mapbox GL)
+ * @param size - Container size in pixels
+ */
+export function getRegionForZoom(
+  mk: typeof mapkit,
+  lat: number,
+  lon: number,
+  zoom: number,
+  size: { width: number; height: number }
+): mapkit.CoordinateRegion {
+  const width = Math.max(size.width, 1);
+  const height = Math.max(size.height, 1);
+  const longitudeDelta = (360 * width) / (512 * 2 ** zoom);
+  const latitudeDelta = longitudeDelta * (height / width) * Math.cos((lat * Math.PI) / 180);
+
+  return new mk.CoordinateRegion(
+    new mk.Coordinate(lat, lon),
+    new mk.CoordinateSpan(latitudeDelta, longitudeDelta)
+  );
+}
@@ -4,15 +4,21 @@
 // Keep provider-specific quirks inside small helpers so swapping sources later is easy.
 
 import type {
+  AnalysisAssimilationForecast,
   Horizon,
   NormalizedFlowForecast,
   NormalizedPoint,
+  NormalizedSeries,
   ReturnPeriodRow,
   ReturnPeriodThresholds,
   ReachReturnPeriods,
   ReachId,
+  WeatherDay,
+  WeatherForecast,
+  WeatherKitResponse,
+  WeatherPoint,
 } from '@/types';
-import { cmsToCfs } from './units';
+import { cmsToCfs, cfsToCms, toCfs } from './units';
 import { toReachId } from './ids';
 
 // ---------- Small safe parsers ----------
@@ -105,11 +111,12 @@ export function normalizeNoaaPoints(raw: RawNoaaSeries): NormalizedPoint[] {
 
 /**
  * Build a NormalizedFlowForecast from one or more raw series.
- * Pass each horizon + label + raw payload you fetched.
+ * Pass each horizon + label + raw payload you fetched, plus the model
+ * issuance (`referenceTime`) when the provider reports one.
  */
 export function buildNormalizedForecast(
   reachIdInput: string | number | ReachId,
-  seriesInput: Array<{ horizon: Horizon; label: 'mean' | `member${number}`; raw: any }>
+  seriesInput: Array<{ horizon: Horizon; label: 'mean' | `member${number}`; raw: any; referenceTime?: string }>
 ): NormalizedFlowForecast {
   const reachId = typeof reachIdInput === 'string' || typeof reachIdInput === 'number'
     ? toReachId(reachIdInput)
@@ -117,11 +124,43 @@ export function buildNormalizedForecast(
 
   return {
     reachId,
-    series: seriesInput.map(({ horizon, label, raw }) => ({
-      horizon,
-      label,
-      points: normalizeNoaaPoints(raw),
+    series: seriesInput.map(({ horizon, label, raw, referenceTime }) => {
+      const issued = referenceTime ? toISO(referenceTime) : '';
+      return {
+        horizon,
+        label,
+        ...(issued ? { referenceTime: issued } : {}),
+        points: normalizeNoaaPoints(raw),
+      };
+    }),
+  };
+}
+
+/**
+ * Normalize the NOAA Analysis & Assimilation block (observed/nowcast) → 'analysis' series.
+ * NWPS reports it like short range (`.series.data[]`); units are usually ft³/s.
+ * Returns null when the block is missing or has no valid points.
+ */
+export function normalizeAnalysisAssimilation(
+  raw: AnalysisAssimilationForecast | undefined
+): NormalizedSeries | null {
+  const series = raw?.series;
+  if (!series?.data?.length) return null;
+
+  const points = normalizeNoaaPoints({
+    points: series.data.map(p => ({
+      time: p.validTime,
+      flow_cms: cfsToCms(toCfs(p.flow, series.units)),
     })),
+  });
+
+  if (points.length === 0) return null;
+  const referenceTime = series.referenceTime ? toISO(series.referenceTime) : '';
+  return {
+    horizon: 'analysis',
+    label: 'mean',
+    ...(referenceTime ? { referenceTime } : {}),
+    points,
   };
 }
 
@@ -156,11 +195,77 @@ export function normalizeReturnPeriods(
     }));
 }
 
-// ---------- (Placeholder) Weather normalization skeleton ----------
-// When you add WeatherKit, mirror the NOAA approach and keep the surface small.
-//
-// type RawWeather = { hourly?: Array<{ time: string; temperature_c?: number; ... }> };
+// ---------- WeatherKit normalization ----------
 //
-// export function normalizeWeather(raw: RawWeather): WeatherForecast {
-//   // Convert to your WeatherForecast types (keep ISO strings, convert units here).
-// }
+// WeatherKit already reports metric units (°C, mm, km/h); chances come as 0-1
+// and become percentages. Missing or non-numeric fields are left undefined.
+
+/** Finite number or undefined (optional weather fields). */
+function optionalNumber(value: unknown): number | undefined {
+  const n = toNumber(value);
+  return Number.isNaN(n) ? undefined : n;
+}
+
+/** 0-1 probability → 0-100 percentage. */
+function toPercent(value: unknown): number | undefined {
+  const n = optionalNumber(value);
+  return n === undefined ? undefined : Math.round(n * 100);
+}
+
+/**
+ * Normalize a WeatherKit `weather/{lang}/{lat}/{lon}` response.
+ * Hours and days without a valid start time are dropped; both are sorted by time.
+ */
+export function normalizeWeather(
+  raw: WeatherKitResponse,
+  location: { lat: number; lon: number }
+): WeatherForecast {
+  const current = raw.currentWeather;
+  const currentTime = current ? toISO(current.asOf) : '';
+
+  const hourly: WeatherPoint[] = (raw.forecastHourly?.hours ?? [])
+    .map(hour => ({
+      time: toISO(hour.forecastStart),
+      temperatureC: optionalNumber(hour.temperature),
+      precipitationMm: optionalNumber(hour.precipitationAmount),
+      precipitationChance: toPercent(hour.precipitationChance),
+      conditionCode: hour.conditionCode,
+      uvIndex: optionalNumber(hour.uvIndex),
+      windKph: optionalNumber(hour.windSpeed),
+      windDirectionDeg: optionalNumber(hour.windDirection),
+    }))
+    .filter(p => p.time)
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  const daily: WeatherDay[] = (raw.forecastDaily?.days ?? [])
+    .map(day => ({
+      date: toISO(day.forecastStart),
+      conditionCode: day.conditionCode,
+      temperatureMaxC: optionalNumber(day.temperatureMax),
+      temperatureMinC: optionalNumber(day.temperatureMin),
+      precipitationMm: optionalNumber(day.precipitationAmount),
+      precipitationChance: toPercent(day.precipitationChance),
+      uvIndexMax: optionalNumber(day.maxUvIndex),
+    }))
+    .filter(d => d.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    location,
+    current: current && currentTime
+      ? {
+          time: currentTime,
+          temperatureC: optionalNumber(current.temperature),
+          precipitationMm: optionalNumber(current.precipitationIntensity),
+          conditionCode: current.conditionCode,
+          uvIndex: optionalNumber(current.uvIndex),
+          windKph: optionalNumber(current.windSpeed),
+          windDirectionDeg: optionalNumber(current.windDirection),
+        }
+      : null,
+    hourly,
+    daily,
+    issuedAt: toISO(current?.metadata?.readTime ?? raw.forecastHourly?.metadata?.readTime) || new Date().toISOString(),
+    provider: 'weatherkit',
+  };
+}
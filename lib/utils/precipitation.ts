@@ -0,0 +1,80 @@
+// lib/utils/precipitation.ts
+/**
+ * Precipitation utilities: daily totals in a local timezone, past/forecast
+ * totals and running (cumulative) totals for charting
+ */
+
+import type { PrecipitationDay, PrecipitationPoint } from '@/types';
+
+/** Round to 0.1 mm (what gauges and forecasts resolve) */
+export function roundMm(mm: number): number {
+  return Math.round(mm * 10) / 10;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDate(iso: string, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(iso));
+}
+
+/**
+ * Sum hourly precipitation into local calendar days
+ *
+ * @param hourly - Hourly points sorted by time
+ * @param timezone - IANA timezone defining the days
+ * @returns One entry per day touched by the window, in order
+ */
+export function toDailyTotals(hourly: PrecipitationPoint[], timezone: string): PrecipitationDay[] {
+  const days = new Map<string, PrecipitationDay>();
+
+  for (const point of hourly) {
+    const date = getLocalDate(point.t, timezone);
+    const day = days.get(date);
+    if (day) day.mm += point.mm;
+    else days.set(date, { date, start: point.t, mm: point.mm });
+  }
+
+  return Array.from(days.values()).map(day => ({ ...day, mm: roundMm(day.mm) }));
+}
+
+/**
+ * Totals before and from `now` (the hour containing `now` counts as forecast)
+ */
+export function splitTotals(
+  hourly: PrecipitationPoint[],
+  now: Date = new Date()
+): { pastTotalMm: number; forecastTotalMm: number } {
+  const currentHour = new Date(now);
+  currentHour.setUTCMinutes(0, 0, 0);
+  const cutoff = currentHour.toISOString();
+
+  let past = 0;
+  let forecast = 0;
+  for (const point of hourly) {
+    if (new Date(point.t).toISOString() < cutoff) past += point.mm;
+    else forecast += point.mm;
+  }
+
+  return { pastTotalMm: roundMm(past), forecastTotalMm: roundMm(forecast) };
+}
+
+/**
+ * Running total of precipitation over a series
+ *
+ * @param points - Points sorted by time (hourly or daily amounts)
+ * @returns Cumulative mm after each point, same order
+ */
+export function getCumulativeTotals<T extends { mm: number }>(points: T[]): Array<T & { cumulativeMm: number }> {
+  let total = 0;
+  return points.map(point => {
+    total += point.mm;
+    return { ...point, cumulativeMm: roundMm(total) };
+  });
+}
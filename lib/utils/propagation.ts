@@ -0,0 +1,150 @@
+// lib/utils/propagation.ts
+/**
+ * Flood wave propagation utilities
+ * Tracks when each reach along a downstream route peaks and how its risk level
+ * changes through the short-range forecast, relative to the reach being watched
+ */
+
+import type {
+  NormalizedFlowForecast,
+  NormalizedPoint,
+  ReachId,
+  ReachNetwork,
+  ReturnPeriodThresholds,
+  RiskLevel,
+  RiskProfile,
+} from '@/types';
+import { computeRisk, DEFAULT_RISK_PROFILE } from '@/lib/utils/riskCalculator';
+
+const RISK_ORDER: RiskLevel[] = ['normal', 'elevated', 'high', 'flood'];
+
+export interface RiskChange {
+  /** ISO timestamp the level starts */
+  t: string;
+  level: RiskLevel;
+}
+
+export interface PropagationRow {
+  reachId: ReachId;
+  name?: string;
+  /** Hops below the watched reach (0 = the watched reach itself) */
+  depth: number;
+  peakFlow: number | null;
+  /** ISO timestamp of the forecast peak */
+  peakTime: string | null;
+  /** Hours between the watched reach's peak and this reach's peak */
+  lagHours: number | null;
+  /** Risk at the first forecast step (null without thresholds) */
+  initialRisk: RiskLevel | null;
+  /** Highest risk reached during the forecast */
+  maxRisk: RiskLevel | null;
+  /** Level transitions in time order, starting with the first step */
+  riskChanges: RiskChange[];
+}
+
+/**
+ * Short-range mean points for a forecast, sorted by time
+ */
+function getShortRangePoints(forecast: NormalizedFlowForecast | undefined): NormalizedPoint[] {
+  const series = forecast?.series?.find(s => s.horizon === 'short' && s.label === 'mean');
+  return series?.points ?? [];
+}
+
+/**
+ * Find the forecast peak and when it occurs (first time if flat-topped)
+ *
+ * @param points - Time-sorted points
+ * @returns Peak flow in CFS and its timestamp, or nulls if no data
+ */
+export function getPeakTiming(points: NormalizedPoint[]): { peakFlow: number | null; peakTime: string | null } {
+  if (points.length === 0) return { peakFlow: null, peakTime: null };
+
+  let peak = points[0];
+  for (const point of points) {
+    if (point.q > peak.q) peak = point;
+  }
+  return { peakFlow: peak.q, peakTime: peak.t };
+}
+
+/**
+ * Collapse a forecast into the times its risk level changes
+ *
+ * @param points - Time-sorted points
+ * @param thresholds - Return period thresholds in CFS
+ * @param profile - Risk profile to classify with
+ * @returns One entry per level change, starting with the first step
+ */
+export function getRiskChanges(
+  points: NormalizedPoint[],
+  thresholds: ReturnPeriodThresholds,
+  profile: RiskProfile = DEFAULT_RISK_PROFILE
+): RiskChange[] {
+  const changes: RiskChange[] = [];
+  for (const point of points) {
+    const level = computeRisk(point.q, thresholds, profile);
+    if (changes.length === 0 || changes[changes.length - 1].level !== level) {
+      changes.push({ t: point.t, level });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Highest of a set of risk levels
+ */
+export function getMaxRisk(levels: RiskLevel[]): RiskLevel | null {
+  if (levels.length === 0) return null;
+  return levels.reduce((max, level) =>
+    RISK_ORDER.indexOf(level) > RISK_ORDER.indexOf(max) ? level : max
+  );
+}
+
+/**
+ * Build one row per reach, from the watched reach down the route
+ *
+ * @param network - Downstream network rooted at the watched reach
+ * @param forecasts - Short-range forecasts keyed by reachId
+ * @param thresholds - Return period thresholds keyed by reachId
+ * @param rootName - Display name of the watched reach
+ * @param getProfile - Risk profile per reach (defaults to the default profile)
+ * @returns Rows in route order (watched reach first)
+ */
+export function buildPropagationRows(
+  network: ReachNetwork,
+  forecasts: Record<string, NormalizedFlowForecast | undefined>,
+  thresholds: Record<string, ReturnPeriodThresholds | undefined>,
+  rootName?: string,
+  getProfile: (reachId: ReachId) => RiskProfile = () => DEFAULT_RISK_PROFILE
+): PropagationRow[] {
+  const reaches = [
+    { reachId: network.rootReachId, name: rootName, depth: 0 },
+    ...network.nodes.map(node => ({ reachId: node.reachId, name: node.name, depth: node.depth })),
+  ];
+
+  const rows = reaches.map(reach => {
+    const points = getShortRangePoints(forecasts[reach.reachId]);
+    const { peakFlow, peakTime } = getPeakTiming(points);
+    const rp = thresholds[reach.reachId];
+    const riskChanges = rp ? getRiskChanges(points, rp, getProfile(reach.reachId)) : [];
+
+    return {
+      ...reach,
+      peakFlow,
+      peakTime,
+      lagHours: null as number | null,
+      initialRisk: riskChanges[0]?.level ?? null,
+      maxRisk: getMaxRisk(riskChanges.map(c => c.level)),
+      riskChanges,
+    };
+  });
+
+  // Lag relative to the watched reach's peak
+  const rootPeak = rows[0].peakTime ? new Date(rows[0].peakTime).getTime() : null;
+  rows.forEach(row => {
+    if (rootPeak !== null && row.peakTime) {
+      row.lagHours = (new Date(row.peakTime).getTime() - rootPeak) / (60 * 60 * 1000);
+    }
+  });
+
+  return rows;
+}
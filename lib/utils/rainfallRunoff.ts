@@ -0,0 +1,237 @@
+// lib/utils/rainfallRunoff.ts
+/**
+ * Rainfall–runoff lag utilities
+ * Cross-correlates hourly rain with discharge to find how long the reach takes
+ * to respond, and measures the lag from the biggest rain peak to the flow peak
+ * that follows it. Both series are NormalizedPoint (rain uses q = mm).
+ */
+
+import type { LagCorrelation, LagStrength, NormalizedPoint } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Longest lag tried: beyond three days rain and flow rarely relate on one reach */
+export const MAX_LAG_HOURS = 72;
+
+/** Fewest paired hours a lag needs to be scored */
+const MIN_PAIRED_HOURS = 24;
+
+/** Less rain than this over the window isn't a signal worth correlating, mm */
+const MIN_TOTAL_RAIN_MM = 2;
+
+/** Correlation thresholds for LagStrength */
+const STRONG_CORRELATION = 0.6;
+const MODERATE_CORRELATION = 0.3;
+
+export interface LagAnalysis {
+  lagHours: number | null;
+  correlation: number | null;
+  strength: LagStrength | null;
+  rainPeak: NormalizedPoint | null;
+  flowPeak: NormalizedPoint | null;
+  peakLagHours: number | null;
+  correlogram: LagCorrelation[];
+  overlapHours: number;
+}
+
+/**
+ * Average points into hourly bins
+ *
+ * @param points - Points in any order
+ * @returns Hour start (epoch ms) → mean value in that hour
+ */
+export function toHourlyValues(points: NormalizedPoint[]): Map<number, number> {
+  const sums = new Map<number, { sum: number; count: number }>();
+
+  for (const point of points) {
+    const time = new Date(point.t).getTime();
+    if (isNaN(time) || !Number.isFinite(point.q)) continue;
+
+    const hour = Math.floor(time / HOUR_MS) * HOUR_MS;
+    const bin = sums.get(hour) ?? { sum: 0, count: 0 };
+    bin.sum += point.q;
+    bin.count += 1;
+    sums.set(hour, bin);
+  }
+
+  return new Map(Array.from(sums, ([hour, { sum, count }]) => [hour, sum / count]));
+}
+
+/**
+ * Combine overlapping series into one hourly series
+ * Earlier series win where they share an hour (e.g. analysis, then short range,
+ * then medium range); hours between points (e.g. 6-hourly medium range) are
+ * linearly interpolated so every lag can be paired.
+ *
+ * @param series - Series in priority order
+ * @returns One point per hour, sorted by time
+ */
+export function mergeHourlySeries(...series: NormalizedPoint[][]): NormalizedPoint[] {
+  const merged = new Map<number, number>();
+
+  for (const points of series) {
+    toHourlyValues(points).forEach((value, hour) => {
+      if (!merged.has(hour)) merged.set(hour, value);
+    });
+  }
+
+  const sorted = Array.from(merged).sort(([a], [b]) => a - b);
+  const result: NormalizedPoint[] = [];
+
+  sorted.forEach(([hour, q], index) => {
+    result.push({ t: new Date(hour).toISOString(), q });
+
+    const next = sorted[index + 1];
+    if (!next) return;
+    const [nextHour, nextQ] = next;
+    for (let fill = hour + HOUR_MS; fill < nextHour; fill += HOUR_MS) {
+      const fraction = (fill - hour) / (nextHour - hour);
+      result.push({ t: new Date(fill).toISOString(), q: q + (nextQ - q) * fraction });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Correlation of rain with flow `lag` hours later, for each lag 0..maxLagHours
+ *
+ * @param rain - Hourly rain (q = mm)
+ * @param flow - Discharge (q = CFS)
+ * @param maxLagHours - Longest lag tried
+ * @returns Scored lags (lags with too few pairs or constant data are omitted)
+ */
+export function crossCorrelate(
+  rain: NormalizedPoint[],
+  flow: NormalizedPoint[],
+  maxLagHours: number = MAX_LAG_HOURS
+): LagCorrelation[] {
+  const rainByHour = toHourlyValues(rain);
+  const flowByHour = toHourlyValues(flow);
+  const results: LagCorrelation[] = [];
+
+  for (let lag = 0; lag <= maxLagHours; lag++) {
+    const xs: number[] = [];
+    const ys: number[] = [];
+
+    rainByHour.forEach((mm, hour) => {
+      const q = flowByHour.get(hour + lag * HOUR_MS);
+      if (q === undefined) return;
+      xs.push(mm);
+      ys.push(q);
+    });
+
+    if (xs.length < MIN_PAIRED_HOURS) continue;
+
+    const r = pearson(xs, ys);
+    if (r !== null) results.push({ lagHours: lag, r, sampleCount: xs.length });
+  }
+
+  return results;
+}
+
+/**
+ * Typical lag from rain to flow response for a reach
+ *
+ * The lag is where rain best predicts later flow (peak of the correlogram).
+ * The peak-to-peak lag from the largest rain hour to the highest flow within
+ * maxLagHours after it is reported alongside as a sanity check.
+ *
+ * @param rain - Hourly rain at the place (q = mm)
+ * @param flow - Discharge for the reach (q = CFS)
+ * @param maxLagHours - Longest lag tried
+ * @returns Lag analysis (lag fields null when there's too little rain or overlap)
+ */
+export function analyzeRainfallRunoffLag(
+  rain: NormalizedPoint[],
+  flow: NormalizedPoint[],
+  maxLagHours: number = MAX_LAG_HOURS
+): LagAnalysis {
+  const rainByHour = toHourlyValues(rain);
+  const flowByHour = toHourlyValues(flow);
+
+  const overlapHours = Array.from(rainByHour.keys()).filter(hour => flowByHour.has(hour)).length;
+  const totalRain = Array.from(rainByHour.values()).reduce((sum, mm) => sum + mm, 0);
+
+  const empty: LagAnalysis = {
+    lagHours: null,
+    correlation: null,
+    strength: null,
+    rainPeak: null,
+    flowPeak: null,
+    peakLagHours: null,
+    correlogram: [],
+    overlapHours,
+  };
+
+  if (totalRain < MIN_TOTAL_RAIN_MM) return empty;
+
+  const correlogram = crossCorrelate(rain, flow, maxLagHours);
+  const best = correlogram.reduce<LagCorrelation | null>(
+    (max, entry) => (max === null || entry.r > max.r ? entry : max),
+    null
+  );
+
+  // Peak to peak: largest rain hour that still has flow after it
+  let rainPeakHour: number | null = null;
+  for (const [hour, mm] of rainByHour) {
+    if (!flowByHour.has(hour) && !flowByHour.has(hour + HOUR_MS)) continue;
+    if (mm > 0 && (rainPeakHour === null || mm > rainByHour.get(rainPeakHour)!)) rainPeakHour = hour;
+  }
+
+  let flowPeakHour: number | null = null;
+  if (rainPeakHour !== null) {
+    for (const [hour, q] of flowByHour) {
+      if (hour < rainPeakHour || hour > rainPeakHour + maxLagHours * HOUR_MS) continue;
+      if (flowPeakHour === null || q > flowByHour.get(flowPeakHour)!) flowPeakHour = hour;
+    }
+  }
+
+  const toPoint = (hour: number | null, values: Map<number, number>): NormalizedPoint | null =>
+    hour === null ? null : { t: new Date(hour).toISOString(), q: values.get(hour)! };
+
+  return {
+    ...empty,
+    lagHours: best && best.r > 0 ? best.lagHours : null,
+    correlation: best && best.r > 0 ? best.r : null,
+    strength: best && best.r > 0 ? getLagStrength(best.r) : null,
+    rainPeak: toPoint(rainPeakHour, rainByHour),
+    flowPeak: toPoint(flowPeakHour, flowByHour),
+    peakLagHours: rainPeakHour !== null && flowPeakHour !== null
+      ? (flowPeakHour - rainPeakHour) / HOUR_MS
+      : null,
+    correlogram,
+  };
+}
+
+/**
+ * Strength label for a correlation coefficient
+ */
+export function getLagStrength(r: number): LagStrength {
+  if (r >= STRONG_CORRELATION) return 'strong';
+  if (r >= MODERATE_CORRELATION) return 'moderate';
+  return 'weak';
+}
+
+/**
+ * Pearson correlation, or null when either series is constant
+ */
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
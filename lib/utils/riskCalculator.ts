@@ -1,9 +1,123 @@
 // lib/utils/riskCalculator.ts
-import type { RiskLevel, ReturnPeriodThresholds } from '@/types';
+/**
+ * Risk classification from flow + thresholds, driven by a RiskProfile
+ * The default profile keeps the original cut-offs: rp2 → elevated, rp10 → high, rp25 → flood
+ */
 
-export function computeRisk(qCfs: number, rp: ReturnPeriodThresholds): RiskLevel {
-  if (qCfs >= rp.rp25) return 'flood';
-  if (qCfs >= rp.rp10)  return 'high';
-  if (qCfs >= rp.rp2)   return 'elevated';
-  return 'normal';
+import type {
+  RiskLevel,
+  ReturnPeriodThresholds,
+  RiskProfile,
+  RiskRule,
+  RiskThreshold,
+  RiskAssessment,
+  UserPreferences,
+} from '@/types';
+
+export const DEFAULT_RISK_PROFILE: RiskProfile = {
+  id: 'default',
+  name: 'Return periods (default)',
+  rules: [
+    { level: 'elevated', threshold: { type: 'returnPeriod', returnPeriod: 'rp2' } },
+    { level: 'high', threshold: { type: 'returnPeriod', returnPeriod: 'rp10' } },
+    { level: 'flood', threshold: { type: 'returnPeriod', returnPeriod: 'rp25' } },
+  ],
+};
+
+const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  normal: 'Normal',
+  elevated: 'Elevated',
+  high: 'High',
+  flood: 'Flood',
+};
+
+/**
+ * Resolve a rule threshold to CFS
+ *
+ * @returns CFS value, or null when it needs return periods that aren't available
+ */
+export function resolveThreshold(
+  threshold: RiskThreshold,
+  rp: ReturnPeriodThresholds | null | undefined
+): number | null {
+  if (threshold.type === 'absolute') return threshold.cfs;
+  return rp ? rp[threshold.returnPeriod] : null;
+}
+
+/**
+ * Rules with their resolved thresholds, highest first
+ * Useful for drawing a profile's thresholds (e.g., hydrograph reference lines)
+ */
+export function getResolvedRules(
+  profile: RiskProfile,
+  rp: ReturnPeriodThresholds | null | undefined
+): Array<{ rule: RiskRule; thresholdCfs: number; label: string }> {
+  return profile.rules
+    .map(rule => ({
+      rule,
+      thresholdCfs: resolveThreshold(rule.threshold, rp),
+      label: rule.label || RISK_LEVEL_LABELS[rule.level],
+    }))
+    .filter((r): r is { rule: RiskRule; thresholdCfs: number; label: string } =>
+      r.thresholdCfs !== null && Number.isFinite(r.thresholdCfs)
+    )
+    .sort((a, b) => b.thresholdCfs - a.thresholdCfs);
+}
+
+/**
+ * Classify a flow with a risk profile
+ *
+ * @param qCfs - Flow in CFS
+ * @param rp - Return period thresholds in CFS (only needed for return-period rules)
+ * @param profile - Risk profile (defaults to rp2/rp10/rp25)
+ * @returns Level, display label and the rule that matched
+ */
+export function assessRisk(
+  qCfs: number,
+  rp: ReturnPeriodThresholds | null | undefined,
+  profile: RiskProfile = DEFAULT_RISK_PROFILE
+): RiskAssessment {
+  const match = getResolvedRules(profile, rp).find(r => qCfs >= r.thresholdCfs);
+
+  if (!match) {
+    return { level: 'normal', label: RISK_LEVEL_LABELS.normal, rule: null, thresholdCfs: null };
+  }
+
+  return {
+    level: match.rule.level,
+    label: match.label,
+    rule: match.rule,
+    thresholdCfs: match.thresholdCfs,
+  };
+}
+
+/**
+ * Classify a flow with a risk profile, returning only the level
+ */
+export function computeRisk(
+  qCfs: number,
+  rp: ReturnPeriodThresholds | null | undefined,
+  profile: RiskProfile = DEFAULT_RISK_PROFILE
+): RiskLevel {
+  return assessRisk(qCfs, rp, profile).level;
+}
+
+/**
+ * Pick the risk profile for a location
+ * Order: saved place override → user's active profile → default
+ *
+ * @param preferences - User preferences holding custom profiles
+ * @param placeRiskProfileId - Saved place override, if any
+ */
+export function resolveRiskProfile(
+  preferences: Pick<UserPreferences, 'riskProfiles' | 'activeRiskProfileId'> | undefined,
+  placeRiskProfileId?: string
+): RiskProfile {
+  const profiles = preferences?.riskProfiles ?? [];
+  const findProfile = (id?: string) =>
+    id ? profiles.find(p => p.id === id) ?? (id === DEFAULT_RISK_PROFILE.id ? DEFAULT_RISK_PROFILE : undefined) : undefined;
+
+  return findProfile(placeRiskProfileId)
+    ?? findProfile(preferences?.activeRiskProfileId)
+    ?? DEFAULT_RISK_PROFILE;
 }
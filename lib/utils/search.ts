@@ -0,0 +1,113 @@
+// lib/utils/search.ts
+/**
+ * Map search query parsing and ranking helpers
+ * Recognizes reach IDs and "lat, lon" pairs, scores name matches and merges
+ * results from several sources into one ranked list.
+ */
+
+import type { SearchResult } from '@/types';
+
+/** Reach IDs accepted by /api/reaches/[reachId] */
+const REACH_ID_PATTERN = /^\d{3,15}$/;
+
+/** One decimal-degree value, optionally with a hemisphere letter: "40.25", "-111.6", "111.6W", "40.25° N" */
+const COORDINATE_PART = String.raw`([+-]?\d{1,3}(?:\.\d+)?)\s*°?\s*([NSEWnsew])?`;
+const COORDINATE_PATTERN = new RegExp(`^${COORDINATE_PART}\\s*[,;\\s]\\s*${COORDINATE_PART}$`);
+
+/**
+ * Whether a query is a bare reach ID, e.g. "10376192"
+ */
+export function isReachIdQuery(query: string): boolean {
+  return REACH_ID_PATTERN.test(query.trim());
+}
+
+/**
+ * Parse a "lat, lon" query
+ *
+ * Accepts comma, semicolon or space separators and N/S/E/W suffixes
+ * ("40.25, -111.64", "40.25 -111.64", "40.25N 111.64W").
+ * Hemisphere letters may swap the order ("111.64W 40.25N").
+ *
+ * @returns Coordinates, or null when the query isn't a valid pair
+ */
+export function parseCoordinateQuery(query: string): { lat: number; lon: number } | null {
+  const match = COORDINATE_PATTERN.exec(query.trim());
+  if (!match) return null;
+
+  const [, firstValue, firstHemisphere, secondValue, secondHemisphere] = match;
+  let first = Number(firstValue);
+  let second = Number(secondValue);
+  const h1 = firstHemisphere?.toUpperCase();
+  const h2 = secondHemisphere?.toUpperCase();
+
+  if (h1 === 'S' || h1 === 'W') first = -Math.abs(first);
+  if (h2 === 'S' || h2 === 'W') second = -Math.abs(second);
+
+  // Longitude first when the hemispheres say so
+  const swapped = (h1 === 'E' || h1 === 'W') || (h2 === 'N' || h2 === 'S');
+  const lat = swapped ? second : first;
+  const lon = swapped ? first : second;
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  if (lat < -90 || lat > 90 || lon < -180 || lon > 180) return null;
+
+  return { lat, lon };
+}
+
+/**
+ * How well a name matches a query, 0-1
+ *
+ * Exact match 1, prefix 0.9, word prefix 0.8, substring 0.6, otherwise 0
+ * (case- and accent-insensitive).
+ */
+export function getNameMatchScore(name: string, query: string): number {
+  const normalizedName = normalizeText(name);
+  const normalizedQuery = normalizeText(query);
+  if (!normalizedName || !normalizedQuery) return 0;
+
+  if (normalizedName === normalizedQuery) return 1;
+  if (normalizedName.startsWith(normalizedQuery)) return 0.9;
+  if (normalizedName.split(/\s+/).some(word => word.startsWith(normalizedQuery))) return 0.8;
+  if (normalizedName.includes(normalizedQuery)) return 0.6;
+  return 0;
+}
+
+/**
+ * Merge result lists into one ranked list
+ *
+ * Results are sorted by score (ties keep source order). Results within ~50 m of
+ * a higher-ranked result of the same reach or place are dropped as duplicates.
+ */
+export function rankSearchResults(groups: SearchResult[][], limit: number): SearchResult[] {
+  const sorted = groups
+    .flat()
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) => b.result.score - a.result.score || a.index - b.index)
+    .map(({ result }) => result);
+
+  const ranked: SearchResult[] = [];
+  for (const result of sorted) {
+    if (ranked.some(existing => isDuplicateResult(existing, result))) continue;
+    ranked.push(result);
+    if (ranked.length >= limit) break;
+  }
+  return ranked;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+function isDuplicateResult(a: SearchResult, b: SearchResult): boolean {
+  if (a.reachId && b.reachId) return a.reachId === b.reachId;
+  if (a.lat === undefined || a.lon === undefined || b.lat === undefined || b.lon === undefined) return false;
+  return (
+    normalizeText(a.title) === normalizeText(b.title) &&
+    Math.abs(a.lat - b.lat) < 0.0005 &&
+    Math.abs(a.lon - b.lon) < 0.0005
+  );
+}
@@ -0,0 +1,195 @@
+// lib/utils/verification.ts
+/**
+ * Forecast verification utilities
+ * Pairs archived forecast issuances with the analysis & assimilation record
+ * (the model's best estimate of what the river did) and scores them by lead time
+ */
+
+import type {
+  ArchivedHorizon,
+  ForecastIssuance,
+  ForecastSkill,
+  LeadTimeSkill,
+  NormalizedPoint,
+  PeakTimingSkill,
+  ReachId,
+} from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Lead-time window width per horizon, hours */
+export const LEAD_WINDOW_HOURS: Record<ArchivedHorizon, number> = {
+  short: 6,
+  medium: 24,
+  medium_blend: 24,
+  long: 7 * 24,
+};
+
+/** Share of an issuance's points that must be verified before its peak is scored */
+const MIN_PEAK_COVERAGE = 0.8;
+
+interface VerifiedPair {
+  t: string;
+  leadHours: number;
+  forecast: number;
+  observed: number;
+}
+
+/**
+ * Pair each forecast point with the observed value at the same valid time
+ *
+ * @param issuance - Archived issuance
+ * @param observed - Observed flow keyed by ISO time
+ * @returns Pairs with positive lead time, in time order
+ */
+export function pairIssuance(
+  issuance: ForecastIssuance,
+  observed: Map<string, number>
+): VerifiedPair[] {
+  const issuedAt = new Date(issuance.referenceTime).getTime();
+
+  return issuance.points
+    .map(point => ({
+      t: point.t,
+      leadHours: (new Date(point.t).getTime() - issuedAt) / HOUR_MS,
+      forecast: point.q,
+      observed: observed.get(point.t),
+    }))
+    .filter((pair): pair is VerifiedPair => pair.leadHours > 0 && pair.observed !== undefined);
+}
+
+/**
+ * Bias, MAE and Nash–Sutcliffe efficiency of a set of pairs
+ *
+ * @returns Statistics, or null with no pairs
+ */
+export function computeErrorStats(
+  pairs: Array<{ forecast: number; observed: number }>,
+  leadStart: number,
+  leadEnd: number
+): LeadTimeSkill | null {
+  const n = pairs.length;
+  if (n === 0) return null;
+
+  let sumError = 0;
+  let sumAbsError = 0;
+  let sumSquaredError = 0;
+  let sumObserved = 0;
+
+  for (const { forecast, observed } of pairs) {
+    const error = forecast - observed;
+    sumError += error;
+    sumAbsError += Math.abs(error);
+    sumSquaredError += error * error;
+    sumObserved += observed;
+  }
+
+  const meanObserved = sumObserved / n;
+  const observedVariance = pairs.reduce((sum, { observed }) => sum + (observed - meanObserved) ** 2, 0);
+
+  return {
+    leadStart,
+    leadEnd,
+    sampleCount: n,
+    bias: sumError / n,
+    mae: sumAbsError / n,
+    nse: observedVariance > 0 ? 1 - sumSquaredError / observedVariance : null,
+  };
+}
+
+/**
+ * Peak timing error of one issuance (forecast peak time − observed peak time)
+ * Only scored when the analysis covers most of the window and the observed
+ * peak falls inside it (a peak on the window edge is just a rising/falling limb).
+ *
+ * @returns Error in hours, or null when the issuance can't be scored
+ */
+export function getPeakTimingError(issuance: ForecastIssuance, pairs: VerifiedPair[]): number | null {
+  const futurePoints = issuance.points.filter(p => p.t > issuance.referenceTime).length;
+  if (pairs.length < 3 || pairs.length < futurePoints * MIN_PEAK_COVERAGE) return null;
+
+  let forecastPeak = pairs[0];
+  let observedPeakIndex = 0;
+  pairs.forEach((pair, index) => {
+    if (pair.forecast > forecastPeak.forecast) forecastPeak = pair;
+    if (pair.observed > pairs[observedPeakIndex].observed) observedPeakIndex = index;
+  });
+
+  if (observedPeakIndex === 0 || observedPeakIndex === pairs.length - 1) return null;
+
+  const observedPeak = pairs[observedPeakIndex];
+  return (new Date(forecastPeak.t).getTime() - new Date(observedPeak.t).getTime()) / HOUR_MS;
+}
+
+/**
+ * Verify archived issuances against the analysis record
+ *
+ * @param reachId - Reach being verified
+ * @param horizon - Horizon of the issuances
+ * @param issuances - Archived issuances (any order)
+ * @param analysis - Analysis & assimilation record (CFS)
+ * @returns Skill per lead-time window, pooled, and peak timing
+ */
+export function computeForecastSkill(
+  reachId: ReachId,
+  horizon: ArchivedHorizon,
+  issuances: ForecastIssuance[],
+  analysis: NormalizedPoint[]
+): ForecastSkill {
+  const observed = new Map(analysis.map(p => [p.t, p.q]));
+  const windowHours = LEAD_WINDOW_HOURS[horizon];
+
+  const allPairs: VerifiedPair[] = [];
+  const verifiedIssuances: string[] = [];
+  const timingErrors: number[] = [];
+
+  for (const issuance of issuances) {
+    const pairs = pairIssuance(issuance, observed);
+    if (pairs.length === 0) continue;
+
+    allPairs.push(...pairs);
+    verifiedIssuances.push(issuance.referenceTime);
+
+    const timingError = getPeakTimingError(issuance, pairs);
+    if (timingError !== null) timingErrors.push(timingError);
+  }
+
+  // Bucket pairs into (leadStart, leadEnd] windows
+  const buckets = new Map<number, VerifiedPair[]>();
+  for (const pair of allPairs) {
+    const bucket = Math.ceil(pair.leadHours / windowHours) - 1;
+    const list = buckets.get(bucket);
+    if (list) list.push(pair);
+    else buckets.set(bucket, [pair]);
+  }
+
+  const leadTimes = Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, pairs]) => computeErrorStats(pairs, bucket * windowHours, (bucket + 1) * windowHours))
+    .filter((skill): skill is LeadTimeSkill => skill !== null);
+
+  const maxLead = leadTimes.length ? leadTimes[leadTimes.length - 1].leadEnd : 0;
+
+  const peakTiming: PeakTimingSkill = {
+    issuanceCount: timingErrors.length,
+    meanErrorHours: timingErrors.length
+      ? timingErrors.reduce((sum, e) => sum + e, 0) / timingErrors.length
+      : null,
+    meanAbsErrorHours: timingErrors.length
+      ? timingErrors.reduce((sum, e) => sum + Math.abs(e), 0) / timingErrors.length
+      : null,
+  };
+
+  verifiedIssuances.sort();
+
+  return {
+    reachId,
+    horizon,
+    issuanceCount: verifiedIssuances.length,
+    firstIssuance: verifiedIssuances[0] ?? null,
+    lastIssuance: verifiedIssuances[verifiedIssuances.length - 1] ?? null,
+    overall: computeErrorStats(allPairs, 0, maxLead),
+    leadTimes,
+    peakTiming,
+  };
+}
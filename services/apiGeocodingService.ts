@@ -0,0 +1,88 @@
+// services/apiGeocodingService.ts
+/**
+ * Server-proxied geocoding provider for HydroDash (browser side)
+ *
+ * Calls GET /api/geocode/reverse and /api/geocode/forward, which hold the
+ * provider token, share a persistent cache across clients and rate-limit
+ * upstream requests. Used through services/geocodingService.ts, which picks
+ * this geocoder whenever it runs in the browser.
+ */
+
+import type { Geocoder } from '@/services/geocodingService';
+import { readApiResponse } from '@/lib/utils/apiErrors';
+import { ApiRequestError } from '@/types/utils';
+import {
+  GeocodedPlace,
+  GeocodingError,
+  NormalizedLocation,
+  isValidCoordinates
+} from '@/types/models/Location';
+
+export const apiGeocoder: Geocoder = {
+  name: 'server',
+
+  async reverse(coordinates, { language, signal }) {
+    const params = new URLSearchParams({
+      lat: coordinates.latitude.toString(),
+      lon: coordinates.longitude.toString(),
+      language,
+    });
+
+    const location = await requestJson<NormalizedLocation | null>(
+      `/api/geocode/reverse?${params.toString()}`,
+      'Failed to reverse geocode',
+      signal
+    );
+    return location?.components ?? null;
+  },
+
+  async forward(query, { limit = 5, proximity, language = 'en', signal }) {
+    const params = new URLSearchParams({
+      q: query,
+      limit: limit.toString(),
+      language,
+    });
+    if (proximity && isValidCoordinates(proximity)) {
+      params.set('lat', proximity.latitude.toString());
+      params.set('lon', proximity.longitude.toString());
+    }
+
+    return requestJson<GeocodedPlace[]>(
+      `/api/geocode/forward?${params.toString()}`,
+      'Failed to search places',
+      signal
+    );
+  },
+};
+
+// ========================================
+// Helper Functions
+// ========================================
+
+/**
+ * GET an /api/geocode route
+ *
+ * @throws GeocodingError for failed responses (RATE_LIMITED keeps its retry hint)
+ */
+async function requestJson<T>(url: string, fallbackMessage: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+    },
+    signal,
+  });
+
+  try {
+    return await readApiResponse<T>(response, fallbackMessage);
+  } catch (error) {
+    if (ApiRequestError.isApiRequestError(error)) {
+      throw new GeocodingError(
+        error.message,
+        error.code === 'RATE_LIMITED' ? 'RATE_LIMITED' : 'API_ERROR',
+        error.status,
+        error.retryAfter
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,85 @@
+// services/fixtureFlowDataService.ts
+/**
+ * Fixture flow-data provider for HydroDash
+ *
+ * Serves recorded NWPS streamflow responses from disk instead of the network,
+ * so /api/flow and /api/reaches work offline (demos, development without
+ * network access) and return the same data on every run (tests).
+ * Used through services/noaaService.ts, which adds retries, the server-side
+ * forecast cache and normalization.
+ *
+ * Layout: `<FLOW_FIXTURES_DIR>/<reachId>/<series>.json` (default dir `fixtures/nwps`),
+ * each file the unmodified NWPS response body of
+ * `GET /reaches/<reachId>/streamflow?series=<series>`.
+ * A missing fixture answers like NWPS does for an unknown reach: 404.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FlowDataProvider, NoaaStreamflowResponse } from '@/services/noaaService';
+import type { ReachId, StreamflowSeriesName } from '@/types';
+import { ApiError } from '@/types/utils';
+
+export const fixtureFlowDataProvider: FlowDataProvider = {
+  name: 'fixture',
+
+  async getStreamflow(reachId, series) {
+    const file = getFixtureFile(reachId, series);
+
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new ApiError(
+          `Reach ${reachId} not found or no ${series} data available (no fixture)`,
+          404,
+          file
+        );
+      }
+      throw new ApiError(`Failed to read ${series} fixture for reach ${reachId}`, 500, file, undefined, error);
+    }
+
+    let data: NoaaStreamflowResponse;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new ApiError(`Invalid JSON in ${series} fixture for reach ${reachId}`, 500, file, undefined, error);
+    }
+
+    // Same check as a live response
+    if (!data.reach?.reachId) {
+      throw new ApiError(
+        'Invalid fixture format - missing reach data',
+        500,
+        file
+      );
+    }
+
+    console.log(`✓ Loaded ${series} fixture for ${data.reach.name || reachId}`);
+    return data;
+  },
+};
+
+// ========================================
+// Helper Functions
+// ========================================
+
+/**
+ * Directory holding recorded responses
+ */
+function getFlowFixturesDir(): string {
+  return process.env.FLOW_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'nwps');
+}
+
+/**
+ * Fixture file for a reach + series
+ *
+ * @throws ApiError 400 for reach IDs that aren't plain digits (never build paths from them)
+ */
+function getFixtureFile(reachId: ReachId, series: StreamflowSeriesName): string {
+  if (!/^\d+$/.test(String(reachId))) {
+    throw new ApiError(`Invalid reach ID: ${reachId}`, 400, 'fixture');
+  }
+  return path.join(getFlowFixturesDir(), String(reachId), `${series}.json`);
+}
@@ -0,0 +1,231 @@
+// services/forecastArchiveService.ts
+/**
+ * Server-side archive of forecast issuances for HydroDash
+ *
+ * Every time a forecast is served, the mean series of each horizon is stored
+ * under its model `referenceTime`, so later requests can compare successive
+ * runs ("is the peak trending up or down?") and verify them against what the
+ * river actually did.
+ *
+ * Storage: one JSON file per reach + horizon under FORECAST_ARCHIVE_DIR
+ * (default `.data/forecast-archive`), newest issuance first, capped at
+ * MAX_ISSUANCES_PER_SERIES. The analysis & assimilation series (the model's
+ * best estimate of observed flow) is merged by valid time into a rolling
+ * `analysis.json` record per reach, kept for ANALYSIS_RETENTION_DAYS.
+ * Writes go through a temp file + rename and are serialized per file; an
+ * in-memory marker skips runs that are already stored.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  ArchivedHorizon,
+  ForecastIssuance,
+  ForecastIssuanceHistory,
+  NormalizedFlowForecast,
+  NormalizedPoint,
+  NormalizedSeries,
+  ReachId,
+} from '@/types';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** Issuances kept per reach + horizon (short range: ~2 days of hourly runs) */
+export const MAX_ISSUANCES_PER_SERIES = 48;
+
+/** Days of analysis & assimilation history kept per reach (covers the long range) */
+export const ANALYSIS_RETENTION_DAYS = 45;
+
+const ARCHIVED_HORIZONS: ArchivedHorizon[] = ['short', 'medium', 'medium_blend', 'long'];
+
+/** Latest referenceTime written per file, so repeat requests skip the disk */
+const latestArchived = new Map<string, string>();
+
+/** Pending write per file; writes to the same file run one after another */
+const writeQueue = new Map<string, Promise<void>>();
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Store each horizon's mean series of a forecast under its referenceTime
+ * Series without a referenceTime (or already stored) are skipped.
+ * Never throws: archive failures are logged and must not break the request.
+ *
+ * @param forecast - Normalized forecast as served to clients
+ */
+export async function archiveForecast(forecast: NormalizedFlowForecast): Promise<void> {
+  const analysisWrites = forecast.series
+    .filter(series => series.horizon === 'analysis' && series.label === 'mean' && series.points.length > 0)
+    .map(series => archiveAnalysis(forecast.reachId, series));
+
+  const writes = forecast.series
+    .filter(series =>
+      series.label === 'mean' &&
+      series.referenceTime &&
+      series.points.length > 0 &&
+      isArchivedHorizon(series.horizon)
+    )
+    .map(series => {
+      const horizon = series.horizon as ArchivedHorizon;
+      const file = getArchiveFile(forecast.reachId, horizon);
+      const referenceTime = series.referenceTime!;
+
+      if (latestArchived.get(file) === referenceTime) return Promise.resolve();
+
+      return enqueueWrite(file, async () => {
+        const issuances = await readJsonArray<ForecastIssuance>(file);
+
+        if (!issuances.some(i => i.referenceTime === referenceTime)) {
+          issuances.push({
+            referenceTime,
+            archivedAt: new Date().toISOString(),
+            points: series.points,
+          });
+          issuances.sort((a, b) => b.referenceTime.localeCompare(a.referenceTime));
+          await writeJsonArray(file, issuances.slice(0, MAX_ISSUANCES_PER_SERIES));
+          console.log(`[ForecastArchive] Stored ${horizon} issuance ${referenceTime} for reach ${forecast.reachId}`);
+        }
+
+        latestArchived.set(file, issuances[0].referenceTime);
+      });
+    });
+
+  await Promise.all([...analysisWrites, ...writes]);
+}
+
+/**
+ * Read the archived issuances for a reach + horizon
+ *
+ * @param reachId - NOAA reach identifier
+ * @param horizon - Forecast horizon
+ * @param limit - Maximum issuances to return (newest first)
+ * @returns History, empty when nothing has been archived yet
+ */
+export async function getForecastIssuances(
+  reachId: ReachId,
+  horizon: ArchivedHorizon,
+  limit: number = MAX_ISSUANCES_PER_SERIES
+): Promise<ForecastIssuanceHistory> {
+  const file = getArchiveFile(reachId, horizon);
+
+  // Wait for a pending write so a just-served issuance is included
+  await writeQueue.get(file);
+
+  const issuances = await readJsonArray<ForecastIssuance>(file);
+  return {
+    reachId,
+    horizon,
+    issuances: issuances.slice(0, Math.max(0, limit)),
+  };
+}
+
+/**
+ * Read the archived analysis & assimilation record for a reach
+ *
+ * @param reachId - NOAA reach identifier
+ * @returns Points sorted by time (CFS), empty when nothing has been archived yet
+ */
+export async function getAnalysisRecord(reachId: ReachId): Promise<NormalizedPoint[]> {
+  const file = getAnalysisFile(reachId);
+  await writeQueue.get(file);
+  return readJsonArray<NormalizedPoint>(file);
+}
+
+/**
+ * Whether a horizon is archived (analysis is observed, not a forecast)
+ */
+export function isArchivedHorizon(horizon: string): horizon is ArchivedHorizon {
+  return (ARCHIVED_HORIZONS as string[]).includes(horizon);
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function getArchiveDir(): string {
+  return process.env.FORECAST_ARCHIVE_DIR || path.join(process.cwd(), '.data', 'forecast-archive');
+}
+
+/**
+ * Archive file for a reach + horizon (reachId is digits-only, validated by the routes)
+ */
+function getArchiveFile(reachId: ReachId, horizon: ArchivedHorizon): string {
+  return path.join(getArchiveDir(), String(reachId), `${horizon}.json`);
+}
+
+/**
+ * Rolling analysis & assimilation record for a reach
+ */
+function getAnalysisFile(reachId: ReachId): string {
+  return path.join(getArchiveDir(), String(reachId), 'analysis.json');
+}
+
+/**
+ * Merge an analysis series into the reach's rolling record (newer values win)
+ */
+function archiveAnalysis(reachId: ReachId, series: NormalizedSeries): Promise<void> {
+  const file = getAnalysisFile(reachId);
+  const latest = series.points[series.points.length - 1].t;
+
+  if (latestArchived.get(file) === latest) return Promise.resolve();
+
+  return enqueueWrite(file, async () => {
+    const byTime = new Map((await readJsonArray<NormalizedPoint>(file)).map(p => [p.t, p]));
+    series.points.forEach(point => byTime.set(point.t, point));
+
+    const cutoff = new Date(Date.now() - ANALYSIS_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const record = Array.from(byTime.values())
+      .filter(point => point.t >= cutoff)
+      .sort((a, b) => a.t.localeCompare(b.t));
+
+    await writeJsonArray(file, record);
+    latestArchived.set(file, latest);
+  });
+}
+
+/**
+ * Run a write after any pending write to the same file
+ */
+function enqueueWrite(file: string, write: () => Promise<void>): Promise<void> {
+  const previous = writeQueue.get(file) ?? Promise.resolve();
+  const next = previous
+    .then(write)
+    .catch(error => {
+      console.error(`[ForecastArchive] Failed to write ${file}:`, error);
+    })
+    .finally(() => {
+      if (writeQueue.get(file) === next) writeQueue.delete(file);
+    });
+
+  writeQueue.set(file, next);
+  return next;
+}
+
+/**
+ * Read a JSON array from disk; a missing or corrupt file reads as empty
+ */
+async function readJsonArray<T>(file: string): Promise<T[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(file, 'utf8'));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`[ForecastArchive] Ignoring unreadable archive ${file}:`, error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Write a JSON array atomically (temp file + rename)
+ */
+async function writeJsonArray<T>(file: string, items: T[]): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(items), 'utf8');
+  await fs.rename(tmp, file);
+}
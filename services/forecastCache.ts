@@ -0,0 +1,175 @@
+// services/forecastCache.ts
+/**
+ * Server-side stale-while-revalidate cache for NOAA streamflow responses
+ *
+ * Entries are keyed by reach + series and versioned by the NOAA `referenceTime`
+ * (model issuance). Behaviour:
+ * - Fresh entry → served from memory, no upstream call
+ * - Stale entry → served immediately, one background revalidation is started
+ * - Expired/missing entry → caller waits for the upstream request
+ *
+ * A revalidation only replaces the entry when NOAA returns the same or a newer
+ * issuance, so a lagging upstream node can't roll the forecast back.
+ * Concurrent misses for the same key share a single in-flight request.
+ */
+
+import type { ReachId, StreamflowSeriesName } from '@/types';
+
+// ========================================
+// Cache Configuration
+// ========================================
+
+interface CacheTiming {
+  /** Serve without revalidating while younger than this */
+  freshMs: number;
+  /** Serve stale (and revalidate) while younger than this; refetch after */
+  maxStaleMs: number;
+}
+
+// NOAA cadence: A&A/short range hourly, medium every 6 hours, long daily
+const CACHE_TIMING: Record<StreamflowSeriesName, CacheTiming> = {
+  analysis_assimilation: { freshMs: 5 * 60 * 1000, maxStaleMs: 2 * 60 * 60 * 1000 },
+  short_range: { freshMs: 5 * 60 * 1000, maxStaleMs: 2 * 60 * 60 * 1000 },
+  medium_range: { freshMs: 15 * 60 * 1000, maxStaleMs: 12 * 60 * 60 * 1000 },
+  medium_range_blend: { freshMs: 15 * 60 * 1000, maxStaleMs: 12 * 60 * 60 * 1000 },
+  long_range: { freshMs: 60 * 60 * 1000, maxStaleMs: 48 * 60 * 60 * 1000 },
+};
+
+const MAX_CACHE_SIZE = 500;
+
+interface ForecastCacheEntry<T> {
+  data: T;
+  /** NOAA issuance the data belongs to ('' when the response carried none) */
+  referenceTime: string;
+  /** Epoch ms of the last successful upstream fetch (or revalidation) */
+  fetchedAt: number;
+}
+
+export type ForecastCacheStatus = 'HIT' | 'STALE' | 'MISS';
+
+// Module-level state (one per server instance)
+const cache = new Map<string, ForecastCacheEntry<unknown>>();
+const inFlight = new Map<string, Promise<ForecastCacheEntry<unknown>>>();
+
+/**
+ * Convert reach + series to a Map key
+ */
+function toCacheKey(reachId: ReachId, series: StreamflowSeriesName): string {
+  return `${reachId}:${series}`;
+}
+
+/**
+ * Manage cache size (LRU-style cleanup - Map keeps insertion order)
+ */
+function manageCacheSize(): void {
+  if (cache.size > MAX_CACHE_SIZE) {
+    const keysToDelete = Array.from(cache.keys()).slice(0, cache.size - MAX_CACHE_SIZE);
+    keysToDelete.forEach(key => cache.delete(key));
+  }
+}
+
+/**
+ * Store an entry, moving it to the most-recently-used position
+ */
+function storeEntry(key: string, entry: ForecastCacheEntry<unknown>): void {
+  cache.delete(key);
+  cache.set(key, entry);
+  manageCacheSize();
+}
+
+/**
+ * Fetch upstream and store the result, sharing one request per key
+ */
+function fetchAndStore<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  getReferenceTime: (data: T) => string | undefined
+): Promise<ForecastCacheEntry<T>> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<ForecastCacheEntry<T>>;
+
+  const request = (async () => {
+    try {
+      const data = await fetcher();
+      const referenceTime = getReferenceTime(data) ?? '';
+      const existing = cache.get(key) as ForecastCacheEntry<T> | undefined;
+
+      // Never replace a newer issuance with an older one
+      if (existing && referenceTime && existing.referenceTime > referenceTime) {
+        console.warn(`[ForecastCache] Ignoring older issuance for ${key}: ${referenceTime} < ${existing.referenceTime}`);
+        const touched = { ...existing, fetchedAt: Date.now() };
+        storeEntry(key, touched);
+        return touched;
+      }
+
+      const entry: ForecastCacheEntry<T> = { data, referenceTime, fetchedAt: Date.now() };
+      storeEntry(key, entry);
+      return entry;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Get a NOAA response through the stale-while-revalidate cache
+ *
+ * @param reachId - NOAA reach identifier
+ * @param series - Series being requested
+ * @param fetcher - Upstream request (no retry/caching of its own)
+ * @param getReferenceTime - Extract the issuance time from a response
+ * @returns Cached or fresh data plus how it was served
+ */
+export async function getCachedForecast<T>(
+  reachId: ReachId,
+  series: StreamflowSeriesName,
+  fetcher: () => Promise<T>,
+  getReferenceTime: (data: T) => string | undefined
+): Promise<{ data: T; status: ForecastCacheStatus; referenceTime: string }> {
+  const key = toCacheKey(reachId, series);
+  const timing = CACHE_TIMING[series];
+  const entry = cache.get(key) as ForecastCacheEntry<T> | undefined;
+
+  if (entry) {
+    const age = Date.now() - entry.fetchedAt;
+
+    if (age < timing.freshMs) {
+      return { data: entry.data, status: 'HIT', referenceTime: entry.referenceTime };
+    }
+
+    if (age < timing.maxStaleMs) {
+      // Serve now, refresh in the background (failures keep the stale entry)
+      if (!inFlight.has(key)) {
+        console.log(`[ForecastCache] Revalidating ${key} in background (age ${Math.round(age / 1000)}s)`);
+        fetchAndStore(key, fetcher, getReferenceTime).catch(error => {
+          console.warn(`[ForecastCache] Background revalidation failed for ${key}:`, error?.message ?? error);
+        });
+      }
+      return { data: entry.data, status: 'STALE', referenceTime: entry.referenceTime };
+    }
+  }
+
+  const fresh = await fetchAndStore(key, fetcher, getReferenceTime);
+  return { data: fresh.data, status: 'MISS', referenceTime: fresh.referenceTime };
+}
+
+/**
+ * Clears the cache (useful for testing)
+ */
+export function clearForecastCache(): void {
+  cache.clear();
+}
+
+/**
+ * Get cache statistics
+ */
+export function getForecastCacheStats(): { size: number; maxSize: number; inFlight: number } {
+  return {
+    size: cache.size,
+    maxSize: MAX_CACHE_SIZE,
+    inFlight: inFlight.size,
+  };
+}
@@ -0,0 +1,43 @@
+// services/forecastSkillService.ts
+/**
+ * Forecast skill verification for HydroDash
+ *
+ * Scores the archived issuances of a reach against its archived analysis &
+ * assimilation record (see forecastArchiveService). Both archives only grow
+ * while the reach is being requested, so skill covers the runs this server
+ * has seen: up to MAX_ISSUANCES_PER_SERIES runs, verified where the analysis
+ * record has caught up with their valid times.
+ */
+
+import type { ArchivedHorizon, ForecastSkill, ReachId } from '@/types';
+import { getAnalysisRecord, getForecastIssuances } from '@/services/forecastArchiveService';
+import { computeForecastSkill } from '@/lib/utils/verification';
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Verification metrics per lead time for a reach + horizon
+ *
+ * @param reachId - NOAA reach identifier
+ * @param horizon - Forecast horizon to verify
+ * @returns Skill (issuanceCount 0 when nothing can be verified yet)
+ */
+export async function getForecastSkill(
+  reachId: ReachId,
+  horizon: ArchivedHorizon
+): Promise<ForecastSkill> {
+  const [history, analysis] = await Promise.all([
+    getForecastIssuances(reachId, horizon),
+    getAnalysisRecord(reachId),
+  ]);
+
+  const skill = computeForecastSkill(reachId, horizon, history.issuances, analysis);
+
+  console.log(
+    `[ForecastSkill] ${horizon} for reach ${reachId}: ${skill.issuanceCount}/${history.issuances.length} issuances verified against ${analysis.length} analysis points`
+  );
+
+  return skill;
+}
@@ -0,0 +1,264 @@
+// services/gaugeObservationService.ts
+/**
+ * Gauge observation service for HydroDash
+ *
+ * Links NWM reaches to stream gauges and fetches their recent observed
+ * discharge, so forecasts can be checked against what the river is doing.
+ *
+ * Provider: USGS
+ * - Reach → gauge: NLDI `linked-data/comid/{reachId}/navigation/UM/nwissite`,
+ *   keeping only a site indexed to the reach itself (NWM reach IDs are NHDPlus COMIDs)
+ * - Discharge: Water Services IV JSON (`/nwis/iv/?parameterCd=00060`, ft³/s)
+ *
+ * Base URLs: `USGS_BASE_URL` / `NLDI_BASE_URL` environment variables if set
+ * (e.g. a local fixture server), otherwise `publicConfig.api`, otherwise the
+ * public USGS endpoints.
+ */
+
+import { publicConfig } from '@/config';
+import { toCfs } from '@/lib/utils/units';
+import { isTimeoutError, parseRetryAfter } from '@/lib/utils/apiErrors';
+import type {
+  GaugeSite,
+  NormalizedPoint,
+  ReachId,
+  ReachObservations,
+  UsgsIvResponse,
+} from '@/types';
+import { ApiError } from '@/types/utils';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** Longest observation window a request may ask for */
+export const MAX_OBSERVATION_HOURS = 30 * 24;
+
+/** USGS parameter code for discharge */
+const DISCHARGE_PARAMETER = '00060';
+
+/** Reach ↔ gauge links rarely change; observations arrive every 15 minutes */
+const LINK_CACHE_TTL = 24 * 60 * 60 * 1000;
+const OBSERVATION_CACHE_TTL = 10 * 60 * 1000;
+
+const MAX_CACHE_SIZE = 500;
+
+/**
+ * Source of gauge links and observations
+ * Implementations throw ApiError for upstream failures.
+ */
+export interface GaugeProvider {
+  name: string;
+  /** Gauge on the reach, or null when the reach isn't gauged */
+  findGauge(reachId: ReachId): Promise<GaugeSite | null>;
+  /** Observed discharge (CFS) over the last `hours`, sorted by time */
+  getDischarge(site: GaugeSite, hours: number): Promise<NormalizedPoint[]>;
+}
+
+const linkCache = new Map<string, { data: GaugeSite | null; timestamp: number }>();
+const observationCache = new Map<string, { data: NormalizedPoint[]; timestamp: number }>();
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Recent observed discharge for a reach
+ *
+ * @param reachId - NOAA reach identifier
+ * @param hours - Observation window ending now (1..MAX_OBSERVATION_HOURS)
+ * @param provider - Gauge provider (defaults to USGS)
+ * @returns Observations; `gauge` is null (and `points` empty) for ungauged reaches
+ */
+export async function getReachObservations(
+  reachId: ReachId,
+  hours: number,
+  provider: GaugeProvider = usgsGaugeProvider
+): Promise<ReachObservations> {
+  const gauge = await getLinkedGauge(reachId, provider);
+
+  if (!gauge) {
+    return { reachId, gauge: null, points: [], fetchedAt: new Date().toISOString() };
+  }
+
+  const cacheKey = `${provider.name}-${gauge.siteId}-${hours}`;
+  const cached = observationCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < OBSERVATION_CACHE_TTL) {
+    return { reachId, gauge, points: cached.data, fetchedAt: new Date(cached.timestamp).toISOString() };
+  }
+
+  const points = await provider.getDischarge(gauge, hours);
+  setCached(observationCache, cacheKey, points);
+
+  return { reachId, gauge, points, fetchedAt: new Date().toISOString() };
+}
+
+/**
+ * Gauge linked to a reach (cached, including "no gauge")
+ */
+export async function getLinkedGauge(
+  reachId: ReachId,
+  provider: GaugeProvider = usgsGaugeProvider
+): Promise<GaugeSite | null> {
+  const cacheKey = `${provider.name}-${reachId}`;
+  const cached = linkCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < LINK_CACHE_TTL) {
+    return cached.data;
+  }
+
+  const gauge = await provider.findGauge(reachId);
+  setCached(linkCache, cacheKey, gauge);
+  return gauge;
+}
+
+/**
+ * Clear link and observation caches (useful for testing)
+ */
+export function clearGaugeCache(): void {
+  linkCache.clear();
+  observationCache.clear();
+}
+
+// ========================================
+// USGS Provider
+// ========================================
+
+/** NLDI feature (GeoJSON) for a linked NWIS site */
+interface NldiSiteFeature {
+  geometry?: { coordinates?: [number, number] };
+  properties: {
+    identifier: string;   // "USGS-01646500"
+    name?: string;
+    comid?: string;
+  };
+}
+
+export const usgsGaugeProvider: GaugeProvider = {
+  name: 'usgs',
+
+  async findGauge(reachId) {
+    const url = `${getNldiBaseUrl()}/linked-data/comid/${reachId}/navigation/UM/nwissite?distance=1`;
+    const response = await requestJson<{ features?: NldiSiteFeature[] }>(url, 'NLDI');
+
+    // Missing COMID → ungauged as far as we're concerned
+    if (!response) return null;
+
+    const feature = (response.features ?? []).find(f => String(f.properties.comid) === String(reachId));
+    if (!feature) return null;
+
+    const [longitude, latitude] = feature.geometry?.coordinates ?? [];
+    return {
+      siteId: feature.properties.identifier.replace(/^USGS-/, ''),
+      agency: 'USGS',
+      name: feature.properties.name,
+      latitude,
+      longitude,
+    };
+  },
+
+  async getDischarge(site, hours) {
+    const url = `${getUsgsBaseUrl()}/nwis/iv/?format=json&sites=${encodeURIComponent(site.siteId)}` +
+      `&parameterCd=${DISCHARGE_PARAMETER}&period=PT${hours}H&siteStatus=all`;
+    const response = await requestJson<UsgsIvResponse>(url, 'USGS');
+
+    return response ? normalizeUsgsDischarge(response) : [];
+  },
+};
+
+/**
+ * USGS IV JSON → sorted discharge points in CFS (no-data and unparseable values dropped)
+ */
+export function normalizeUsgsDischarge(response: UsgsIvResponse): NormalizedPoint[] {
+  const series = response.value?.timeSeries?.find(ts =>
+    ts.variable.variableCode.some(code => code.value === DISCHARGE_PARAMETER)
+  );
+  if (!series) return [];
+
+  const noData = series.variable.noDataValue;
+  const units = series.variable.unit?.unitCode;
+  const byTime = new Map<string, NormalizedPoint>();
+
+  for (const block of series.values) {
+    for (const { value, dateTime } of block.value) {
+      const flow = Number(value);
+      const time = new Date(dateTime);
+      if (!Number.isFinite(flow) || flow < 0 || flow === noData || isNaN(time.getTime())) continue;
+
+      const t = time.toISOString();
+      byTime.set(t, { t, q: toCfs(flow, units) });
+    }
+  }
+
+  return Array.from(byTime.values()).sort((a, b) => a.t.localeCompare(b.t));
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function getUsgsBaseUrl(): string {
+  return process.env.USGS_BASE_URL || publicConfig.api.usgsBaseUrl || 'https://waterservices.usgs.gov';
+}
+
+function getNldiBaseUrl(): string {
+  return process.env.NLDI_BASE_URL || publicConfig.api.nldiBaseUrl || 'https://api.water.usgs.gov/nldi';
+}
+
+/**
+ * GET JSON from a USGS endpoint
+ *
+ * @returns Parsed body, or null on 404 (unknown reach/site)
+ * @throws ApiError on other upstream or network failures
+ */
+async function requestJson<T>(url: string, source: string): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'HydroDash/1.0'
+      },
+      signal: AbortSignal.timeout(30000)
+    });
+
+    if (response.status === 404) return null;
+
+    if (!response.ok) {
+      throw new ApiError(
+        `${source} API returned ${response.status}: ${response.statusText}`,
+        response.status,
+        url,
+        await response.text().catch(() => 'No response body'),
+        undefined,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    return await response.json() as T;
+
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+
+    if (isTimeoutError(error)) {
+      throw new ApiError(`Timed out fetching ${source} data`, 504, url, undefined, error);
+    }
+
+    throw new ApiError(
+      `Network error fetching ${source} data`,
+      500,
+      url,
+      undefined,
+      error
+    );
+  }
+}
+
+/**
+ * Set a cache entry, evicting the oldest once full
+ */
+function setCached<T>(cache: Map<string, { data: T; timestamp: number }>, key: string, data: T): void {
+  if (cache.size >= MAX_CACHE_SIZE && !cache.has(key)) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey !== undefined) cache.delete(oldestKey);
+  }
+  cache.set(key, { data, timestamp: Date.now() });
+}
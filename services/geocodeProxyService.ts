@@ -0,0 +1,320 @@
+// services/geocodeProxyService.ts
+/**
+ * Server-side geocoding proxy for HydroDash
+ *
+ * Backs GET /api/geocode/reverse and /api/geocode/forward: every client shares
+ * one cache, so a stream location named once is never sent upstream again, and
+ * the upstream provider only ever sees this server's (rate-limited) traffic.
+ *
+ * Cache: reverse results keyed by provider, language and the 4-decimal CacheKey
+ * (~11 m), forward results by provider and normalized query. Misses (null / [])
+ * are cached too. Persisted to GEOCODE_CACHE_FILE (default `.data/geocode-cache.json`)
+ * through a temp file + rename, at most once per SAVE_DELAY_MS.
+ *
+ * Rate limiting: at most UPSTREAM_RATE_LIMITS[provider] upstream requests per
+ * minute; an upstream RATE_LIMITED pauses the provider for its Retry-After.
+ * Both surface as GeocodingError RATE_LIMITED with `retryAfter` in seconds;
+ * cached results are still served meanwhile.
+ *
+ * Provider HTTP requests go through upstreamFetch, so they are recorded or
+ * replayed with the rest of the upstream traffic (services/upstreamRecordingService.ts).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  Geocoder,
+  getServerGeocoder,
+  createNormalizedLocation,
+  generateCacheKey
+} from '@/services/geocodingService';
+import { upstreamFetch } from '@/services/upstreamRecordingService';
+import {
+  Coordinates,
+  ForwardGeocodingOptions,
+  GeocodedPlace,
+  GeocoderName,
+  GeocoderFetch,
+  GeocodingError,
+  NormalizedLocation,
+  isValidCoordinates
+} from '@/types/models/Location';
+
+// ========================================
+// Configuration
+// ========================================
+
+const REVERSE_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days (place names rarely change)
+const FORWARD_CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_CACHE_SIZE = 5000;
+const SAVE_DELAY_MS = 5000;
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+/** Upstream requests per minute; providers not listed are unlimited */
+const UPSTREAM_RATE_LIMITS: Partial<Record<GeocoderName, number>> = {
+  mapbox: 600,
+  nominatim: 60, // Public instance policy: 1 request/second
+};
+
+/** Pause after an upstream 429 without a Retry-After */
+const DEFAULT_COOLDOWN_SECONDS = 60;
+
+/** Provider requests, recorded/replayed per config */
+const recordingFetch: GeocoderFetch = (url, init) => upstreamFetch('geocoding', url, init);
+
+interface ProxyCacheEntry {
+  value: NormalizedLocation | GeocodedPlace[] | null;
+  cachedAt: number;
+  ttl: number;
+}
+
+// Insertion-ordered, so the oldest entries are evicted first
+const cache = new Map<string, ProxyCacheEntry>();
+let cacheLoaded: Promise<void> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingSave: Promise<void> = Promise.resolve();
+
+/** Identical lookups in flight share one upstream request */
+const inFlight = new Map<string, Promise<ProxyCacheEntry['value']>>();
+
+/** Upstream request timestamps per provider (sliding window) */
+const requestLog = new Map<GeocoderName, number[]>();
+
+/** Provider paused until this time (ms) after an upstream RATE_LIMITED */
+const cooldownUntil = new Map<GeocoderName, number>();
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Reverse geocode through the shared cache
+ *
+ * @param coordinates - Point to name
+ * @param language - Result language
+ * @param geocoder - Upstream provider (defaults to the configured one)
+ * @returns Location, or null when the provider has nothing at the point
+ * @throws GeocodingError (INVALID_COORDINATES, RATE_LIMITED, upstream errors)
+ */
+export async function proxyReverseGeocode(
+  coordinates: Coordinates,
+  language: string = 'en',
+  geocoder: Geocoder = getServerGeocoder()
+): Promise<NormalizedLocation | null> {
+  if (!isValidCoordinates(coordinates)) {
+    throw new GeocodingError('Invalid coordinates provided', 'INVALID_COORDINATES');
+  }
+
+  const { lat, lon } = generateCacheKey(coordinates);
+  const key = `reverse:${geocoder.name}:${language}:${lat},${lon}`;
+
+  return throughCache(key, geocoder.name, REVERSE_CACHE_TTL, async () => {
+    const components = await geocoder.reverse(coordinates, { language, fetch: recordingFetch });
+    return components ? createNormalizedLocation(components, coordinates, geocoder.name) : null;
+  }) as Promise<NormalizedLocation | null>;
+}
+
+/**
+ * Forward geocode through the shared cache
+ * The proximity bias is rounded to 0.1° so nearby callers share entries.
+ *
+ * @param query - Free-text place name or address
+ * @param options - Result limit, proximity bias, language (no signal: results are shared)
+ * @param geocoder - Upstream provider (defaults to the configured one)
+ * @returns Matches, most relevant first
+ * @throws GeocodingError (RATE_LIMITED, upstream errors)
+ */
+export async function proxyForwardGeocode(
+  query: string,
+  options: Omit<ForwardGeocodingOptions, 'signal' | 'fetch'> = {},
+  geocoder: Geocoder = getServerGeocoder()
+): Promise<GeocodedPlace[]> {
+  const trimmed = query.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return [];
+
+  const { limit = 5, language = 'en' } = options;
+  const proximity = options.proximity && isValidCoordinates(options.proximity)
+    ? {
+        latitude: Math.round(options.proximity.latitude * 10) / 10,
+        longitude: Math.round(options.proximity.longitude * 10) / 10
+      }
+    : undefined;
+
+  const bias = proximity ? `${proximity.latitude},${proximity.longitude}` : '';
+  const key = `forward:${geocoder.name}:${language}:${limit}:${bias}:${trimmed.toLowerCase()}`;
+
+  return throughCache(key, geocoder.name, FORWARD_CACHE_TTL, () =>
+    geocoder.forward(trimmed, { limit, proximity, language, fetch: recordingFetch })
+  ) as Promise<GeocodedPlace[]>;
+}
+
+/**
+ * Get cache statistics
+ */
+export async function getGeocodeProxyStats(): Promise<{ size: number; maxSize: number }> {
+  await loadCache();
+  return {
+    size: cache.size,
+    maxSize: MAX_CACHE_SIZE
+  };
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function getCacheFile(): string {
+  return process.env.GEOCODE_CACHE_FILE || path.join(process.cwd(), '.data', 'geocode-cache.json');
+}
+
+/**
+ * Serve from cache, otherwise fetch upstream (rate limited) and cache the result
+ */
+async function throughCache(
+  key: string,
+  provider: GeocoderName,
+  ttl: number,
+  fetchUpstream: () => Promise<ProxyCacheEntry['value']>
+): Promise<ProxyCacheEntry['value']> {
+  await loadCache();
+
+  const entry = cache.get(key);
+  if (entry && isEntryValid(entry)) {
+    return entry.value;
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    acquireUpstreamSlot(provider);
+
+    try {
+      const value = await fetchUpstream();
+      cache.delete(key); // Re-insert as newest
+      cache.set(key, { value, cachedAt: Date.now(), ttl });
+      manageCacheSize();
+      scheduleSave();
+      return value;
+    } catch (error) {
+      if (error instanceof GeocodingError && error.code === 'RATE_LIMITED') {
+        const seconds = error.retryAfter ?? DEFAULT_COOLDOWN_SECONDS;
+        cooldownUntil.set(provider, Date.now() + seconds * 1000);
+        console.warn(`[GeocodeProxy:${provider}] Upstream rate limited, pausing for ${seconds}s`);
+      }
+      throw error;
+    }
+  })().finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Record an upstream request, or refuse it while the provider is paused or
+ * its per-minute budget is spent
+ *
+ * @throws GeocodingError RATE_LIMITED with seconds until a slot frees up
+ */
+function acquireUpstreamSlot(provider: GeocoderName): void {
+  const now = Date.now();
+
+  const pausedUntil = cooldownUntil.get(provider) ?? 0;
+  if (pausedUntil > now) {
+    throw new GeocodingError(
+      'Geocoding provider rate limit exceeded',
+      'RATE_LIMITED',
+      429,
+      Math.ceil((pausedUntil - now) / 1000)
+    );
+  }
+
+  const limit = UPSTREAM_RATE_LIMITS[provider];
+  if (limit === undefined) return;
+
+  const recent = (requestLog.get(provider) ?? []).filter(t => now - t < RATE_WINDOW_MS);
+  if (recent.length >= limit) {
+    requestLog.set(provider, recent);
+    throw new GeocodingError(
+      'Geocoding rate limit exceeded',
+      'RATE_LIMITED',
+      429,
+      Math.max(1, Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000))
+    );
+  }
+
+  recent.push(now);
+  requestLog.set(provider, recent);
+}
+
+function isEntryValid(entry: ProxyCacheEntry): boolean {
+  return Date.now() - entry.cachedAt < entry.ttl;
+}
+
+/**
+ * Evict the oldest entries beyond MAX_CACHE_SIZE
+ */
+function manageCacheSize(): void {
+  if (cache.size > MAX_CACHE_SIZE) {
+    const keysToDelete = Array.from(cache.keys()).slice(0, cache.size - MAX_CACHE_SIZE);
+    keysToDelete.forEach(key => cache.delete(key));
+  }
+}
+
+/**
+ * Load the persisted cache once per process; a missing or corrupt file starts empty
+ */
+function loadCache(): Promise<void> {
+  if (!cacheLoaded) {
+    cacheLoaded = (async () => {
+      const file = getCacheFile();
+      try {
+        const data = JSON.parse(await fs.readFile(file, 'utf8')) as Record<string, ProxyCacheEntry>;
+        for (const [key, entry] of Object.entries(data)) {
+          // Entries fetched before the load finished are newer; keep them
+          if (isEntryValid(entry) && !cache.has(key)) cache.set(key, entry);
+        }
+        manageCacheSize();
+        console.log(`[GeocodeProxy] ✓ Loaded ${cache.size} cached results`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.warn(`[GeocodeProxy] Ignoring unreadable cache ${file}:`, error);
+        }
+      }
+    })();
+  }
+  return cacheLoaded;
+}
+
+/**
+ * Persist the cache after SAVE_DELAY_MS, batching writes from bursts of misses
+ */
+function scheduleSave(): void {
+  if (saveTimer) return;
+
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    pendingSave = pendingSave.then(saveCache).catch(error => {
+      console.error('[GeocodeProxy] Failed to save cache:', error);
+    });
+  }, SAVE_DELAY_MS);
+}
+
+/**
+ * Write the valid entries atomically (temp file + rename)
+ */
+async function saveCache(): Promise<void> {
+  const file = getCacheFile();
+  const data: Record<string, ProxyCacheEntry> = {};
+  for (const [key, entry] of cache.entries()) {
+    if (isEntryValid(entry)) data[key] = entry;
+  }
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data), 'utf8');
+  await fs.rename(tmp, file);
+}
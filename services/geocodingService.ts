@@ -0,0 +1,410 @@
+// services/geocodingService.ts
+/**
+ * Geocoding Service for HydroDash
+ *
+ * Reverse geocoding (stream location names, cached) and forward geocoding
+ * (place search) behind a pluggable provider.
+ *
+ * Providers:
+ * - mapbox: Mapbox Geocoding API (services/mapboxGeocodingService.ts)
+ * - nominatim: Nominatim-compatible API (services/nominatimGeocodingService.ts)
+ * - mock: bundled gazetteer, no network (services/mockGeocodingService.ts);
+ *   keeps location names working in air-gapped and token-less dev environments
+ *
+ * Provider selection: in the browser always the /api/geocode proxy
+ * (services/apiGeocodingService.ts), which keeps tokens, the shared cache and
+ * upstream rate limits on the server. On the server `publicConfig.geocoding.provider`
+ * if set (`NEXT_PUBLIC_GEOCODING_PROVIDER` in the template config), otherwise
+ * Mapbox when a token is configured, otherwise the mock.
+ */
+
+import { publicConfig } from '@/config';
+import { isMapboxGeocodingConfigured, mapboxGeocoder } from '@/services/mapboxGeocodingService';
+import { nominatimGeocoder } from '@/services/nominatimGeocodingService';
+import { mockGeocoder } from '@/services/mockGeocodingService';
+import { apiGeocoder } from '@/services/apiGeocodingService';
+import {
+  Coordinates,
+  CacheKey,
+  NormalizedLocation,
+  GeocodingResult,
+  GeocodingCacheEntry,
+  GeocodingOptions,
+  GeocoderName,
+  GeocoderFetch,
+  ForwardGeocodingOptions,
+  GeocodedPlace,
+  LocationComponents,
+  GeocodingError,
+  isValidCoordinates
+} from '@/types/models/Location';
+
+// ========================================
+// Configuration
+// ========================================
+
+/**
+ * Source of geocoding data
+ * Implementations throw GeocodingError for upstream failures.
+ */
+export interface Geocoder {
+  name: GeocoderName;
+  /** Administrative components at a point, or null when nothing is there (e.g. open ocean) */
+  reverse(
+    coordinates: Coordinates,
+    options: { language: string; signal?: AbortSignal; fetch?: GeocoderFetch }
+  ): Promise<LocationComponents | null>;
+  /** Places matching free text, most relevant first */
+  forward(query: string, options: ForwardGeocodingOptions): Promise<GeocodedPlace[]>;
+}
+
+// Cache implementation
+const cache = new Map<string, GeocodingCacheEntry>();
+const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_CACHE_SIZE = 1000;
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Geocoder for the current environment (see module doc)
+ */
+export function getGeocoder(): Geocoder {
+  return typeof window !== 'undefined' ? apiGeocoder : getServerGeocoder();
+}
+
+/**
+ * Upstream geocoder chosen by config (server only: may use secret tokens)
+ */
+export function getServerGeocoder(): Geocoder {
+  switch (publicConfig.geocoding?.provider) {
+    case 'mapbox':
+      return mapboxGeocoder;
+    case 'nominatim':
+      return nominatimGeocoder;
+    case 'mock':
+      return mockGeocoder;
+    default:
+      return isMapboxGeocodingConfigured() ? mapboxGeocoder : mockGeocoder;
+  }
+}
+
+/**
+ * Reverse geocode coordinates to a display location
+ *
+ * @param coordinates - Point to name
+ * @param options - Cache and language options
+ * @param geocoder - Provider (defaults to the configured one)
+ * @returns Result envelope; failures are reported in it rather than thrown
+ */
+export async function reverseGeocode(
+  coordinates: Coordinates,
+  options: GeocodingOptions = {},
+  geocoder: Geocoder = getGeocoder()
+): Promise<GeocodingResult> {
+  const startTime = Date.now();
+
+  try {
+    // Validate coordinates
+    if (!isValidCoordinates(coordinates)) {
+      throw new GeocodingError('Invalid coordinates provided', 'INVALID_COORDINATES');
+    }
+
+    const {
+      cacheTtl = DEFAULT_CACHE_TTL,
+      useCache = true,
+      language = 'en'
+    } = options;
+
+    // Generate cache key
+    const cacheKey = generateCacheKey(coordinates);
+
+    // Check cache first
+    if (useCache) {
+      const cached = getFromCache(cacheKey, geocoder.name);
+      if (cached) {
+        return {
+          success: true,
+          location: cached,
+          fromCache: true,
+          responseTime: Date.now() - startTime
+        };
+      }
+    }
+
+    console.log(`[Geocoding:${geocoder.name}] Reverse geocoding: ${coordinates.latitude}, ${coordinates.longitude}`);
+
+    const components = await geocoder.reverse(coordinates, { language });
+    if (!components) {
+      throw new GeocodingError('No location found for coordinates', 'NO_RESULTS');
+    }
+
+    const location = createNormalizedLocation(components, coordinates, geocoder.name);
+
+    // Cache the result
+    if (useCache) {
+      storeInCache(location, cacheTtl);
+    }
+
+    console.log(`[Geocoding:${geocoder.name}] ✓ ${location.display}`);
+
+    return {
+      success: true,
+      location,
+      fromCache: false,
+      responseTime: Date.now() - startTime
+    };
+
+  } catch (error) {
+    console.error(`[Geocoding:${geocoder.name}] Error:`, error);
+
+    // Handle different error types
+    if (error instanceof GeocodingError) {
+      return {
+        success: false,
+        location: null,
+        error: error.message,
+        fromCache: false,
+        responseTime: Date.now() - startTime
+      };
+    }
+
+    // Network or unknown errors
+    return {
+      success: false,
+      location: null,
+      error: error instanceof Error ? error.message : 'Unknown geocoding error',
+      fromCache: false,
+      responseTime: Date.now() - startTime
+    };
+  }
+}
+
+/**
+ * Forward geocode a place name
+ *
+ * @param query - Free-text place name or address
+ * @param options - Result limit, proximity bias, language, abort signal
+ * @param geocoder - Provider (defaults to the configured one)
+ * @returns Matches, most relevant first
+ * @throws GeocodingError on provider errors; AbortError when cancelled
+ */
+export async function forwardGeocode(
+  query: string,
+  options: ForwardGeocodingOptions = {},
+  geocoder: Geocoder = getGeocoder()
+): Promise<GeocodedPlace[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  return geocoder.forward(trimmed, { limit: 5, language: 'en', ...options });
+}
+
+/**
+ * Batch reverse geocode multiple coordinates
+ */
+export async function batchReverseGeocode(
+  coordinatesList: Coordinates[],
+  options: GeocodingOptions = {}
+): Promise<GeocodingResult[]> {
+  // Process in parallel with rate limiting
+  const results = await Promise.allSettled(
+    coordinatesList.map(coords => reverseGeocode(coords, options))
+  );
+
+  return results.map(result =>
+    result.status === 'fulfilled'
+      ? result.value
+      : {
+          success: false,
+          location: null,
+          error: 'Batch geocoding failed',
+          fromCache: false
+        }
+  );
+}
+
+/**
+ * Clear the geocoding cache
+ */
+export function clearGeocodingCache(): void {
+  cache.clear();
+  console.log('[Geocoding] Cache cleared');
+}
+
+/**
+ * Get cache statistics
+ */
+export function getCacheStats(): { size: number; maxSize: number } {
+  cleanExpiredCache();
+  return {
+    size: cache.size,
+    maxSize: MAX_CACHE_SIZE
+  };
+}
+
+/**
+ * Preload common locations into cache
+ */
+export async function preloadLocations(coordinatesList: Coordinates[]): Promise<void> {
+  console.log(`[Geocoding] Preloading ${coordinatesList.length} locations...`);
+
+  const results = await batchReverseGeocode(coordinatesList, { useCache: true });
+  const successful = results.filter(r => r.success).length;
+
+  console.log(`[Geocoding] Preloaded ${successful}/${coordinatesList.length} locations`);
+}
+
+/**
+ * Build a display location from geocoded components
+ *
+ * @param components - Administrative components from a provider
+ * @param coordinates - Geocoded point
+ * @param provider - Provider that produced the components
+ */
+export function createNormalizedLocation(
+  components: LocationComponents,
+  coordinates: Coordinates,
+  provider: GeocoderName
+): NormalizedLocation {
+  const { display, short } = formatLocationDisplay(components);
+  return {
+    display,
+    short,
+    components,
+    coordinates,
+    cacheKey: generateCacheKey(coordinates),
+    geocodedAt: new Date().toISOString(),
+    provider
+  };
+}
+
+/**
+ * Generate cache key from coordinates (rounded to 4 decimal places)
+ */
+export function generateCacheKey(coordinates: Coordinates): CacheKey {
+  const lat = coordinates.latitude.toFixed(4);
+  const lon = coordinates.longitude.toFixed(4);
+  return { lat, lon };
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+/**
+ * Convert cache key to string for Map storage (per provider, so switching
+ * providers never serves another provider's names)
+ */
+function cacheKeyToString(cacheKey: CacheKey, provider: GeocoderName | undefined): string {
+  return `${provider ?? 'unknown'}:${cacheKey.lat},${cacheKey.lon}`;
+}
+
+/**
+ * Format location for global display
+ */
+function formatLocationDisplay(components: LocationComponents): { display: string; short: string } {
+  const { city, state, country } = components;
+
+  // Priority: City, State, Country > City, Country > State, Country > Country only
+  if (city && state && country) {
+    return {
+      display: `${city}, ${state}, ${country}`,
+      short: `${city}, ${country}`
+    };
+  }
+
+  if (city && country) {
+    return {
+      display: `${city}, ${country}`,
+      short: `${city}, ${country}`
+    };
+  }
+
+  if (state && country) {
+    return {
+      display: `${state}, ${country}`,
+      short: `${state}, ${country}`
+    };
+  }
+
+  if (country) {
+    return {
+      display: country,
+      short: country
+    };
+  }
+
+  if (city) {
+    return {
+      display: city,
+      short: city
+    };
+  }
+
+  return {
+    display: 'Unknown Location',
+    short: 'Unknown'
+  };
+}
+
+/**
+ * Check if cache entry is still valid
+ */
+function isCacheEntryValid(entry: GeocodingCacheEntry): boolean {
+  const now = Date.now();
+  const cacheAge = now - new Date(entry.cachedAt).getTime();
+  return cacheAge < entry.ttl;
+}
+
+/**
+ * Clean expired cache entries
+ */
+function cleanExpiredCache(): void {
+  for (const [key, entry] of cache.entries()) {
+    if (!isCacheEntryValid(entry)) {
+      cache.delete(key);
+    }
+  }
+}
+
+/**
+ * Manage cache size (LRU-style cleanup)
+ */
+function manageCacheSize(): void {
+  if (cache.size > MAX_CACHE_SIZE) {
+    const keysToDelete = Array.from(cache.keys()).slice(0, cache.size - MAX_CACHE_SIZE);
+    keysToDelete.forEach(key => cache.delete(key));
+  }
+}
+
+/**
+ * Get location from cache
+ */
+function getFromCache(cacheKey: CacheKey, provider: GeocoderName): NormalizedLocation | null {
+  const key = cacheKeyToString(cacheKey, provider);
+  const entry = cache.get(key);
+
+  if (!entry || !isCacheEntryValid(entry)) {
+    if (entry) cache.delete(key);
+    return null;
+  }
+
+  return entry.location;
+}
+
+/**
+ * Store location in cache
+ */
+function storeInCache(location: NormalizedLocation, ttl: number = DEFAULT_CACHE_TTL): void {
+  const key = cacheKeyToString(location.cacheKey, location.provider);
+  const entry: GeocodingCacheEntry = {
+    location,
+    cachedAt: new Date().toISOString(),
+    ttl
+  };
+
+  cache.set(key, entry);
+  manageCacheSize();
+}
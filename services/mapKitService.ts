@@ -0,0 +1,80 @@
+// services/mapKitService.ts
+/**
+ * MapKit JS token service for HydroDash
+ *
+ * MapKit JS authorizes each browser session with an ES256 JWT signed by the
+ * Maps key in `secrets.apple` (teamId / keyId / privateKey). Tokens are signed
+ * here, server-side, and restricted to the app origin so a leaked token can't
+ * be used from another site.
+ */
+
+import jwt from 'jsonwebtoken';
+import { publicConfig, getServerConfig } from '@/config';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** MapKit JS asks for a new token through its authorization callback when one expires */
+const TOKEN_TTL_SECONDS = 30 * 60;
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface MapKitToken {
+  token: string;
+  /** ISO expiry */
+  expiresAt: string;
+}
+
+let cachedToken: { data: MapKitToken; expiresAt: number; origin: string } | null = null;
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Signed MapKit JS token (cached until shortly before expiry)
+ *
+ * @param origin - Origin the token is restricted to (defaults to publicConfig.appOrigin)
+ * @returns Token and its expiry
+ * @throws Error when the key can't be used to sign (check isMapKitConfigured first)
+ */
+export function getMapKitToken(origin: string = publicConfig.appOrigin): MapKitToken {
+  if (
+    cachedToken &&
+    cachedToken.origin === origin &&
+    Date.now() < cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS
+  ) {
+    return cachedToken.data;
+  }
+
+  const { teamId, keyId, privateKey } = getServerConfig().secrets.apple;
+
+  const token = jwt.sign({ origin }, privateKey, {
+    algorithm: 'ES256',
+    issuer: teamId,
+    expiresIn: TOKEN_TTL_SECONDS,
+    header: { alg: 'ES256', kid: keyId, typ: 'JWT' },
+  });
+
+  const expiresAt = Date.now() + TOKEN_TTL_SECONDS * 1000;
+  const data = { token, expiresAt: new Date(expiresAt).toISOString() };
+  cachedToken = { data, expiresAt, origin };
+
+  console.log(`✓ Signed MapKit JS token for ${origin}`);
+  return data;
+}
+
+/**
+ * Whether the MapKit key is filled in (not the template placeholders)
+ */
+export function isMapKitConfigured(): boolean {
+  const { teamId, keyId, privateKey } = getServerConfig().secrets.apple ?? {};
+  return [teamId, keyId, privateKey].every(value => !!value && !value.includes('YOUR_'));
+}
+
+/**
+ * Clear the token cache (useful for testing)
+ */
+export function clearMapKitTokenCache(): void {
+  cachedToken = null;
+}
@@ -1,387 +1,181 @@
 // services/mapboxGeocodingService.ts
 /**
- * Mapbox Geocoding Service for HydroDash
- * 
- * Provides reverse geocoding functionality with caching for stream locations.
- * Supports global location formatting for worldwide stream monitoring.
- */
-
-import { appConfig } from '@/config';
+ * Mapbox Geocoding provider for HydroDash
+ *
+ * Reverse geocoding (administrative areas around stream locations) and forward
+ * geocoding (place search) against the Mapbox Geocoding API.
+ * Used through services/geocodingService.ts, which adds caching and display formatting.
+ *
+ * Token: on the server (behind /api/geocode) `secrets.mapbox.geocodingToken` if set,
+ * so a token with geocoding scopes never reaches the browser; otherwise the map's
+ * public token.
+ */
+
+import { appConfig, getServerConfig } from '@/config';
+import type { Geocoder } from '@/services/geocodingService';
+import { parseRetryAfter } from '@/lib/utils/apiErrors';
 import {
-  Coordinates,
-  CacheKey,
-  NormalizedLocation,
-  GeocodingResult,
-  GeocodingCacheEntry,
-  GeocodingOptions,
-  MapboxGeocodingResponse,
   MapboxFeature,
-  MapboxContext,
   LocationComponents,
   GeocodingError,
+  GeocoderFetch,
   isValidCoordinates,
-  isMapboxGeocodingResponse
+  isMapboxGeocodingResponse,
+  isMapboxForwardGeocodingResponse
 } from '@/types/models/Location';
 
-// Cache implementation
-const cache = new Map<string, GeocodingCacheEntry>();
-const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
-const MAX_CACHE_SIZE = 1000;
+const MAPBOX_GEOCODING_URL = 'https://api.mapbox.com/geocoding/v5/mapbox.places';
 
 /**
- * Generate cache key from coordinates (rounded to 4 decimal places)
+ * Whether a Mapbox token is configured (not the template placeholder)
  */
-function generateCacheKey(coordinates: Coordinates): CacheKey {
-  const lat = coordinates.latitude.toFixed(4);
-  const lon = coordinates.longitude.toFixed(4);
-  return { lat, lon };
+export function isMapboxGeocodingConfigured(): boolean {
+  return isUsableToken(getToken());
 }
 
-/**
- * Convert cache key to string for Map storage
- */
-function cacheKeyToString(cacheKey: CacheKey): string {
-  return `${cacheKey.lat},${cacheKey.lon}`;
-}
+export const mapboxGeocoder: Geocoder = {
+  name: 'mapbox',
 
-/**
- * Extract location components from Mapbox context
- */
-function extractLocationComponents(feature: MapboxFeature): LocationComponents {
-  const components: LocationComponents = {
-    fullAddress: feature.place_name,
-  };
-
-  // Extract components from context
-  if (feature.context) {
-    for (const ctx of feature.context) {
-      if (ctx.id.includes('place')) {
-        components.city = ctx.text;
-      } else if (ctx.id.includes('region')) {
-        components.state = ctx.text;
-      } else if (ctx.id.includes('country')) {
-        components.country = ctx.text;
-        components.countryCode = ctx.short_code?.toUpperCase();
-      }
-    }
-  }
-
-  // Handle cases where the feature itself represents a place
-  if (feature.place_type.includes('place') && !components.city) {
-    components.city = feature.text;
-  }
-
-  return components;
-}
+  async reverse(coordinates, { language, signal, fetch: fetchFn }) {
+    // Build API URL
+    const { longitude, latitude } = coordinates;
+    const url = new URL(`${MAPBOX_GEOCODING_URL}/${longitude},${latitude}.json`);
+    url.searchParams.set('access_token', requireToken());
+    url.searchParams.set('limit', '1');
+    url.searchParams.set('language', language);
+    url.searchParams.set('types', 'place,region,country'); // Focus on administrative areas
 
-/**
- * Format location for global display
- */
-function formatLocationDisplay(components: LocationComponents): { display: string; short: string } {
-  const { city, state, country } = components;
+    const data = await requestJson(url, signal, fetchFn);
 
-  // Priority: City, State, Country > City, Country > State, Country > Country only
-  if (city && state && country) {
-    return {
-      display: `${city}, ${state}, ${country}`,
-      short: `${city}, ${country}`
-    };
-  }
+    // Validate response format
+    if (!isMapboxGeocodingResponse(data)) {
+      throw new GeocodingError('Invalid response format from Mapbox API', 'API_ERROR');
+    }
 
-  if (city && country) {
-    return {
-      display: `${city}, ${country}`,
-      short: `${city}, ${country}`
-    };
-  }
+    const feature = data.features[0]; // Use most relevant result
+    return feature ? extractLocationComponents(feature) : null;
+  },
 
-  if (state && country) {
-    return {
-      display: `${state}, ${country}`,
-      short: `${state}, ${country}`
-    };
-  }
+  async forward(query, { limit = 5, proximity, language = 'en', signal, fetch: fetchFn }) {
+    // Build API URL
+    const url = new URL(`${MAPBOX_GEOCODING_URL}/${encodeURIComponent(query)}.json`);
+    url.searchParams.set('access_token', requireToken());
+    url.searchParams.set('limit', limit.toString());
+    url.searchParams.set('language', language);
+    url.searchParams.set('types', 'place,locality,poi,address'); // Focus on places, points of interest, and addresses
+    url.searchParams.set('autocomplete', 'true');
+    if (proximity && isValidCoordinates(proximity)) {
+      url.searchParams.set('proximity', `${proximity.longitude},${proximity.latitude}`);
+    }
 
-  if (country) {
-    return {
-      display: country,
-      short: country
-    };
-  }
+    const data = await requestJson(url, signal, fetchFn);
 
-  if (city) {
-    return {
-      display: city,
-      short: city
-    };
-  }
+    // Validate response format
+    if (!isMapboxForwardGeocodingResponse(data)) {
+      throw new GeocodingError('Invalid response format from Mapbox API', 'API_ERROR');
+    }
 
-  return {
-    display: 'Unknown Location',
-    short: 'Unknown'
-  };
-}
+    return data.features.map(feature => ({
+      id: feature.id,
+      name: feature.text,
+      fullName: feature.place_name,
+      coordinates: {
+        latitude: feature.center[1],
+        longitude: feature.center[0]
+      },
+      placeTypes: feature.place_type,
+      relevance: feature.relevance ?? 0
+    }));
+  },
+};
 
 /**
- * Normalize Mapbox response to our location format
+ * Get Mapbox token (server secret first, then the public map token)
  */
-function normalizeMapboxResponse(
-  response: MapboxGeocodingResponse,
-  coordinates: Coordinates,
-  cacheKey: CacheKey
-): NormalizedLocation {
-  if (!response.features || response.features.length === 0) {
-    throw new GeocodingError('No location found for coordinates', 'NO_RESULTS');
+function getToken(): string | undefined {
+  if (typeof window === 'undefined') {
+    const secretToken = getServerConfig().secrets.mapbox?.geocodingToken;
+    if (isUsableToken(secretToken)) return secretToken;
   }
-
-  const feature = response.features[0]; // Use most relevant result
-  const components = extractLocationComponents(feature);
-  const { display, short } = formatLocationDisplay(components);
-
-  return {
-    display,
-    short,
-    components,
-    coordinates,
-    cacheKey,
-    geocodedAt: new Date().toISOString()
-  };
-}
-
-/**
- * Check if cache entry is still valid
- */
-function isCacheEntryValid(entry: GeocodingCacheEntry): boolean {
-  const now = Date.now();
-  const cacheAge = now - new Date(entry.cachedAt).getTime();
-  return cacheAge < entry.ttl;
+  return appConfig?.public?.map?.mapbox?.publicToken;
 }
 
 /**
- * Clean expired cache entries
+ * Get Mapbox token
+ *
+ * @throws GeocodingError when no token is configured
  */
-function cleanExpiredCache(): void {
-  const now = Date.now();
-  for (const [key, entry] of cache.entries()) {
-    if (!isCacheEntryValid(entry)) {
-      cache.delete(key);
-    }
+function requireToken(): string {
+  const token = getToken();
+  if (!isUsableToken(token)) {
+    throw new GeocodingError('Mapbox token not configured', 'API_ERROR');
   }
+  return token;
 }
 
-/**
- * Manage cache size (LRU-style cleanup)
- */
-function manageCacheSize(): void {
-  if (cache.size > MAX_CACHE_SIZE) {
-    const keysToDelete = Array.from(cache.keys()).slice(0, cache.size - MAX_CACHE_SIZE);
-    keysToDelete.forEach(key => cache.delete(key));
-  }
+function isUsableToken(token: string | undefined): token is string {
+  return !!token && !token.startsWith('YOUR_');
 }
 
 /**
- * Get location from cache
+ * Make API request
+ *
+ * @throws GeocodingError on HTTP errors (RATE_LIMITED on 429)
  */
-function getFromCache(cacheKey: CacheKey): NormalizedLocation | null {
-  const key = cacheKeyToString(cacheKey);
-  const entry = cache.get(key);
-  
-  if (!entry || !isCacheEntryValid(entry)) {
-    if (entry) cache.delete(key);
-    return null;
+async function requestJson(url: URL, signal?: AbortSignal, fetchFn: GeocoderFetch = fetch): Promise<unknown> {
+  const response = await fetchFn(url.toString(), {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new GeocodingError(
+        'Rate limit exceeded',
+        'RATE_LIMITED',
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    throw new GeocodingError(
+      `Mapbox API error: ${response.status} ${response.statusText}`,
+      'API_ERROR',
+      response.status
+    );
   }
 
-  return entry.location;
+  return response.json();
 }
 
 /**
- * Store location in cache
+ * Extract location components from Mapbox context
  */
-function storeInCache(location: NormalizedLocation, ttl: number = DEFAULT_CACHE_TTL): void {
-  const key = cacheKeyToString(location.cacheKey);
-  const entry: GeocodingCacheEntry = {
-    location,
-    cachedAt: new Date().toISOString(),
-    ttl
+function extractLocationComponents(feature: MapboxFeature): LocationComponents {
+  const components: LocationComponents = {
+    fullAddress: feature.place_name,
   };
-  
-  cache.set(key, entry);
-  manageCacheSize();
-}
-
-/**
- * Reverse geocode coordinates using Mapbox API
- */
-export async function reverseGeocode(
-  coordinates: Coordinates,
-  options: GeocodingOptions = {}
-): Promise<GeocodingResult> {
-  const startTime = Date.now();
-  
-  try {
-    // Validate coordinates
-    if (!isValidCoordinates(coordinates)) {
-      throw new GeocodingError('Invalid coordinates provided', 'INVALID_COORDINATES');
-    }
 
-    const {
-      cacheTtl = DEFAULT_CACHE_TTL,
-      useCache = true,
-      language = 'en',
-      limit = 1
-    } = options;
-
-    // Generate cache key
-    const cacheKey = generateCacheKey(coordinates);
-
-    // Check cache first
-    if (useCache) {
-      const cached = getFromCache(cacheKey);
-      if (cached) {
-        return {
-          success: true,
-          location: cached,
-          fromCache: true,
-          responseTime: Date.now() - startTime
-        };
+  // Extract components from context
+  if (feature.context) {
+    for (const ctx of feature.context) {
+      if (ctx.id.includes('place')) {
+        components.city = ctx.text;
+      } else if (ctx.id.includes('region')) {
+        components.state = ctx.text;
+      } else if (ctx.id.includes('country')) {
+        components.country = ctx.text;
+        components.countryCode = ctx.short_code?.toUpperCase();
       }
     }
-
-    // Get Mapbox token
-    const publicToken = appConfig.public.map.mapbox.publicToken;
-    if (!publicToken) {
-      throw new GeocodingError('Mapbox public token not configured', 'API_ERROR');
-    }
-
-    // Build API URL
-    const { longitude, latitude } = coordinates;
-    const url = new URL(`https://api.mapbox.com/geocoding/v5/mapbox.places/${longitude},${latitude}.json`);
-    url.searchParams.set('access_token', publicToken);
-    url.searchParams.set('limit', limit.toString());
-    url.searchParams.set('language', language);
-    url.searchParams.set('types', 'place,region,country'); // Focus on administrative areas
-
-    console.log(`[MapboxGeocoding] Reverse geocoding: ${latitude}, ${longitude}`);
-
-    // Make API request
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        throw new GeocodingError('Rate limit exceeded', 'RATE_LIMITED', response.status);
-      }
-      throw new GeocodingError(
-        `Mapbox API error: ${response.status} ${response.statusText}`, 
-        'API_ERROR', 
-        response.status
-      );
-    }
-
-    const data = await response.json();
-
-    // Validate response format
-    if (!isMapboxGeocodingResponse(data)) {
-      throw new GeocodingError('Invalid response format from Mapbox API', 'API_ERROR');
-    }
-
-    // Normalize response
-    const location = normalizeMapboxResponse(data, coordinates, cacheKey);
-
-    // Cache the result
-    if (useCache) {
-      storeInCache(location, cacheTtl);
-    }
-
-    console.log(`[MapboxGeocoding] ✓ ${location.display}`);
-
-    return {
-      success: true,
-      location,
-      fromCache: false,
-      responseTime: Date.now() - startTime
-    };
-
-  } catch (error) {
-    console.error('[MapboxGeocoding] Error:', error);
-
-    // Handle different error types
-    if (error instanceof GeocodingError) {
-      return {
-        success: false,
-        location: null,
-        error: error.message,
-        fromCache: false,
-        responseTime: Date.now() - startTime
-      };
-    }
-
-    // Network or unknown errors
-    return {
-      success: false,
-      location: null,
-      error: error instanceof Error ? error.message : 'Unknown geocoding error',
-      fromCache: false,
-      responseTime: Date.now() - startTime
-    };
   }
-}
-
-/**
- * Batch reverse geocode multiple coordinates
- */
-export async function batchReverseGeocode(
-  coordinatesList: Coordinates[],
-  options: GeocodingOptions = {}
-): Promise<GeocodingResult[]> {
-  // Process in parallel with rate limiting
-  const results = await Promise.allSettled(
-    coordinatesList.map(coords => reverseGeocode(coords, options))
-  );
 
-  return results.map(result => 
-    result.status === 'fulfilled' 
-      ? result.value 
-      : {
-          success: false,
-          location: null,
-          error: 'Batch geocoding failed',
-          fromCache: false
-        }
-  );
-}
-
-/**
- * Clear the geocoding cache
- */
-export function clearGeocodingCache(): void {
-  cache.clear();
-  console.log('[MapboxGeocoding] Cache cleared');
-}
+  // Handle cases where the feature itself represents a place
+  if (feature.place_type.includes('place') && !components.city) {
+    components.city = feature.text;
+  }
 
-/**
- * Get cache statistics
- */
-export function getCacheStats(): { size: number; maxSize: number } {
-  cleanExpiredCache();
-  return {
-    size: cache.size,
-    maxSize: MAX_CACHE_SIZE
-  };
+  return components;
 }
-
-/**
- * Preload common locations into cache
- */
-export async function preloadLocations(coordinatesList: Coordinates[]): Promise<void> {
-  console.log(`[MapboxGeocoding] Preloading ${coordinatesList.length} locations...`);
-  
-  const results = await batchReverseGeocode(coordinatesList, { useCache: true });
-  const successful = results.filter(r => r.success).length;
-  
-  console.log(`[MapboxGeocoding] Preloaded ${successful}/${coordinatesList.length} locations`);
-}
\ No newline at end of file
@@ -0,0 +1,112 @@
+// services/mockGeocodingService.ts
+/**
+ * Mock (offline) geocoding provider for HydroDash
+ *
+ * Deterministic lookups against a bundled gazetteer (lib/data/gazetteer.json:
+ * US state capitals and large cities plus a few world cities). No network and
+ * no token, so location names keep working in air-gapped and dev environments.
+ * Used through services/geocodingService.ts, which adds caching and display formatting.
+ *
+ * Reverse: the nearest gazetteer city within CITY_RADIUS_KM names the point;
+ * within REGION_RADIUS_KM only its state and country do; farther points have no result.
+ * Forward: case- and accent-insensitive name matching, nearest first on ties.
+ */
+
+import type { Geocoder } from '@/services/geocodingService';
+import { getNameMatchScore } from '@/lib/utils/search';
+import type { Coordinates, LocationComponents } from '@/types/models/Location';
+import gazetteerData from '@/lib/data/gazetteer.json';
+
+interface GazetteerEntry {
+  name: string;
+  state: string;
+  country: string;
+  countryCode: string;
+  lat: number;
+  lon: number;
+}
+
+const GAZETTEER: GazetteerEntry[] = gazetteerData;
+
+/** Points this close to a gazetteer city are named after it */
+const CITY_RADIUS_KM = 100;
+
+/** Points this close get the nearest city's state and country only */
+const REGION_RADIUS_KM = 500;
+
+const EARTH_RADIUS_KM = 6371;
+
+export const mockGeocoder: Geocoder = {
+  name: 'mock',
+
+  async reverse(coordinates) {
+    let nearest: GazetteerEntry | null = null;
+    let nearestKm = Infinity;
+
+    for (const entry of GAZETTEER) {
+      const km = getDistanceKm(coordinates, entry);
+      if (km < nearestKm) {
+        nearest = entry;
+        nearestKm = km;
+      }
+    }
+
+    if (!nearest || nearestKm > REGION_RADIUS_KM) return null;
+
+    const components: LocationComponents = {
+      state: nearest.state,
+      country: nearest.country,
+      countryCode: nearest.countryCode,
+    };
+    if (nearestKm <= CITY_RADIUS_KM) {
+      components.city = nearest.name;
+    }
+    components.fullAddress = [components.city, components.state, components.country]
+      .filter(Boolean)
+      .join(', ');
+
+    return components;
+  },
+
+  async forward(query, { limit = 5, proximity }) {
+    // "Portland, Maine" matches on the name and narrows by state/country
+    const [namePart, ...qualifiers] = query.split(',').map(part => part.trim());
+
+    return GAZETTEER
+      .map(entry => ({
+        entry,
+        score: getNameMatchScore(entry.name, namePart),
+        km: proximity ? getDistanceKm(proximity, entry) : 0,
+      }))
+      .filter(({ entry, score }) =>
+        score > 0 &&
+        qualifiers.every(q => getNameMatchScore(entry.state, q) > 0 || getNameMatchScore(entry.country, q) > 0)
+      )
+      .sort((a, b) => b.score - a.score || a.km - b.km)
+      .slice(0, limit)
+      .map(({ entry, score }) => ({
+        id: `mock.${entry.countryCode}.${entry.state}.${entry.name}`.toLowerCase().replace(/\s+/g, '-'),
+        name: entry.name,
+        fullName: `${entry.name}, ${entry.state}, ${entry.country}`,
+        coordinates: {
+          latitude: entry.lat,
+          longitude: entry.lon
+        },
+        placeTypes: ['place'],
+        relevance: score
+      }));
+  },
+};
+
+/**
+ * Great-circle distance (haversine)
+ */
+function getDistanceKm(a: Coordinates, b: { lat: number; lon: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.latitude);
+  const dLon = toRad(b.lon - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
@@ -6,27 +6,48 @@
  * from the NOAA NWPS API. Each range has its own function for modularity and testing.
  * 
  * Includes professional retry logic to handle transient API failures gracefully.
+ * Upstream responses go through a server-side stale-while-revalidate cache
+ * (see services/forecastCache.ts), so repeated dashboard refreshes don't fan out to NOAA.
+ * 
+ * Flow-data providers (raw NWPS responses):
+ * - nwps: NOAA NWPS API (services/nwpsFlowDataService.ts)
+ * - fixture: recorded responses on disk (services/fixtureFlowDataService.ts), for
+ *   offline demos, development without network access and deterministic tests
+ * Selected by `publicConfig.flowData.provider` (`FLOW_DATA_PROVIDER` in the
+ * template config), default nwps.
  * 
  * API Endpoints Used:
+ * - Analysis & Assimilation: observed/nowcast streamflow (hourly, past ~hours)
  * - Short Range: 18-hour deterministic forecast (hourly data)
  * - Medium Range: ~10-day forecast (hourly intervals) 
+ * - Medium Range Blend: ~10-day deterministic forecast forced by blended weather inputs
  * - Long Range: ~30-day forecast (6-hour intervals)
  * 
  * IMPORTANT: NOAA uses inconsistent response structures:
+ * - Analysis & Assimilation: response.analysisAssimilation.series.data[]
  * - Short range: response.shortRange.series.data[]
  * - Medium/Long: response.mediumRange.mean.data[] / response.longRange.mean.data[]
+ * - Medium blend: response.mediumRangeBlend.series.data[]
+ * - Ensemble members: response.mediumRange.member1.data[] ... memberN (medium/long only)
  */
 
 import type { 
   ReachId, 
   NormalizedFlowForecast, 
+  ForecastRange,
   Horizon,
+  SeriesLabel,
   RiverReach,
-  StreamflowSeriesName 
+  StreamflowSeriesName,
+  FlowDataProviderName
 } from '@/types';
 import { publicConfig } from '@/config';
-import { buildNormalizedForecast } from '@/lib/utils/normalizers';
+import { buildNormalizedForecast, normalizeAnalysisAssimilation } from '@/lib/utils/normalizers';
 import { ApiError } from '@/types/utils';
+import { getCachedForecast } from '@/services/forecastCache';
+import { archiveForecast } from '@/services/forecastArchiveService';
+import { nwpsFlowDataProvider } from '@/services/nwpsFlowDataService';
+import { fixtureFlowDataProvider } from '@/services/fixtureFlowDataService';
 
 // ========================================
 // Retry Configuration
@@ -90,8 +111,12 @@ async function withRetry<T>(
       
       // Log retry attempt (except for the last attempt)
       if (attempt < config.maxAttempts) {
+        // Honour an upstream Retry-After hint if it is longer than the backoff
+        const retryAfterMs = ApiError.isApiError(error) && error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : 0;
         const delayMs = Math.min(
-          config.baseDelayMs * Math.pow(config.backoffMultiplier, attempt - 1),
+          Math.max(config.baseDelayMs * Math.pow(config.backoffMultiplier, attempt - 1), retryAfterMs),
           config.maxDelayMs
         );
         
@@ -119,8 +144,12 @@ function shouldNotRetry(error: Error): boolean {
   if (error instanceof ApiError) {
     // Don't retry client errors (4xx) except for rate limiting
     if (error.statusCode >= 400 && error.statusCode < 500) {
-      // Retry rate limiting (429) but not other 4xx errors
-      return error.statusCode !== 429;
+      // Retry rate limiting (429) but not other 4xx errors, and give up
+      // straight away if the upstream asks us to wait longer than we would
+      if (error.statusCode === 429) {
+        return (error.retryAfter ?? 0) * 1000 > RETRY_CONFIG.maxDelayMs;
+      }
+      return true;
     }
   }
   
@@ -148,7 +177,13 @@ interface NoaaTimeSeries {
   data: NoaaDataPoint[];  // Time series data points
 }
 
-interface NoaaStreamflowResponse {
+/** Medium/Long-range block: mean plus optional ensemble members */
+interface NoaaEnsembleSeries {
+  mean?: NoaaTimeSeries;
+  [memberKey: `member${number}`]: NoaaTimeSeries | undefined;
+}
+
+export interface NoaaStreamflowResponse {
   reach: {
     reachId: string;
     name: string;
@@ -164,20 +199,89 @@ interface NoaaStreamflowResponse {
   shortRange?: {
     series?: NoaaTimeSeries;    // Note: uses 'series' key
   };
-  mediumRange?: {
-    mean?: NoaaTimeSeries;      // Note: uses 'mean' key  
+  mediumRange?: NoaaEnsembleSeries;  // Note: uses 'mean' + 'memberN' keys
+  longRange?: NoaaEnsembleSeries;    // Note: uses 'mean' + 'memberN' keys
+  analysisAssimilation?: {
+    series?: NoaaTimeSeries;    // Note: uses 'series' key (like short range)
   };
-  longRange?: {
-    mean?: NoaaTimeSeries;      // Note: uses 'mean' key
+  mediumRangeBlend?: {
+    series?: NoaaTimeSeries;    // Note: uses 'series' key (like short range)
   };
-  analysisAssimilation?: any;
-  mediumRangeBlend?: any;
+}
+
+/**
+ * Source of raw NWPS streamflow responses
+ * Implementations throw ApiError like the NWPS API would (404 for an unknown
+ * reach or unavailable series).
+ */
+export interface FlowDataProvider {
+  name: FlowDataProviderName;
+  getStreamflow(reachId: ReachId, series: StreamflowSeriesName): Promise<NoaaStreamflowResponse>;
+}
+
+/**
+ * Flow-data provider chosen by config (see module doc)
+ */
+export function getFlowDataProvider(): FlowDataProvider {
+  switch (publicConfig.flowData?.provider) {
+    case 'fixture':
+      return fixtureFlowDataProvider;
+    default:
+      return nwpsFlowDataProvider;
+  }
+}
+
+/** Options for the ensemble-capable (medium/long) range functions */
+export interface EnsembleForecastOptions {
+  /** Also return every ensemble member (`member1..memberN`) alongside the mean */
+  includeMembers?: boolean;
 }
 
 // ========================================
 // Individual Range Fetch Functions with Retry Logic
 // ========================================
 
+/**
+ * Fetch Analysis & Assimilation streamflow (observed/nowcast) with retry logic
+ * 
+ * @param reachId - NOAA reach identifier (e.g., "10376192")
+ * @returns Normalized forecast with a single 'analysis' horizon series
+ * 
+ * Use case: Current conditions, "what is the river doing right now"
+ * Update frequency: Hourly
+ * Coverage: Recent past hours up to the latest model cycle
+ * Temporal resolution: 1 hour
+ */
+export async function getAnalysisAssimilation(reachId: ReachId): Promise<NormalizedFlowForecast> {
+  return withRetry(
+    async () => {
+      console.log(`Fetching analysis & assimilation for reach ${reachId}`);
+      
+      // Fetch raw data from NOAA NWPS API
+      const response = await fetchNoaaStreamflow(reachId, 'analysis_assimilation');
+      
+      // Parse the assimilated series (uses .series.data structure)
+      const analysis = normalizeAnalysisAssimilation(response.analysisAssimilation);
+      
+      if (!analysis) {
+        throw new ApiError(
+          `No analysis & assimilation data available for reach ${reachId}`,
+          404,
+          'noaa-analysis-assimilation'
+        );
+      }
+
+      console.log(`Found ${analysis.points.length} analysis & assimilation data points`);
+
+      return {
+        reachId,
+        series: [analysis]
+      };
+    },
+    `Analysis & assimilation for reach ${reachId}`
+  );
+}
+
 /**
  * Fetch short-range streamflow forecast (18-hour hourly) with retry logic
  * 
@@ -219,13 +323,22 @@ export async function getShortRangeForecast(reachId: ReachId): Promise<Normalize
       };
 
       // Build normalized forecast using existing utility
-      return buildNormalizedForecast(reachId, [
+      const forecast = buildNormalizedForecast(reachId, [
         {
           horizon: 'short' as Horizon,
           label: 'mean',
-          raw: normalizedData
+          raw: normalizedData,
+          referenceTime: timeSeries.referenceTime
         }
       ]);
+
+      // Keep the assimilated (observed/nowcast) series when NOAA sends it along
+      const analysis = normalizeAnalysisAssimilation(response.analysisAssimilation);
+      if (analysis) {
+        forecast.series.push(analysis);
+      }
+
+      return forecast;
     },
     `Short-range forecast for reach ${reachId}`
   );
@@ -235,6 +348,7 @@ export async function getShortRangeForecast(reachId: ReachId): Promise<Normalize
  * Fetch medium-range streamflow forecast (~10-day) with retry logic
  * 
  * @param reachId - NOAA reach identifier
+ * @param options - Set `includeMembers` to also return each ensemble member
  * @returns Normalized forecast with 'medium' horizon
  * 
  * Use case: Weekly planning, reservoir operations, medium-term flood risk
@@ -242,7 +356,10 @@ export async function getShortRangeForecast(reachId: ReachId): Promise<Normalize
  * Forecast length: ~10 days
  * Temporal resolution: 6 hours
  */
-export async function getMediumRangeForecast(reachId: ReachId): Promise<NormalizedFlowForecast> {
+export async function getMediumRangeForecast(
+  reachId: ReachId,
+  options: EnsembleForecastOptions = {}
+): Promise<NormalizedFlowForecast> {
   return withRetry(
     async () => {
       console.log(`Fetching medium-range forecast for reach ${reachId}`);
@@ -271,23 +388,89 @@ export async function getMediumRangeForecast(reachId: ReachId): Promise<Normaliz
         }))
       };
 
+      // Ensemble members are opt-in (each one is as large as the mean series)
+      const members = options.includeMembers
+        ? extractEnsembleMembers(response.mediumRange, 'medium')
+        : [];
+
+      if (options.includeMembers) {
+        console.log(`Found ${members.length} medium-range ensemble members`);
+      }
+
       // Build normalized forecast using existing utility
       return buildNormalizedForecast(reachId, [
         {
           horizon: 'medium' as Horizon,
           label: 'mean',
-          raw: normalizedData
-        }
+          raw: normalizedData,
+          referenceTime: timeSeries.referenceTime
+        },
+        ...members
       ]);
     },
     `Medium-range forecast for reach ${reachId}`
   );
 }
 
+/**
+ * Fetch medium-range blend streamflow forecast (~10-day) with retry logic
+ * 
+ * @param reachId - NOAA reach identifier
+ * @returns Normalized forecast with 'medium_blend' horizon
+ * 
+ * Use case: Same as medium range; forecasters treat the blend as the more skillful product
+ * Update frequency: Every 6 hours
+ * Forecast length: ~10 days
+ * Temporal resolution: 1 hour
+ */
+export async function getMediumRangeBlendForecast(reachId: ReachId): Promise<NormalizedFlowForecast> {
+  return withRetry(
+    async () => {
+      console.log(`Fetching medium-range blend forecast for reach ${reachId}`);
+      
+      // Fetch raw data from NOAA NWPS API
+      const response = await fetchNoaaStreamflow(reachId, 'medium_range_blend');
+      
+      // Extract time series data (blend uses .series.data structure, like short range)
+      const timeSeries = response.mediumRangeBlend?.series;
+      
+      if (!timeSeries?.data || timeSeries.data.length === 0) {
+        throw new ApiError(
+          `No medium-range blend data available for reach ${reachId}`,
+          404,
+          'noaa-medium-range-blend'
+        );
+      }
+
+      console.log(`Found ${timeSeries.data.length} medium-range blend data points`);
+
+      // Convert NOAA format to our normalized format
+      const normalizedData = {
+        points: timeSeries.data.map(point => ({
+          time: point.validTime,
+          flow_cms: point.flow / 35.314666721 // Convert CFS to CMS for normalizer
+        }))
+      };
+
+      // Build normalized forecast using existing utility
+      return buildNormalizedForecast(reachId, [
+        {
+          horizon: 'medium_blend' as Horizon,
+          label: 'mean',
+          raw: normalizedData,
+          referenceTime: timeSeries.referenceTime
+        }
+      ]);
+    },
+    `Medium-range blend forecast for reach ${reachId}`
+  );
+}
+
 /**
  * Fetch long-range streamflow forecast (~30-day) with retry logic
  * 
  * @param reachId - NOAA reach identifier
+ * @param options - Set `includeMembers` to also return each ensemble member
  * @returns Normalized forecast with 'long' horizon
  * 
  * Use case: Seasonal planning, long-term water management, drought monitoring
@@ -295,7 +478,10 @@ export async function getMediumRangeForecast(reachId: ReachId): Promise<Normaliz
  * Forecast length: ~30 days  
  * Temporal resolution: Daily
  */
-export async function getLongRangeForecast(reachId: ReachId): Promise<NormalizedFlowForecast> {
+export async function getLongRangeForecast(
+  reachId: ReachId,
+  options: EnsembleForecastOptions = {}
+): Promise<NormalizedFlowForecast> {
   return withRetry(
     async () => {
       console.log(`Fetching long-range forecast for reach ${reachId}`);
@@ -324,13 +510,24 @@ export async function getLongRangeForecast(reachId: ReachId): Promise<Normalized
         }))
       };
 
+      // Ensemble members are opt-in (each one is as large as the mean series)
+      const members = options.includeMembers
+        ? extractEnsembleMembers(response.longRange, 'long')
+        : [];
+
+      if (options.includeMembers) {
+        console.log(`Found ${members.length} long-range ensemble members`);
+      }
+
       // Build normalized forecast using existing utility
       return buildNormalizedForecast(reachId, [
         {
           horizon: 'long' as Horizon,
           label: 'mean',
-          raw: normalizedData
-        }
+          raw: normalizedData,
+          referenceTime: timeSeries.referenceTime
+        },
+        ...members
       ]);
     },
     `Long-range forecast for reach ${reachId}`
@@ -341,6 +538,7 @@ export async function getLongRangeForecast(reachId: ReachId): Promise<Normalized
  * Fetch all available forecast ranges for a reach
  * 
  * @param reachId - NOAA reach identifier
+ * @param options - Set `includeMembers` to also return medium/long ensemble members
  * @returns Combined normalized forecast with all available horizons
  * 
  * This function attempts to fetch short, medium, and long-range forecasts
@@ -349,7 +547,10 @@ export async function getLongRangeForecast(reachId: ReachId): Promise<Normalized
  * 
  * Use case: Comprehensive hydrograph display showing multiple time horizons
  */
-export async function getAllRangeForecasts(reachId: ReachId): Promise<NormalizedFlowForecast> {
+export async function getAllRangeForecasts(
+  reachId: ReachId,
+  options: EnsembleForecastOptions = {}
+): Promise<NormalizedFlowForecast> {
   return withRetry(
     async () => {
       console.log(`Fetching all forecast ranges for reach ${reachId}`);
@@ -358,8 +559,8 @@ export async function getAllRangeForecasts(reachId: ReachId): Promise<Normalized
       // Note: Each individual function already has retry logic
       const [shortResult, mediumResult, longResult] = await Promise.allSettled([
         getShortRangeForecast(reachId),
-        getMediumRangeForecast(reachId),
-        getLongRangeForecast(reachId)
+        getMediumRangeForecast(reachId, options),
+        getLongRangeForecast(reachId, options)
       ]);
 
       // Collect all successful forecast series
@@ -410,82 +611,158 @@ export async function getAllRangeForecasts(reachId: ReachId): Promise<Normalized
   );
 }
 
+/**
+ * Fetch the forecast for a range selector (as accepted by /api/flow)
+ * 
+ * @param reachId - NOAA reach identifier
+ * @param range - Single horizon or 'all'
+ * @param options - Set `includeMembers` to also return medium/long ensemble members
+ * @returns Normalized forecast for that range
+ * 
+ * Shared by the single-reach and batch flow routes. Each issuance served is
+ * also stored in the forecast archive (in the background) for run-to-run comparison.
+ */
+export async function getForecastByRange(
+  reachId: ReachId,
+  range: ForecastRange,
+  options: EnsembleForecastOptions = {}
+): Promise<NormalizedFlowForecast> {
+  const forecast = await fetchForecastForRange(reachId, range, options);
+
+  // Don't hold the response for the disk write
+  void archiveForecast(forecast);
+
+  return forecast;
+}
+
+/**
+ * Dispatch a range selector to the matching fetch function
+ */
+async function fetchForecastForRange(
+  reachId: ReachId,
+  range: ForecastRange,
+  options: EnsembleForecastOptions
+): Promise<NormalizedFlowForecast> {
+  switch (range) {
+    case 'analysis':
+      console.log(`Fetching analysis & assimilation for reach ${reachId}`);
+      return getAnalysisAssimilation(reachId);
+
+    case 'short':
+      console.log(`Fetching short-range forecast for reach ${reachId}`);
+      return getShortRangeForecast(reachId);
+
+    case 'medium':
+      console.log(`Fetching medium-range forecast for reach ${reachId}`);
+      return getMediumRangeForecast(reachId, options);
+
+    case 'medium_blend':
+      console.log(`Fetching medium-range blend forecast for reach ${reachId}`);
+      return getMediumRangeBlendForecast(reachId);
+
+    case 'long':
+      console.log(`Fetching long-range forecast for reach ${reachId}`);
+      return getLongRangeForecast(reachId, options);
+
+    case 'all':
+      console.log(`Fetching all available forecasts for reach ${reachId}`);
+      return getAllRangeForecasts(reachId, options);
+
+    default:
+      throw new ApiError(`Unsupported range: ${range}`, 400, 'noaa-range');
+  }
+}
+
 // ========================================
 // Helper Functions
 // ========================================
 
 /**
- * Low-level function to fetch streamflow data from NOAA NWPS API
+ * Collect ensemble members (`member1..memberN`) from a medium/long-range block
+ * 
+ * @param ensemble - Raw NOAA ensemble block (mean + members)
+ * @param horizon - Horizon to tag each member series with
+ * @returns Normalizer inputs ordered by member number; empty members are skipped
+ */
+function extractEnsembleMembers(
+  ensemble: NoaaEnsembleSeries | undefined,
+  horizon: Horizon
+): Array<{
+  horizon: Horizon;
+  label: SeriesLabel;
+  raw: { points: Array<{ time: string; flow_cms: number }> };
+  referenceTime?: string;
+}> {
+  if (!ensemble) return [];
+
+  return Object.keys(ensemble)
+    .filter((key): key is `member${number}` => /^member\d+$/.test(key))
+    .sort((a, b) => Number(a.slice(6)) - Number(b.slice(6)))
+    .filter(key => (ensemble[key]?.data?.length ?? 0) > 0)
+    .map(key => ({
+      horizon,
+      label: key,
+      referenceTime: ensemble[key]!.referenceTime,
+      raw: {
+        points: ensemble[key]!.data.map(point => ({
+          time: point.validTime,
+          flow_cms: point.flow / 35.314666721 // Convert CFS to CMS for normalizer
+        }))
+      }
+    }));
+}
+
+/**
+ * Fetch streamflow data from the flow-data provider through the server-side cache
  * 
  * @param reachId - NOAA reach identifier
  * @param series - Forecast series type
- * @returns Raw NOAA API response
+ * @returns Raw NOAA API response (possibly cached/stale while revalidating)
  * 
- * This function handles the HTTP request and basic error handling.
- * Series-specific data extraction is handled by the calling functions.
  * Note: This function does NOT have retry logic - retries are handled at the higher level.
  */
 async function fetchNoaaStreamflow(
   reachId: ReachId,
   series: StreamflowSeriesName
 ): Promise<NoaaStreamflowResponse> {
-  const url = `${publicConfig.api.noaaBaseUrl}/reaches/${reachId}/streamflow?series=${series}`;
-  
-  try {
-    console.log(`Making request to: ${url}`);
-    
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'HydroDash/1.0'
-      },
-      // 30 second timeout for external API
-      signal: AbortSignal.timeout(30000)
-    });
+  const { data, status } = await getCachedForecast(
+    reachId,
+    series,
+    () => getFlowDataProvider().getStreamflow(reachId, series),
+    response => getResponseReferenceTime(response, series)
+  );
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new ApiError(
-          `Reach ${reachId} not found or no ${series} data available`,
-          404,
-          url
-        );
-      }
-      
-      throw new ApiError(
-        `NOAA API returned ${response.status}: ${response.statusText}`,
-        response.status,
-        url,
-        await response.text().catch(() => 'No response body')
-      );
-    }
+  if (status !== 'MISS') {
+    console.log(`[ForecastCache] ${status} ${series} for reach ${reachId}`);
+  }
 
-    const data: NoaaStreamflowResponse = await response.json();
-    
-    // Validate basic response structure
-    if (!data.reach?.reachId) {
-      throw new ApiError(
-        'Invalid response format from NOAA API - missing reach data',
-        500,
-        url,
-        JSON.stringify(data)
-      );
-    }
+  return data;
+}
 
-    console.log(`✓ Successfully fetched ${series} data for ${data.reach.name || reachId}`);
-    return data;
-    
-  } catch (error) {
-    if (error instanceof ApiError) throw error;
-    
-    throw new ApiError(
-      `Network error fetching NOAA ${series} data`,
-      500,
-      url,
-      undefined,
-      error
-    );
-  }
+/**
+ * Get the model issuance (referenceTime) of the requested series, falling back
+ * to whichever series the response carries
+ */
+function getResponseReferenceTime(
+  response: NoaaStreamflowResponse,
+  series: StreamflowSeriesName
+): string | undefined {
+  const requested: Record<StreamflowSeriesName, string | undefined> = {
+    analysis_assimilation: response.analysisAssimilation?.series?.referenceTime,
+    short_range: response.shortRange?.series?.referenceTime,
+    medium_range: response.mediumRange?.mean?.referenceTime,
+    medium_range_blend: response.mediumRangeBlend?.series?.referenceTime,
+    long_range: response.longRange?.mean?.referenceTime,
+  };
+
+  return (
+    requested[series] ??
+    response.analysisAssimilation?.series?.referenceTime ??
+    response.shortRange?.series?.referenceTime ??
+    response.mediumRange?.mean?.referenceTime ??
+    response.mediumRangeBlend?.series?.referenceTime ??
+    response.longRange?.mean?.referenceTime
+  );
 }
 
 /**
@@ -0,0 +1,148 @@
+// services/nominatimGeocodingService.ts
+/**
+ * Nominatim geocoding provider for HydroDash
+ *
+ * Reverse and forward geocoding against any Nominatim-compatible API: the public
+ * OpenStreetMap instance (max 1 request/second, attribution required) or a
+ * self-hosted one for air-gapped deployments. No token needed.
+ * Used through services/geocodingService.ts, which adds caching and display formatting.
+ *
+ * Base URL: `publicConfig.geocoding.nominatimBaseUrl`, otherwise the public endpoint.
+ */
+
+import { publicConfig } from '@/config';
+import type { Geocoder } from '@/services/geocodingService';
+import { parseRetryAfter } from '@/lib/utils/apiErrors';
+import {
+  LocationComponents,
+  NominatimPlace,
+  GeocodingError,
+  GeocoderFetch,
+  isValidCoordinates
+} from '@/types/models/Location';
+
+/** Degrees around the proximity point that bias (not restrict) search results */
+const PROXIMITY_VIEWBOX_DEGREES = 1;
+
+/** Nominatim address types that are street addresses / points of interest */
+const ADDRESS_TYPES = ['house', 'building', 'road', 'house_number'];
+const POI_CATEGORIES = ['amenity', 'tourism', 'leisure', 'shop', 'natural', 'waterway'];
+
+export const nominatimGeocoder: Geocoder = {
+  name: 'nominatim',
+
+  async reverse(coordinates, { language, signal, fetch: fetchFn }) {
+    const url = new URL(`${getNominatimBaseUrl()}/reverse`);
+    url.searchParams.set('format', 'jsonv2');
+    url.searchParams.set('lat', coordinates.latitude.toString());
+    url.searchParams.set('lon', coordinates.longitude.toString());
+    url.searchParams.set('zoom', '10'); // City level
+    url.searchParams.set('addressdetails', '1');
+    url.searchParams.set('accept-language', language);
+
+    const data = await requestJson<NominatimPlace | { error: string }>(url, signal, fetchFn);
+
+    // Nominatim answers 200 with an error body when nothing is at the point
+    if ('error' in data || !data.address) return null;
+
+    return toLocationComponents(data);
+  },
+
+  async forward(query, { limit = 5, proximity, language = 'en', signal, fetch: fetchFn }) {
+    const url = new URL(`${getNominatimBaseUrl()}/search`);
+    url.searchParams.set('format', 'jsonv2');
+    url.searchParams.set('q', query);
+    url.searchParams.set('limit', limit.toString());
+    url.searchParams.set('addressdetails', '1');
+    url.searchParams.set('accept-language', language);
+    if (proximity && isValidCoordinates(proximity)) {
+      const { latitude, longitude } = proximity;
+      const d = PROXIMITY_VIEWBOX_DEGREES;
+      // left,top,right,bottom; bounded=0 keeps results outside the box
+      url.searchParams.set('viewbox', `${longitude - d},${latitude + d},${longitude + d},${latitude - d}`);
+      url.searchParams.set('bounded', '0');
+    }
+
+    const places = await requestJson<NominatimPlace[]>(url, signal, fetchFn);
+    if (!Array.isArray(places)) {
+      throw new GeocodingError('Invalid response format from Nominatim API', 'API_ERROR');
+    }
+
+    return places.map(place => ({
+      id: String(place.place_id),
+      name: place.name || place.display_name.split(',')[0],
+      fullName: place.display_name,
+      coordinates: {
+        latitude: Number(place.lat),
+        longitude: Number(place.lon)
+      },
+      placeTypes: [getPlaceType(place)],
+      relevance: Math.max(0, Math.min(1, place.importance ?? 0.5))
+    }));
+  },
+};
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function getNominatimBaseUrl(): string {
+  return (publicConfig.geocoding?.nominatimBaseUrl || 'https://nominatim.openstreetmap.org').replace(/\/$/, '');
+}
+
+/**
+ * Nominatim address → LocationComponents (city falls back through town, village...)
+ */
+function toLocationComponents(place: NominatimPlace): LocationComponents {
+  const address = place.address ?? {};
+
+  return {
+    city: address.city || address.town || address.village || address.hamlet || address.municipality || address.county,
+    state: address.state,
+    country: address.country,
+    countryCode: address.country_code?.toUpperCase(),
+    fullAddress: place.display_name
+  };
+}
+
+/**
+ * Nominatim category/type → Mapbox-style place type ("address" | "poi" | "place")
+ */
+function getPlaceType(place: NominatimPlace): string {
+  if (place.addresstype && ADDRESS_TYPES.includes(place.addresstype)) return 'address';
+  if (place.category && POI_CATEGORIES.includes(place.category)) return 'poi';
+  return 'place';
+}
+
+/**
+ * GET JSON from Nominatim
+ *
+ * @throws GeocodingError on HTTP errors (RATE_LIMITED on 429)
+ */
+async function requestJson<T>(url: URL, signal?: AbortSignal, fetchFn: GeocoderFetch = fetch): Promise<T> {
+  const response = await fetchFn(url.toString(), {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json',
+    },
+    signal,
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new GeocodingError(
+        'Rate limit exceeded',
+        'RATE_LIMITED',
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    throw new GeocodingError(
+      `Nominatim API error: ${response.status} ${response.statusText}`,
+      'API_ERROR',
+      response.status
+    );
+  }
+
+  return await response.json() as T;
+}
@@ -0,0 +1,224 @@
+// services/nwmRetrospectiveService.ts
+/**
+ * NWM retrospective simulation service for HydroDash
+ *
+ * Reads the NWM v3 retrospective run (hourly streamflow per reach, in CMS)
+ * from the configured NWM API and reduces it to a day-of-year climatology:
+ * daily means → 5/25/50/75/95th percentiles per day of year, in CFS.
+ *
+ * Base URL: `NWM_BASE_URL` environment variable if set (e.g. a local fixture
+ * server), otherwise `publicConfig.api.nwmBaseUrl`.
+ *
+ * Climatologies are cached per reach + year range; the retrospective record
+ * never changes, so entries only leave the cache when it is full.
+ */
+
+import { publicConfig, getServerConfig } from '@/config';
+import { cmsToCfs } from '@/lib/utils/units';
+import { toDailyMeans, computeDayOfYearPercentiles } from '@/lib/utils/climatology';
+import { isTimeoutError, parseRetryAfter } from '@/lib/utils/apiErrors';
+import type {
+  ReachId,
+  ReachClimatology,
+  RetrospectiveResponse,
+} from '@/types';
+import { ApiError } from '@/types/utils';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** Years covered by the NWM v3 retrospective run */
+export const RETROSPECTIVE_FIRST_YEAR = 1979;
+export const RETROSPECTIVE_LAST_YEAR = 2023;
+
+/** Default climate normal period */
+export const DEFAULT_START_YEAR = 1991;
+export const DEFAULT_END_YEAR = 2020;
+
+/** Days either side of each day of year pooled into its percentiles */
+const WINDOW_DAYS = 7;
+
+const MAX_CACHE_SIZE = 200;
+
+const climatologyCache = new Map<string, ReachClimatology>();
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Day-of-year flow percentiles for a reach from the retrospective simulation
+ *
+ * @param reachId - NWM feature ID (same as the NOAA reach ID)
+ * @param startYear - First year of the record to use (inclusive)
+ * @param endYear - Last year of the record to use (inclusive)
+ * @returns Climatology with values in CFS
+ * @throws ApiError 404 if the reach has no retrospective data
+ */
+export async function getReachClimatology(
+  reachId: ReachId,
+  startYear: number = DEFAULT_START_YEAR,
+  endYear: number = DEFAULT_END_YEAR
+): Promise<ReachClimatology> {
+  const cacheKey = `${reachId}-${startYear}-${endYear}`;
+
+  const cached = climatologyCache.get(cacheKey);
+  if (cached) {
+    console.log(`[NwmRetrospective] Cache hit for ${cacheKey}`);
+    return cached;
+  }
+
+  const rows = await requestRetrospective(reachId, startYear, endYear);
+
+  const dailyMeans = toDailyMeans(
+    rows
+      .filter(row => Number.isFinite(row.streamflow) && row.streamflow >= 0)
+      .map(row => ({ t: toIsoUtc(row.time), q: cmsToCfs(row.streamflow) }))
+  );
+
+  if (dailyMeans.size === 0) {
+    throw new ApiError(
+      `No retrospective data for reach ${reachId} between ${startYear} and ${endYear}`,
+      404,
+      'nwm-retrospective'
+    );
+  }
+
+  const climatology: ReachClimatology = {
+    reachId,
+    startYear,
+    endYear,
+    windowDays: WINDOW_DAYS,
+    days: computeDayOfYearPercentiles(dailyMeans, WINDOW_DAYS),
+  };
+
+  // Evict the oldest entry once full
+  if (climatologyCache.size >= MAX_CACHE_SIZE) {
+    const oldestKey = climatologyCache.keys().next().value;
+    if (oldestKey !== undefined) climatologyCache.delete(oldestKey);
+  }
+  climatologyCache.set(cacheKey, climatology);
+
+  console.log(`✓ Built ${startYear}-${endYear} climatology for reach ${reachId} from ${dailyMeans.size} days`);
+  return climatology;
+}
+
+/**
+ * Clear the climatology cache (useful for testing)
+ */
+export function clearClimatologyCache(): void {
+  climatologyCache.clear();
+}
+
+/**
+ * Get cache statistics
+ */
+export function getClimatologyCacheStats() {
+  return {
+    size: climatologyCache.size,
+    maxSize: MAX_CACHE_SIZE,
+    keys: Array.from(climatologyCache.keys()),
+  };
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+/**
+ * Base URL for the NWM API (env override for local fixture servers)
+ */
+function getNwmBaseUrl(): string {
+  return process.env.NWM_BASE_URL || publicConfig.api.nwmBaseUrl;
+}
+
+/**
+ * Retrospective timestamps come back as "YYYY-MM-DD HH:MM:SS" (UTC) — make them ISO
+ */
+function toIsoUtc(time: string): string {
+  const iso = time.includes('T') ? time : time.replace(' ', 'T');
+  return /Z|[+-]\d{2}:?\d{2}$/.test(iso) ? iso : `${iso}Z`;
+}
+
+/**
+ * Low-level request for retrospective streamflow rows
+ * Note: This function does NOT cache - use getReachClimatology instead.
+ */
+async function requestRetrospective(
+  reachId: ReachId,
+  startYear: number,
+  endYear: number
+): Promise<RetrospectiveResponse> {
+  const url = new URL('/retrospective', getNwmBaseUrl());
+  url.searchParams.set('comids', reachId);
+  url.searchParams.set('start_time', `${startYear}-01-01T00:00:00`);
+  url.searchParams.set('end_time', `${endYear}-12-31T23:00:00`);
+  url.searchParams.set('output_format', 'json');
+
+  const apiKey = getServerConfig().secrets.api?.nwmApiKey;
+  if (apiKey) url.searchParams.set('key', apiKey);
+
+  // Log without the key
+  const endpoint = `${url.origin}${url.pathname}?comids=${reachId}`;
+
+  try {
+    console.log(`Making request to: ${endpoint} (${startYear}-${endYear})`);
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'HydroDash/1.0'
+      },
+      // Decades of hourly data take a while to assemble upstream
+      signal: AbortSignal.timeout(120000)
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new ApiError(
+          `Reach ${reachId} not found in the NWM retrospective`,
+          404,
+          endpoint
+        );
+      }
+
+      throw new ApiError(
+        `NWM API returned ${response.status}: ${response.statusText}`,
+        response.status,
+        endpoint,
+        await response.text().catch(() => 'No response body'),
+        undefined,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    const data: unknown = await response.json();
+
+    if (!Array.isArray(data)) {
+      throw new ApiError(
+        'Invalid response format from NWM API - expected an array of rows',
+        500,
+        endpoint,
+        JSON.stringify(data).slice(0, 500)
+      );
+    }
+
+    return data as RetrospectiveResponse;
+
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+
+    if (isTimeoutError(error)) {
+      throw new ApiError('Timed out fetching NWM retrospective data', 504, endpoint, undefined, error);
+    }
+
+    throw new ApiError(
+      'Network error fetching NWM retrospective data',
+      500,
+      endpoint,
+      undefined,
+      error
+    );
+  }
+}
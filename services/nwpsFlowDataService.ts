@@ -0,0 +1,91 @@
+// services/nwpsFlowDataService.ts
+/**
+ * NOAA NWPS flow-data provider for HydroDash
+ *
+ * Raw streamflow responses from the National Water Prediction Service API
+ * (`publicConfig.api.noaaBaseUrl`), recorded or replayed when upstream recording
+ * is on (services/upstreamRecordingService.ts). Used through services/noaaService.ts,
+ * which adds retries, the server-side forecast cache and normalization.
+ */
+
+import { publicConfig } from '@/config';
+import type { FlowDataProvider, NoaaStreamflowResponse } from '@/services/noaaService';
+import { isTimeoutError, parseRetryAfter } from '@/lib/utils/apiErrors';
+import { ApiError } from '@/types/utils';
+import { upstreamFetch } from '@/services/upstreamRecordingService';
+
+export const nwpsFlowDataProvider: FlowDataProvider = {
+  name: 'nwps',
+
+  /**
+   * Request streamflow data from the NOAA NWPS API
+   *
+   * Handles the HTTP request and basic error handling; series-specific data
+   * extraction is left to the caller.
+   */
+  async getStreamflow(reachId, series) {
+    const url = `${publicConfig.api.noaaBaseUrl}/reaches/${reachId}/streamflow?series=${series}`;
+
+    try {
+      console.log(`Making request to: ${url}`);
+
+      const response = await upstreamFetch('noaa', url, {
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'HydroDash/1.0'
+        },
+        // 30 second timeout for external API
+        signal: AbortSignal.timeout(30000)
+      });
+
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new ApiError(
+            `Reach ${reachId} not found or no ${series} data available`,
+            404,
+            url
+          );
+        }
+
+        throw new ApiError(
+          `NOAA API returned ${response.status}: ${response.statusText}`,
+          response.status,
+          url,
+          await response.text().catch(() => 'No response body'),
+          undefined,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+
+      const data: NoaaStreamflowResponse = await response.json();
+
+      // Validate basic response structure
+      if (!data.reach?.reachId) {
+        throw new ApiError(
+          'Invalid response format from NOAA API - missing reach data',
+          500,
+          url,
+          JSON.stringify(data)
+        );
+      }
+
+      console.log(`✓ Successfully fetched ${series} data for ${data.reach.name || reachId}`);
+      return data;
+
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+
+      if (isTimeoutError(error)) {
+        throw new ApiError(`Timed out fetching NOAA ${series} data`, 504, url, undefined, error);
+      }
+
+      throw new ApiError(
+        `Network error fetching NOAA ${series} data`,
+        500,
+        url,
+        undefined,
+        error
+      );
+    }
+  },
+};
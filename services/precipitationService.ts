@@ -0,0 +1,207 @@
+// services/precipitationService.ts
+/**
+ * Precipitation service for HydroDash
+ *
+ * Hourly precipitation for a point over a window around now (past hours plus
+ * forecast), with local daily totals and past/forecast totals, so rainfall can
+ * be read against the hydrograph.
+ *
+ * Providers:
+ * - weatherkit: WeatherKit hourly forecast (past hours are WeatherKit's own
+ *   hindcast for the hour, not gauge-measured rainfall)
+ * - stub: deterministic synthetic storms around now, for development and demos
+ *   without WeatherKit credentials
+ *
+ * Provider selection: `PRECIPITATION_PROVIDER` environment variable
+ * ("weatherkit" | "stub") if set, otherwise WeatherKit when configured,
+ * otherwise the stub in development only.
+ */
+
+import { isDevelopment } from '@/config';
+import { getHourlyForecast, isWeatherConfigured } from '@/services/weatherService';
+import { roundMm, splitTotals, toDailyTotals } from '@/lib/utils/precipitation';
+import type { PrecipitationPoint, PrecipitationProviderName, PrecipitationSeries } from '@/types';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** Longest windows a request may ask for (WeatherKit serves 10 days ahead) */
+export const MAX_PAST_HOURS = 72;
+export const MAX_FORECAST_HOURS = 240;
+
+/** Hourly forecasts refresh hourly; matches the weather cache */
+const PRECIPITATION_CACHE_TTL = 10 * 60 * 1000;
+
+const MAX_CACHE_SIZE = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Source of hourly precipitation
+ * Implementations throw ApiError for upstream failures.
+ */
+export interface PrecipitationProvider {
+  name: PrecipitationProviderName;
+  /** Hourly precipitation in [start, end), sorted by time */
+  getHourly(lat: number, lon: number, start: Date, end: Date): Promise<PrecipitationPoint[]>;
+}
+
+export interface PrecipitationWindow {
+  /** Hours before the current hour (0..MAX_PAST_HOURS) */
+  pastHours: number;
+  /** Hours from the current hour on (1..MAX_FORECAST_HOURS) */
+  hours: number;
+  /** IANA timezone the daily totals are grouped by */
+  timezone: string;
+}
+
+const precipitationCache = new Map<string, { data: PrecipitationSeries; timestamp: number }>();
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Hourly and daily precipitation around now for a point
+ *
+ * @param lat - Latitude (WGS84)
+ * @param lon - Longitude (WGS84)
+ * @param window - Past/forecast hours and timezone for daily totals
+ * @param provider - Precipitation provider (defaults to getPrecipitationProvider())
+ * @returns Series with daily and past/forecast totals (mm)
+ * @throws ApiError on upstream or network failures
+ * @throws Error when no provider is available (check getPrecipitationProvider first)
+ */
+export async function getPrecipitation(
+  lat: number,
+  lon: number,
+  { pastHours, hours, timezone }: PrecipitationWindow,
+  provider: PrecipitationProvider | null = getPrecipitationProvider()
+): Promise<PrecipitationSeries> {
+  if (!provider) {
+    throw new Error('No precipitation provider configured');
+  }
+
+  // Same ~1 km rounding as the weather cache
+  const location = { lat: roundCoordinate(lat), lon: roundCoordinate(lon) };
+  const cacheKey = `${provider.name}-${location.lat},${location.lon}-${pastHours}-${hours}-${timezone}`;
+
+  const cached = precipitationCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < PRECIPITATION_CACHE_TTL) {
+    console.log(`[PrecipitationService] Cache hit for ${cacheKey}`);
+    return cached.data;
+  }
+
+  const currentHour = floorToHour(new Date());
+  const start = new Date(currentHour.getTime() - pastHours * HOUR_MS);
+  const end = new Date(currentHour.getTime() + hours * HOUR_MS);
+
+  const hourly = await provider.getHourly(location.lat, location.lon, start, end);
+
+  const series: PrecipitationSeries = {
+    location,
+    timezone,
+    provider: provider.name,
+    hourly,
+    daily: toDailyTotals(hourly, timezone),
+    ...splitTotals(hourly),
+    fetchedAt: new Date().toISOString(),
+  };
+
+  // Evict the oldest entry once full
+  if (precipitationCache.size >= MAX_CACHE_SIZE && !precipitationCache.has(cacheKey)) {
+    const oldestKey = precipitationCache.keys().next().value;
+    if (oldestKey !== undefined) precipitationCache.delete(oldestKey);
+  }
+  precipitationCache.set(cacheKey, { data: series, timestamp: Date.now() });
+
+  console.log(`✓ Fetched ${hourly.length} hours of precipitation (${provider.name}) for ${location.lat},${location.lon}`);
+  return series;
+}
+
+/**
+ * Provider to use in this environment, or null when none is available
+ */
+export function getPrecipitationProvider(): PrecipitationProvider | null {
+  const requested = process.env.PRECIPITATION_PROVIDER;
+  if (requested === 'stub') return stubPrecipitationProvider;
+  if (requested === 'weatherkit') return isWeatherConfigured() ? weatherKitPrecipitationProvider : null;
+
+  if (isWeatherConfigured()) return weatherKitPrecipitationProvider;
+  return isDevelopment() ? stubPrecipitationProvider : null;
+}
+
+/**
+ * Clear the precipitation cache (useful for testing)
+ */
+export function clearPrecipitationCache(): void {
+  precipitationCache.clear();
+}
+
+// ========================================
+// Providers
+// ========================================
+
+export const weatherKitPrecipitationProvider: PrecipitationProvider = {
+  name: 'weatherkit',
+
+  async getHourly(lat, lon, start, end) {
+    const hours = await getHourlyForecast(lat, lon, start, end);
+
+    return hours.map(hour => ({
+      t: hour.time,
+      mm: roundMm(hour.precipitationMm ?? 0),
+      probability: hour.precipitationChance,
+    }));
+  },
+};
+
+/** Synthetic storms: hours from the current hour, peak rate (mm/h), spread (h) */
+const STUB_STORMS: Array<{ offsetHours: number; peakMm: number; spreadHours: number }> = [
+  { offsetHours: -30, peakMm: 6, spreadHours: 4 },
+  { offsetHours: 20, peakMm: 3, spreadHours: 6 },
+  { offsetHours: 96, peakMm: 9, spreadHours: 3 },
+];
+
+export const stubPrecipitationProvider: PrecipitationProvider = {
+  name: 'stub',
+
+  async getHourly(lat, lon, start, end) {
+    const currentHour = floorToHour(new Date()).getTime();
+    // Vary intensity by location so neighbouring places don't look identical
+    const scale = 0.75 + 0.5 * Math.abs(Math.sin(lat * 12.9898 + lon * 78.233));
+
+    const points: PrecipitationPoint[] = [];
+    for (let time = floorToHour(start).getTime(); time < end.getTime(); time += HOUR_MS) {
+      const offset = (time - currentHour) / HOUR_MS;
+      const rate = STUB_STORMS.reduce(
+        (sum, storm) => sum + storm.peakMm * Math.exp(-((offset - storm.offsetHours) ** 2) / (2 * storm.spreadHours ** 2)),
+        0
+      ) * scale;
+      const mm = rate < 0.05 ? 0 : roundMm(rate);
+
+      points.push({
+        t: new Date(time).toISOString(),
+        mm,
+        // Past hours happened; forecast hours get a chance that tracks intensity
+        probability: offset < 0 ? undefined : Math.min(100, Math.round(mm > 0 ? 40 + mm * 10 : 5)),
+      });
+    }
+    return points;
+  },
+};
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function floorToHour(date: Date): Date {
+  const floored = new Date(date);
+  floored.setUTCMinutes(0, 0, 0);
+  return floored;
+}
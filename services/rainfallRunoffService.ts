@@ -0,0 +1,74 @@
+// services/rainfallRunoffService.ts
+/**
+ * Rainfall–runoff lag analysis for HydroDash
+ *
+ * Pairs precipitation at a place (past 72 h + 10-day forecast, see
+ * precipitationService) with the discharge its reach is expected to carry
+ * (analysis & assimilation, then short range, then medium range mean) and
+ * reports how many hours after rain the flow typically responds.
+ *
+ * Both inputs are forecasts, so the lag describes how the NWM routes rain
+ * through this reach rather than a measured response.
+ */
+
+import type { RainfallRunoffLag, ReachId } from '@/types';
+import { getForecastByRange } from '@/services/noaaService';
+import {
+  getPrecipitation,
+  getPrecipitationProvider,
+  MAX_FORECAST_HOURS,
+  MAX_PAST_HOURS,
+  type PrecipitationProvider,
+} from '@/services/precipitationService';
+import { getMeanSeries } from '@/lib/utils/flow';
+import { analyzeRainfallRunoffLag, mergeHourlySeries } from '@/lib/utils/rainfallRunoff';
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Typical lag from rain at a place to the flow response on a reach
+ *
+ * @param reachId - NOAA reach identifier
+ * @param lat - Latitude of the place (WGS84)
+ * @param lon - Longitude of the place (WGS84)
+ * @param provider - Precipitation provider (defaults to getPrecipitationProvider())
+ * @returns Lag analysis (lag fields null when there's too little rain or overlap)
+ * @throws ApiError on upstream or network failures
+ */
+export async function getRainfallRunoffLag(
+  reachId: ReachId,
+  lat: number,
+  lon: number,
+  provider: PrecipitationProvider | null = getPrecipitationProvider()
+): Promise<RainfallRunoffLag> {
+  const [precipitation, shortRange, mediumRange] = await Promise.all([
+    getPrecipitation(lat, lon, { pastHours: MAX_PAST_HOURS, hours: MAX_FORECAST_HOURS, timezone: 'UTC' }, provider),
+    getForecastByRange(reachId, 'short'),
+    getForecastByRange(reachId, 'medium'),
+  ]);
+
+  const meanPoints = (horizon: string) =>
+    [...getMeanSeries(shortRange), ...getMeanSeries(mediumRange)]
+      .find(series => series.horizon === horizon)?.points ?? [];
+
+  // Assimilated flow first, then the freshest forecast for each hour
+  const flow = mergeHourlySeries(meanPoints('analysis'), meanPoints('short'), meanPoints('medium'));
+  const rain = precipitation.hourly.map(point => ({ t: point.t, q: point.mm }));
+
+  const analysis = analyzeRainfallRunoffLag(rain, flow);
+
+  console.log(
+    `[RainfallRunoff] Reach ${reachId} at ${precipitation.location.lat},${precipitation.location.lon}: ` +
+    `lag ${analysis.lagHours ?? '--'} h (r=${analysis.correlation?.toFixed(2) ?? '--'}) over ${analysis.overlapHours} h`
+  );
+
+  return {
+    reachId,
+    location: precipitation.location,
+    provider: precipitation.provider,
+    ...analysis,
+    computedAt: new Date().toISOString(),
+  };
+}
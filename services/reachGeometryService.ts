@@ -0,0 +1,168 @@
+// services/reachGeometryService.ts
+/**
+ * Reach geometry service for HydroDash
+ *
+ * Resolves a point to the NHDPlus flowline whose catchment contains it, with its
+ * geometry. Maps that can't draw the Mapbox-hosted stream tileset (MapKit JS)
+ * use this to turn a tap into a reach and to outline the selected reach.
+ * NWM reach IDs are NHDPlus COMIDs, so the flowline's COMID is the reach ID.
+ *
+ * Provider: USGS NLDI `linked-data/comid/position?coords=POINT(lon lat)`
+ *
+ * Base URL: `NLDI_BASE_URL` environment variable if set (e.g. a local fixture
+ * server), otherwise `publicConfig.api.nldiBaseUrl`, otherwise the public endpoint.
+ */
+
+import { publicConfig } from '@/config';
+import { toReachId } from '@/lib/utils/ids';
+import { isTimeoutError, parseRetryAfter } from '@/lib/utils/apiErrors';
+import type { ReachGeometry } from '@/types';
+import { ApiError } from '@/types/utils';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** Flowlines don't move; cache lookups for a day */
+const GEOMETRY_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+const MAX_CACHE_SIZE = 1000;
+
+/** NLDI flowline feature (GeoJSON) */
+interface NldiFlowlineFeature {
+  geometry?: {
+    type: 'LineString' | 'MultiLineString';
+    coordinates: number[][] | number[][][];
+  };
+  properties: {
+    comid?: string | number;
+    identifier?: string;
+  };
+}
+
+const positionCache = new Map<string, { data: ReachGeometry | null; timestamp: number }>();
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Reach whose catchment contains a point
+ *
+ * @param lat - Latitude (WGS84)
+ * @param lon - Longitude (WGS84)
+ * @returns Reach ID and flowline, or null outside NHDPlus coverage (e.g. over the ocean)
+ * @throws ApiError on upstream or network failures
+ */
+export async function findReachAtPoint(lat: number, lon: number): Promise<ReachGeometry | null> {
+  // ~10 m: taps on the same spot share a lookup
+  const cacheKey = `${lat.toFixed(4)},${lon.toFixed(4)}`;
+  const cached = positionCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < GEOMETRY_CACHE_TTL) {
+    return cached.data;
+  }
+
+  const coords = encodeURIComponent(`POINT(${lon.toFixed(6)} ${lat.toFixed(6)})`);
+  const url = `${getNldiBaseUrl()}/linked-data/comid/position?f=json&coords=${coords}`;
+  const response = await requestJson<{ features?: NldiFlowlineFeature[] }>(url);
+
+  const geometry = toReachGeometry(response?.features?.[0]);
+
+  // Evict the oldest entry once full
+  if (positionCache.size >= MAX_CACHE_SIZE && !positionCache.has(cacheKey)) {
+    const oldestKey = positionCache.keys().next().value;
+    if (oldestKey !== undefined) positionCache.delete(oldestKey);
+  }
+  positionCache.set(cacheKey, { data: geometry, timestamp: Date.now() });
+
+  if (geometry) {
+    console.log(`✓ Located reach ${geometry.reachId} at ${cacheKey} (${geometry.coordinates.length} vertices)`);
+  }
+  return geometry;
+}
+
+/**
+ * Clear the lookup cache (useful for testing)
+ */
+export function clearReachGeometryCache(): void {
+  positionCache.clear();
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function getNldiBaseUrl(): string {
+  return process.env.NLDI_BASE_URL || publicConfig.api.nldiBaseUrl || 'https://api.water.usgs.gov/nldi';
+}
+
+/**
+ * NLDI flowline → ReachGeometry (multi-part lines are joined in order)
+ */
+function toReachGeometry(feature: NldiFlowlineFeature | undefined): ReachGeometry | null {
+  const comid = feature?.properties.comid ?? feature?.properties.identifier;
+  if (!feature?.geometry || comid === undefined || comid === '') return null;
+
+  const parts = feature.geometry.type === 'MultiLineString'
+    ? feature.geometry.coordinates as number[][][]
+    : [feature.geometry.coordinates as number[][]];
+
+  const coordinates = parts
+    .flat()
+    .filter(position => Number.isFinite(position[0]) && Number.isFinite(position[1]))
+    .map(([lon, lat]) => [lon, lat] as [number, number]);
+
+  if (coordinates.length === 0) return null;
+
+  return { reachId: toReachId(String(comid)), coordinates };
+}
+
+/**
+ * GET JSON from NLDI
+ *
+ * @returns Parsed body, or null on 404 (no flowline at the point)
+ * @throws ApiError on other upstream or network failures
+ */
+async function requestJson<T>(url: string): Promise<T | null> {
+  try {
+    console.log(`Making request to: ${url}`);
+
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'HydroDash/1.0'
+      },
+      signal: AbortSignal.timeout(30000)
+    });
+
+    if (response.status === 404) return null;
+
+    if (!response.ok) {
+      throw new ApiError(
+        `NLDI API returned ${response.status}: ${response.statusText}`,
+        response.status,
+        url,
+        await response.text().catch(() => 'No response body'),
+        undefined,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    return await response.json() as T;
+
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+
+    if (isTimeoutError(error)) {
+      throw new ApiError('Timed out fetching NLDI data', 504, url, undefined, error);
+    }
+
+    throw new ApiError(
+      'Network error fetching NLDI data',
+      500,
+      url,
+      undefined,
+      error
+    );
+  }
+}
@@ -0,0 +1,131 @@
+// services/reachNetworkService.ts
+/**
+ * River network traversal for HydroDash
+ *
+ * Walks the NOAA route graph (`reach.route.upstream` / `reach.route.downstream`)
+ * breadth-first from a root reach, one hop per level, up to a requested depth.
+ * Reach metadata comes from getReachMetadata, so every lookup goes through the
+ * server-side forecast cache and repeated walks over the same area stay cheap.
+ *
+ * Limits:
+ * - depth is clamped to MAX_NETWORK_DEPTH
+ * - the walk stops after MAX_NETWORK_NODES reaches (result is marked `truncated`)
+ * - reaches whose metadata can't be fetched are kept as leaves (no name/coordinates)
+ */
+
+import type {
+  ReachId,
+  ReachNetwork,
+  ReachNetworkNode,
+  NetworkDirection,
+  RouteReach
+} from '@/types';
+import { getReachMetadata } from '@/services/noaaService';
+import { mapWithConcurrency } from '@/lib/utils/async';
+import { ApiError } from '@/types/utils';
+
+// ========================================
+// Configuration
+// ========================================
+
+export const MAX_NETWORK_DEPTH = 10;
+export const MAX_NETWORK_NODES = 200;
+
+/** Metadata lookups issued at the same time within one level */
+const LEVEL_CONCURRENCY = 6;
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Walk the route graph upstream or downstream from a reach
+ *
+ * @param reachId - Root reach
+ * @param direction - 'upstream' (tributaries feeding in) or 'downstream' (reaches below)
+ * @param depth - Number of hops to follow (1..MAX_NETWORK_DEPTH)
+ * @returns Nodes in breadth-first order, root excluded
+ * @throws ApiError 404 if the root reach can't be found
+ */
+export async function getReachNetwork(
+  reachId: ReachId,
+  direction: NetworkDirection,
+  depth: number
+): Promise<ReachNetwork> {
+  const maxDepth = Math.max(1, Math.min(Math.floor(depth), MAX_NETWORK_DEPTH));
+
+  const root = await getReachMetadata(reachId);
+  if (!root) {
+    throw new ApiError(`Reach ${reachId} not found`, 404, 'noaa-reach-network');
+  }
+
+  console.log(`Walking ${direction} network from reach ${reachId} (depth ${maxDepth})`);
+
+  const visited = new Set<string>([reachId]);
+  const nodes: ReachNetworkNode[] = [];
+  let truncated = false;
+
+  // Current frontier: reaches discovered at the previous level, with their neighbours
+  let frontier: Array<{ reachId: ReachId; neighbours: RouteReach[] }> = [
+    { reachId, neighbours: root.route?.[direction] ?? [] }
+  ];
+
+  for (let level = 1; level <= maxDepth && frontier.length > 0; level++) {
+    // Collect unseen neighbours for this level
+    const discovered: ReachNetworkNode[] = [];
+
+    for (const parent of frontier) {
+      for (const neighbour of parent.neighbours) {
+        if (visited.has(neighbour.reachId)) continue;
+
+        if (nodes.length + discovered.length >= MAX_NETWORK_NODES) {
+          truncated = true;
+          break;
+        }
+
+        visited.add(neighbour.reachId);
+        discovered.push({
+          reachId: neighbour.reachId,
+          streamOrder: neighbour.streamOrder,
+          depth: level,
+          parentReachId: parent.reachId,
+        });
+      }
+    }
+
+    if (discovered.length === 0) break;
+
+    // Enrich with metadata; the last level doesn't need neighbours
+    const expand = level < maxDepth && !truncated;
+    const enriched = await mapWithConcurrency(discovered, LEVEL_CONCURRENCY, async node => {
+      const metadata = await getReachMetadata(node.reachId);
+      if (!metadata) {
+        return { node, neighbours: [] as RouteReach[] };
+      }
+      return {
+        node: {
+          ...node,
+          name: metadata.name,
+          latitude: metadata.latitude,
+          longitude: metadata.longitude,
+        },
+        neighbours: expand ? metadata.route?.[direction] ?? [] : [],
+      };
+    });
+
+    nodes.push(...enriched.map(e => e.node));
+    frontier = enriched.map(e => ({ reachId: e.node.reachId, neighbours: e.neighbours }));
+
+    if (truncated) break;
+  }
+
+  console.log(`✓ Found ${nodes.length} ${direction} reaches from ${reachId}${truncated ? ' (truncated)' : ''}`);
+
+  return {
+    rootReachId: reachId,
+    direction,
+    depth: maxDepth,
+    nodes,
+    truncated,
+  };
+}
@@ -6,101 +6,152 @@
  * External API returns values in CMS, converts to CFS for app consistency.
  */
 
-import { config } from '@/config/secrets.local';
 import { normalizeReturnPeriods } from '@/lib/utils/normalizers';
+import { readApiResponse } from '@/lib/utils/apiErrors';
+import { ApiRequestError } from '@/types/utils';
 import type { 
   ReturnPeriodResponse,
   ReturnPeriodThresholds,
   ReachId 
 } from '@/types';
 
-// Simple cache to avoid duplicate requests
-const cache = new Map<string, { data: ReturnPeriodThresholds; timestamp: number }>();
+// Simple cache to avoid duplicate requests (null = reach has no return periods)
+const cache = new Map<string, { data: ReturnPeriodThresholds | null; timestamp: number; ttl: number }>();
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const NO_DATA_CACHE_TTL = 60 * 60 * 1000; // 1 hour, so newly published data shows up the same day
+
+/**
+ * Cached entry for a reach, if still fresh
+ */
+function getCached(key: string) {
+  const cached = cache.get(key);
+  return cached && (Date.now() - cached.timestamp < cached.ttl) ? cached : undefined;
+}
+
+function setCached(key: string, data: ReturnPeriodThresholds | null): void {
+  cache.set(key, { data, timestamp: Date.now(), ttl: data ? CACHE_TTL : NO_DATA_CACHE_TTL });
+}
 
 /**
  * Fetches return period thresholds for a single stream via API proxy
  * @param reachId - The reach identifier
- * @returns Promise resolving to return period thresholds in CFS, or null if not found
+ * @returns Promise resolving to return period thresholds in CFS, or null if the reach has none
+ * @throws ApiRequestError for any other failure (see its `code`)
  */
 export async function fetchReturnPeriods(reachId: ReachId): Promise<ReturnPeriodThresholds | null> {
   const cacheKey = String(reachId);
   
   // Check cache first
-  const cached = cache.get(cacheKey);
-  if (cached && (Date.now() - cached.timestamp < CACHE_TTL)) {
+  const cached = getCached(cacheKey);
+  if (cached) {
     console.log(`[ReturnPeriodsService] Using cached data for reach ${reachId}`);
     return cached.data;
   }
 
+  console.log(`[ReturnPeriodsService] Fetching return periods for reach ${reachId} via proxy`);
+
+  let rawData: ReturnPeriodResponse;
+
   try {
     // Use Next.js API proxy instead of direct external API call
-    const apiUrl = `/api/return-periods/${reachId}`;
-    
-    console.log(`[ReturnPeriodsService] Fetching return periods for reach ${reachId} via proxy`);
-    console.log(`[ReturnPeriodsService] API URL: ${apiUrl}`);
-
-    // Make API request to our proxy
-    const response = await fetch(apiUrl, {
+    const response = await fetch(`/api/return-periods/${reachId}`, {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
-        'Content-Type': 'application/json',
       },
     });
 
-    console.log(`[ReturnPeriodsService] Proxy response status: ${response.status}`);
-
-    if (!response.ok) {
-      console.error(`[ReturnPeriodsService] Proxy API error for reach ${reachId}:`, response.status, response.statusText);
-      
-      // Try to get error details
-      try {
-        const errorData = await response.json();
-        console.error(`[ReturnPeriodsService] Error response:`, errorData);
-      } catch (e) {
-        console.error(`[ReturnPeriodsService] Could not parse error response`);
-      }
-      
-      return null;
-    }
+    rawData = await readApiResponse<ReturnPeriodResponse>(response, 'Failed to fetch return periods');
 
-    const rawData: ReturnPeriodResponse = await response.json();
-    
-    console.log(`[ReturnPeriodsService] Raw response for reach ${reachId}:`, rawData);
-    
-    if (!Array.isArray(rawData) || rawData.length === 0) {
-      console.warn(`[ReturnPeriodsService] No data returned for reach ${reachId}`);
+  } catch (error) {
+    // No return periods for this reach is an answer, not a failure
+    if (ApiRequestError.isApiRequestError(error) && error.code === 'REACH_NOT_FOUND') {
+      console.warn(`[ReturnPeriodsService] No return periods for reach ${reachId}`);
+      setCached(cacheKey, null);
       return null;
     }
 
-    // Normalize data (converts CMS → CFS)
-    const normalized = normalizeReturnPeriods(rawData);
-    
-    if (normalized.length === 0) {
-      console.warn(`[ReturnPeriodsService] Failed to normalize data for reach ${reachId}`);
-      console.warn(`[ReturnPeriodsService] Raw data was:`, rawData);
-      return null;
+    console.error(`[ReturnPeriodsService] Failed to fetch return periods for reach ${reachId}:`, error);
+    throw error;
+  }
+
+  // Normalize data (converts CMS → CFS)
+  const normalized = normalizeReturnPeriods(rawData);
+  
+  if (normalized.length === 0) {
+    console.warn(`[ReturnPeriodsService] Failed to normalize data for reach ${reachId}:`, rawData);
+    setCached(cacheKey, null);
+    return null;
+  }
+
+  const thresholds = normalized[0].thresholds;
+
+  // Cache the result
+  setCached(cacheKey, thresholds);
+
+  console.log(`[ReturnPeriodsService] Successfully fetched return periods for reach ${reachId}:`, thresholds);
+  return thresholds;
+}
+
+/** Reaches per batch request (matches the batch route's limit) */
+const BATCH_SIZE = 100;
+
+/**
+ * Fetches return period thresholds for many streams via the batch API proxy
+ * Cached reaches (including cached "no data" answers) are served from the per-reach
+ * cache; only the rest are requested, in chunks of BATCH_SIZE, each chunk as a
+ * single upstream `comids` request.
+ * @param reachIds - The reach identifiers
+ * @returns Promise resolving to thresholds in CFS keyed by reachId (reaches without data are omitted)
+ * @throws ApiRequestError if a batch request fails (see its `code`)
+ */
+export async function fetchReturnPeriodsBatch(
+  reachIds: ReachId[]
+): Promise<Record<string, ReturnPeriodThresholds>> {
+  const result: Record<string, ReturnPeriodThresholds> = {};
+  const missing: string[] = [];
+  let cachedCount = 0;
+
+  // Serve what we can from the per-reach cache
+  for (const key of new Set(reachIds.map(id => String(id)))) {
+    const cached = getCached(key);
+    if (cached) {
+      cachedCount++;
+      if (cached.data) result[key] = cached.data;
+    } else {
+      missing.push(key);
     }
+  }
+
+  console.log(`[ReturnPeriodsService] Batch: ${cachedCount} cached, ${missing.length} to fetch`);
 
-    const thresholds = normalized[0].thresholds;
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const chunk = missing.slice(i, i + BATCH_SIZE);
 
-    // Cache the result
-    cache.set(cacheKey, { data: thresholds, timestamp: Date.now() });
+    const response = await fetch('/api/return-periods/batch', {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ reachIds: chunk }),
+    });
 
-    console.log(`[ReturnPeriodsService] Successfully fetched return periods for reach ${reachId}:`, thresholds);
-    return thresholds;
+    // Failures throw: earlier chunks are already cached, so a retry only refetches the rest
+    const rows = await readApiResponse<ReturnPeriodResponse>(response, 'Failed to fetch return periods');
 
-  } catch (error) {
-    console.error(`[ReturnPeriodsService] Failed to fetch return periods for reach ${reachId}:`, error);
-    
-    // More specific error handling
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      console.error(`[ReturnPeriodsService] Network error - check if the Next.js API route is working`);
+    // Normalize data (converts CMS → CFS) and cache each reach
+    for (const { reachId, thresholds } of normalizeReturnPeriods(rows)) {
+      const key = String(reachId);
+      result[key] = thresholds;
+      setCached(key, thresholds);
     }
-    
-    return null;
+
+    // Reaches the API had nothing for are cached as "no data"
+    chunk.filter(key => !(key in result)).forEach(key => setCached(key, null));
   }
+
+  return result;
 }
 
 /**
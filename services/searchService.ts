@@ -0,0 +1,209 @@
+// services/searchService.ts
+/**
+ * Map search service for HydroDash (browser)
+ *
+ * One query, several sources, one ranked list:
+ * - "lat, lon" pairs → a coordinates result
+ * - bare reach IDs ("10376192") → the reach from /api/reaches/[reachId]
+ * - saved place names → matching saved places
+ * - anything else with letters → forward geocoding (configured provider)
+ */
+
+import { forwardGeocode } from '@/services/geocodingService';
+import { readApiResponse } from '@/lib/utils/apiErrors';
+import { toReachId } from '@/lib/utils/ids';
+import {
+  getNameMatchScore,
+  isReachIdQuery,
+  parseCoordinateQuery,
+  rankSearchResults,
+} from '@/lib/utils/search';
+import type { RiverReach, SavedPlace, SearchOptions, SearchResult } from '@/types';
+import { ApiRequestError } from '@/types/utils';
+
+// ========================================
+// Configuration
+// ========================================
+
+const DEFAULT_LIMIT = 8;
+
+/** Place matches rank below exact reach/coordinate/saved-place hits of the same quality */
+const PLACE_SCORE_WEIGHT = 0.85;
+
+/** Saved places a search can match (AppShell's saved places are a superset) */
+type SearchablePlace = Pick<SavedPlace, 'id' | 'name' | 'reachId' | 'lat' | 'lon'>;
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Search places, reach IDs, coordinates and saved places
+ *
+ * @param query - Search text
+ * @param savedPlaces - The user's saved places
+ * @param options - Result limit, proximity bias, abort signal
+ * @returns Ranked results, best first (empty for blank queries)
+ * @throws The first lookup error when every remote lookup failed and nothing matched;
+ *         AbortError when cancelled
+ */
+export async function search(
+  query: string,
+  savedPlaces: SearchablePlace[] = [],
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const { limit = DEFAULT_LIMIT, proximity, signal } = options;
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const coordinates = parseCoordinateQuery(trimmed);
+  const localResults = [
+    ...(coordinates ? [toCoordinateResult(coordinates.lat, coordinates.lon)] : []),
+    ...searchSavedPlaces(trimmed, savedPlaces),
+  ];
+
+  const lookups: Array<Promise<SearchResult[]>> = [];
+  if (isReachIdQuery(trimmed)) {
+    lookups.push(searchReach(trimmed, signal));
+  }
+  if (!coordinates && /[a-zA-Z\u00C0-\u024F]/.test(trimmed)) {
+    lookups.push(searchPlaces(trimmed, limit, proximity, signal));
+  }
+
+  const settled = await Promise.allSettled(lookups);
+
+  const remoteResults: SearchResult[][] = [];
+  const errors: unknown[] = [];
+  for (const outcome of settled) {
+    if (outcome.status === 'fulfilled') {
+      remoteResults.push(outcome.value);
+    } else {
+      errors.push(outcome.reason);
+    }
+  }
+
+  // Cancelled searches are superseded; let the caller ignore them
+  const aborted = errors.find(isAbortError);
+  if (aborted) throw aborted;
+
+  const results = rankSearchResults([localResults, ...remoteResults], limit);
+
+  if (errors.length > 0) {
+    if (results.length === 0 && remoteResults.length === 0) throw errors[0];
+    console.warn(`Search for "${trimmed}" is missing some sources:`, errors);
+  }
+
+  return results;
+}
+
+// ========================================
+// Sources
+// ========================================
+
+function toCoordinateResult(lat: number, lon: number): SearchResult {
+  return {
+    id: `coordinates:${lat},${lon}`,
+    type: 'coordinates',
+    title: `${lat.toFixed(5)}, ${lon.toFixed(5)}`,
+    subtitle: 'Coordinates',
+    lat,
+    lon,
+    zoom: 12,
+    score: 1,
+  };
+}
+
+function searchSavedPlaces(query: string, savedPlaces: SearchablePlace[]): SearchResult[] {
+  const results: SearchResult[] = [];
+
+  for (const place of savedPlaces) {
+    // Nothing to fly to or open
+    if (!place.reachId && (place.lat === undefined || place.lon === undefined)) continue;
+
+    const nameScore = getNameMatchScore(place.name, query);
+    const matchesReach = !!place.reachId && place.reachId === query;
+    if (nameScore === 0 && !matchesReach) continue;
+
+    results.push({
+      id: `saved:${place.id}`,
+      type: 'savedPlace',
+      title: place.name,
+      subtitle: place.reachId ? `Saved place · Reach ${place.reachId}` : 'Saved place',
+      lat: place.lat,
+      lon: place.lon,
+      reachId: place.reachId,
+      zoom: 13,
+      // Slightly above an equally good place match, below an exact hit
+      score: matchesReach ? 0.99 : nameScore * 0.95,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Reach for a bare reach ID (empty when no such reach)
+ */
+async function searchReach(query: string, signal?: AbortSignal): Promise<SearchResult[]> {
+  const reachId = toReachId(query);
+
+  try {
+    const response = await fetch(`/api/reaches/${reachId}`, {
+      headers: {
+        'Accept': 'application/json',
+      },
+      signal,
+    });
+    const reach = await readApiResponse<RiverReach>(response, 'Failed to fetch reach metadata');
+
+    return [{
+      id: `reach:${reach.reachId}`,
+      type: 'reach',
+      title: reach.name || `Reach ${reach.reachId}`,
+      subtitle: `Reach ${reach.reachId}`,
+      lat: reach.latitude,
+      lon: reach.longitude,
+      reachId: reach.reachId,
+      zoom: 13,
+      score: 0.98,
+    }];
+  } catch (error) {
+    if (error instanceof ApiRequestError && error.code === 'REACH_NOT_FOUND') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function searchPlaces(
+  query: string,
+  limit: number,
+  proximity: SearchOptions['proximity'],
+  signal?: AbortSignal
+): Promise<SearchResult[]> {
+  const places = await forwardGeocode(query, {
+    limit: Math.min(limit, 10),
+    proximity: proximity ? { latitude: proximity.lat, longitude: proximity.lon } : undefined,
+    signal,
+  });
+
+  return places.map(place => ({
+    id: `place:${place.id}`,
+    type: 'place',
+    title: place.name,
+    subtitle: place.fullName,
+    lat: place.coordinates.latitude,
+    lon: place.coordinates.longitude,
+    zoom: place.placeTypes.includes('address') ? 16 :
+          place.placeTypes.includes('poi') ? 14 : 12,
+    score: place.relevance * PLACE_SCORE_WEIGHT,
+  }));
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
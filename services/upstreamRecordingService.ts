@@ -0,0 +1,199 @@
+// services/upstreamRecordingService.ts
+/**
+ * Record-and-replay of upstream API traffic for HydroDash (server only)
+ *
+ * Server-side upstream requests (NOAA NWPS streamflow, the return-period API,
+ * Mapbox/Nominatim geocoding) go through upstreamFetch. Normally that is a plain
+ * fetch; `publicConfig.upstreamRecording.mode` (`UPSTREAM_RECORDING` in the
+ * template config) switches it to:
+ * - record: fetch as usual and save each response (status, headers, raw body)
+ * - replay: answer from the saved responses only, byte-for-byte, never touching
+ *   the network; a request that was never recorded fails with a 502 ApiError
+ *   (UPSTREAM_ERROR, so reach routes don't report it as an unknown reach)
+ * so a bug seen against yesterday's NOAA data can be reproduced exactly.
+ *
+ * Storage: `<UPSTREAM_FIXTURES_DIR>/<source>/<slug>.<hash>.json` (default dir
+ * `fixtures/upstream`). The key covers method, path, query and body but not the
+ * origin, so recordings replay against any configured base URL. Credentials in
+ * the query (tokens, API keys) are left out of both the key and the file.
+ * Recording again overwrites; point UPSTREAM_FIXTURES_DIR at a new directory
+ * to keep one set per session.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { publicConfig } from '@/config';
+import { ApiError } from '@/types/utils';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** Upstream APIs, one fixture subdirectory each */
+export type UpstreamSource = 'noaa' | 'return-periods' | 'geocoding';
+
+/** Query parameters that carry credentials */
+const SECRET_PARAM_PATTERN = /^(key|api[_-]?key|access[_-]?token|token|signature)$/i;
+
+/** Response headers worth replaying (the rest describe the original transfer) */
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'last-modified', 'etag'];
+
+/** Statuses that must not carry a body */
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+interface RecordedResponse {
+  request: {
+    method: string;
+    /** Path + query without credentials */
+    url: string;
+    body?: string;
+  };
+  recordedAt: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Raw response body */
+  body: string;
+}
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * fetch for upstream APIs, recording or replaying per config (see module doc)
+ *
+ * @param source - Upstream API (fixture subdirectory)
+ * @param url - Absolute request URL
+ * @param init - fetch options (string bodies only are part of the key)
+ * @returns The live or replayed response
+ * @throws ApiError 502 in replay mode when the request was never recorded
+ */
+export async function upstreamFetch(
+  source: UpstreamSource,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const mode = publicConfig.upstreamRecording?.mode;
+  if (mode !== 'record' && mode !== 'replay') {
+    return fetch(url, init);
+  }
+
+  const request = describeRequest(url, init);
+  const file = getFixtureFile(source, request);
+
+  if (mode === 'replay') {
+    const recorded = await readRecording(file);
+    if (!recorded) {
+      throw new ApiError(
+        `No recorded ${source} response for ${request.method} ${request.url} (replay mode)`,
+        502,
+        request.url
+      );
+    }
+    console.log(`[UpstreamRecording] Replayed ${source} ${request.method} ${request.url}`);
+    return toResponse(recorded);
+  }
+
+  const response = await fetch(url, init);
+  const recorded: RecordedResponse = {
+    request,
+    recordedAt: new Date().toISOString(),
+    status: response.status,
+    statusText: response.statusText,
+    headers: pickHeaders(response.headers),
+    body: await response.text(),
+  };
+
+  // A failed write must not fail the request being recorded
+  try {
+    await writeRecording(file, recorded);
+    console.log(`[UpstreamRecording] ✓ Recorded ${source} ${request.method} ${request.url} → ${response.status}`);
+  } catch (error) {
+    console.error(`[UpstreamRecording] Failed to write ${file}:`, error);
+  }
+
+  return toResponse(recorded);
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function getFixturesDir(): string {
+  return process.env.UPSTREAM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'upstream');
+}
+
+/**
+ * Method, credential-free path + query, and string body of a request
+ */
+function describeRequest(url: string, init: RequestInit): RecordedResponse['request'] {
+  const parsed = new URL(url);
+  for (const name of Array.from(parsed.searchParams.keys())) {
+    if (SECRET_PARAM_PATTERN.test(name)) parsed.searchParams.delete(name);
+  }
+  parsed.searchParams.sort(); // Parameter order doesn't change the request
+
+  return {
+    method: (init.method || 'GET').toUpperCase(),
+    url: `${parsed.pathname}${parsed.search}`,
+    body: typeof init.body === 'string' ? init.body : undefined,
+  };
+}
+
+/**
+ * Fixture file: readable slug of the path for browsing, hash of the full request for uniqueness
+ */
+function getFixtureFile(source: UpstreamSource, request: RecordedResponse['request']): string {
+  const hash = createHash('sha256')
+    .update(`${request.method} ${request.url}\n${request.body ?? ''}`)
+    .digest('hex')
+    .slice(0, 16);
+  const slug = request.url
+    .split('?')[0]
+    .replace(/[^a-zA-Z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'root';
+
+  return path.join(getFixturesDir(), source, `${slug}.${hash}.json`);
+}
+
+function pickHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) picked[name] = value;
+  }
+  return picked;
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  return new Response(NULL_BODY_STATUSES.includes(recorded.status) ? null : recorded.body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
+
+/**
+ * Read a recording; a missing file reads as null
+ */
+async function readRecording(file: string): Promise<RecordedResponse | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as RecordedResponse;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new ApiError(`Unreadable upstream recording ${file}`, 500, file, undefined, error);
+  }
+}
+
+/**
+ * Write a recording atomically (temp file + rename)
+ */
+async function writeRecording(file: string, recorded: RecordedResponse): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(recorded, null, 2), 'utf8');
+  await fs.rename(tmp, file);
+}
@@ -0,0 +1,238 @@
+// services/weatherService.ts
+/**
+ * Weather service for HydroDash
+ *
+ * Fetches current conditions, the hourly forecast and the daily forecast for a
+ * point from Apple WeatherKit (REST) and normalizes them to WeatherForecast.
+ *
+ * Auth: WeatherKit expects an ES256 JWT signed with the WeatherKit key in
+ * `secrets.apple.weatherKit`. Tokens are signed server-side and reused until
+ * shortly before they expire.
+ *
+ * Base URL: `WEATHERKIT_BASE_URL` environment variable if set (e.g. a local
+ * stub server), otherwise `publicConfig.api.weatherKitBaseUrl`, otherwise the
+ * public WeatherKit endpoint.
+ *
+ * Forecasts are cached per ~1 km grid cell (coordinates rounded to 2 decimals)
+ * and timezone for WEATHER_CACHE_TTL.
+ */
+
+import jwt, { type JwtHeader } from 'jsonwebtoken';
+import { publicConfig, getServerConfig } from '@/config';
+import { normalizeWeather } from '@/lib/utils/normalizers';
+import { isTimeoutError, parseRetryAfter } from '@/lib/utils/apiErrors';
+import type { WeatherForecast, WeatherKitResponse, WeatherPoint } from '@/types';
+import { ApiError } from '@/types/utils';
+
+// ========================================
+// Configuration
+// ========================================
+
+/** WeatherKit refreshes hourly; 10 minutes keeps "current" current */
+export const WEATHER_CACHE_TTL = 10 * 60 * 1000;
+
+/** Hours of hourly forecast requested */
+const HOURLY_FORECAST_HOURS = 48;
+
+/** Signed tokens live an hour and are replaced 5 minutes before expiry */
+const TOKEN_TTL_SECONDS = 60 * 60;
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const MAX_CACHE_SIZE = 500;
+
+const weatherCache = new Map<string, { data: WeatherForecast; timestamp: number }>();
+
+let cachedToken: { token: string; expiresAt: number } | null = null;
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Current, hourly and daily weather for a point
+ *
+ * @param lat - Latitude (WGS84)
+ * @param lon - Longitude (WGS84)
+ * @param timezone - IANA timezone that daily forecast days are aligned to
+ * @returns Normalized forecast (metric units)
+ * @throws ApiError on upstream or network failures
+ */
+export async function getWeatherForecast(
+  lat: number,
+  lon: number,
+  timezone: string = 'UTC'
+): Promise<WeatherForecast> {
+  // Round to ~1 km so nearby requests share a cache entry and an upstream call
+  const location = { lat: roundCoordinate(lat), lon: roundCoordinate(lon) };
+  const cacheKey = `${location.lat},${location.lon},${timezone}`;
+
+  const cached = weatherCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < WEATHER_CACHE_TTL) {
+    console.log(`[WeatherService] Cache hit for ${cacheKey}`);
+    return cached.data;
+  }
+
+  const raw = await requestWeatherKit(location.lat, location.lon, {
+    dataSets: 'currentWeather,forecastHourly,forecastDaily',
+    hourlyEnd: new Date(Date.now() + HOURLY_FORECAST_HOURS * 60 * 60 * 1000).toISOString(),
+    timezone,
+  });
+  const forecast = normalizeWeather(raw, location);
+
+  // Evict the oldest entry once full
+  if (weatherCache.size >= MAX_CACHE_SIZE && !weatherCache.has(cacheKey)) {
+    const oldestKey = weatherCache.keys().next().value;
+    if (oldestKey !== undefined) weatherCache.delete(oldestKey);
+  }
+  weatherCache.set(cacheKey, { data: forecast, timestamp: Date.now() });
+
+  console.log(`✓ Fetched weather for ${cacheKey}: ${forecast.hourly.length} hours, ${forecast.daily.length} days`);
+  return forecast;
+}
+
+/**
+ * Hourly forecast for an arbitrary window (past hours included), uncached
+ * WeatherKit serves hourly data up to 10 days ahead.
+ *
+ * @param lat - Latitude (WGS84)
+ * @param lon - Longitude (WGS84)
+ * @param start - First hour
+ * @param end - End of the window (exclusive)
+ * @returns Hourly points sorted by time (metric units)
+ * @throws ApiError on upstream or network failures
+ */
+export async function getHourlyForecast(
+  lat: number,
+  lon: number,
+  start: Date,
+  end: Date
+): Promise<WeatherPoint[]> {
+  const location = { lat: roundCoordinate(lat), lon: roundCoordinate(lon) };
+  const raw = await requestWeatherKit(location.lat, location.lon, {
+    dataSets: 'forecastHourly',
+    hourlyStart: start.toISOString(),
+    hourlyEnd: end.toISOString(),
+  });
+  return normalizeWeather(raw, location).hourly;
+}
+
+/**
+ * Whether WeatherKit credentials are filled in (not the template placeholders)
+ */
+export function isWeatherConfigured(): boolean {
+  const { teamId, weatherKit } = getServerConfig().secrets.apple ?? {};
+  return [teamId, weatherKit?.serviceId, weatherKit?.keyId, weatherKit?.privateKey]
+    .every(value => !!value && !value.includes('YOUR_'));
+}
+
+/**
+ * Clear the forecast and token caches (useful for testing)
+ */
+export function clearWeatherCache(): void {
+  weatherCache.clear();
+  cachedToken = null;
+}
+
+// ========================================
+// Helper Functions
+// ========================================
+
+function getWeatherKitBaseUrl(): string {
+  return process.env.WEATHERKIT_BASE_URL || publicConfig.api.weatherKitBaseUrl || 'https://weatherkit.apple.com';
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Signed WeatherKit developer token (cached until shortly before expiry)
+ */
+function getWeatherKitToken(): string {
+  if (cachedToken && Date.now() < cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+    return cachedToken.token;
+  }
+
+  const { teamId, weatherKit } = getServerConfig().secrets.apple;
+
+  const token = jwt.sign({ sub: weatherKit.serviceId }, weatherKit.privateKey, {
+    algorithm: 'ES256',
+    issuer: teamId,
+    expiresIn: TOKEN_TTL_SECONDS,
+    // WeatherKit's `id` header (team.service) isn't part of JwtHeader's type
+    header: {
+      alg: 'ES256',
+      kid: weatherKit.keyId,
+      id: `${teamId}.${weatherKit.serviceId}`,
+    } as JwtHeader,
+  });
+
+  cachedToken = { token, expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000 };
+  return token;
+}
+
+/**
+ * Low-level WeatherKit request
+ * Note: This function does NOT cache - use getWeatherForecast instead.
+ */
+async function requestWeatherKit(
+  lat: number,
+  lon: number,
+  params: Record<string, string>
+): Promise<WeatherKitResponse> {
+  const url = new URL(`/api/v1/weather/en/${lat}/${lon}`, getWeatherKitBaseUrl());
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+
+  const endpoint = `${url.origin}${url.pathname}`;
+
+  let token: string;
+  try {
+    token = getWeatherKitToken();
+  } catch (error) {
+    throw new ApiError('Unable to sign WeatherKit token - check secrets.apple.weatherKit', 500, endpoint, undefined, error);
+  }
+
+  try {
+    console.log(`Making request to: ${endpoint}`);
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${token}`,
+        'User-Agent': 'HydroDash/1.0'
+      },
+      signal: AbortSignal.timeout(15000)
+    });
+
+    if (!response.ok) {
+      // A rejected token won't get better by reusing it
+      if (response.status === 401) cachedToken = null;
+
+      throw new ApiError(
+        `WeatherKit API returned ${response.status}: ${response.statusText}`,
+        response.status,
+        endpoint,
+        await response.text().catch(() => 'No response body'),
+        undefined,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    return await response.json() as WeatherKitResponse;
+
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+
+    if (isTimeoutError(error)) {
+      throw new ApiError('Timed out fetching WeatherKit data', 504, endpoint, undefined, error);
+    }
+
+    throw new ApiError(
+      'Network error fetching WeatherKit data',
+      500,
+      endpoint,
+      undefined,
+      error
+    );
+  }
+}
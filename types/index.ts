@@ -11,12 +11,22 @@ export type { PublicConfig, SecretsConfig, AppConfig } from '@/config';
 export * from './models/RiverReach';
 export * from './models/FlowForecast';
 export * from './models/ReturnPeriod';
+export * from './models/RiskProfile';
+export * from './models/Climatology';
+export * from './models/ForecastArchive';
+export * from './models/ForecastSkill';
+export * from './models/GaugeObservation';
+export * from './models/Precipitation';
+export * from './models/RainfallRunoff';
 export * from './models/SavedPlace';
+export * from './models/Search';
 export * from './models/UserPreferences';
 export * from './models/WidgetConfig';
 export * from './models/WeatherForecast'; // include placeholder
 export * from './utils';
 
+import type { ApiErrorCode } from './utils';
+
 // App-level primitives
 export interface Coordinates {
   lat: number;
@@ -26,7 +36,14 @@ export interface Coordinates {
 export interface ApiResponse<T> {
   ok: boolean;
   data?: T;
+  /** Human-readable error message (failed responses) */
   error?: string;
+  /** Machine-readable error code (failed responses) */
+  code?: ApiErrorCode;
+  /** Seconds to wait before retrying (RATE_LIMITED, sometimes UPSTREAM_*) */
+  retryAfter?: number;
+  /** Optional error details, e.g. an upstream response excerpt */
+  context?: unknown;
 }
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
@@ -0,0 +1,41 @@
+// types/models/Climatology.ts
+/**
+ * NWM retrospective simulation + day-of-year climatology
+ * Raw units: CMS (m³/s). Normalized values are CFS.
+ */
+
+import type { ReachId } from "./RiverReach";
+
+/** Raw retrospective row — streamflow in CMS as returned by the NWM API */
+export interface RetrospectiveRow {
+  feature_id: number;
+  /** ISO-ish timestamp (UTC) */
+  time: string;
+  streamflow: number;
+}
+
+export type RetrospectiveResponse = RetrospectiveRow[];
+
+/** Flow percentiles for one day of year — values in CFS */
+export interface ClimatologyDay {
+  /** Day of year on a leap-year calendar: 1..366 (Feb 29 = 60, Mar 1 = 61) */
+  doy: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  /** Daily means that went into the percentiles (years × window days) */
+  sampleCount: number;
+}
+
+export interface ReachClimatology {
+  reachId: ReachId;
+  /** Inclusive year range of the retrospective record used */
+  startYear: number;
+  endYear: number;
+  /** Days either side of each day of year pooled into its percentiles */
+  windowDays: number;
+  /** Sorted by doy; days without data are omitted */
+  days: ClimatologyDay[];
+}
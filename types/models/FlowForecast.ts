@@ -5,6 +5,7 @@
  */
 
 import type { RiverReach, ReachId } from "./RiverReach";
+import type { ApiErrorCode } from "../utils";
 
 /** Raw atomic point: time + discharge value in the series' declared units */
 export interface ForecastDataPoint {
@@ -28,6 +29,16 @@ export interface ShortRangeForecast {
   series?: ForecastSeries;
 }
 
+/** Analysis & Assimilation (observed/nowcast): single `series`, valid times in the past */
+export interface AnalysisAssimilationForecast {
+  series?: ForecastSeries;
+}
+
+/** Medium-range blend: single `series` (NBM-forced, deterministic) */
+export interface MediumRangeBlendForecast {
+  series?: ForecastSeries;
+}
+
 /** Ensemble member keys like "member1", "member2", ... */
 export type EnsembleMemberKey = `member${number}`;
 
@@ -40,18 +51,22 @@ export interface EnsembleForecast {
 /** Complete raw API response shape */
 export interface FlowForecastResponse {
   reach: RiverReach;
-  /** Present in some responses; leave opaque until needed */
-  analysisAssimilation?: Record<string, unknown>;
+  analysisAssimilation?: AnalysisAssimilationForecast;
   shortRange?: ShortRangeForecast;
   mediumRange?: EnsembleForecast;
   longRange?: EnsembleForecast;
-  /** Present in some responses; leave opaque until needed */
-  mediumRangeBlend?: Record<string, unknown>;
+  mediumRangeBlend?: MediumRangeBlendForecast;
 }
 
+/** Source of raw responses: the live NWPS API, or recorded responses on disk */
+export type FlowDataProviderName = "nwps" | "fixture";
+
 /* ---------- Normalized (UI-facing) model ---------- */
 
-export type Horizon = "short" | "medium" | "long";
+/** "analysis" = Analysis & Assimilation (observed/nowcast), the rest are forecasts */
+export type Horizon = "analysis" | "short" | "medium" | "medium_blend" | "long";
+/** Range selector accepted by /api/flow: a single horizon or all forecast ranges */
+export type ForecastRange = Horizon | "all";
 export type SeriesLabel = "mean" | `member${number}`;
 export type RiskLevel = "normal" | "elevated" | "high" | "flood";
 
@@ -65,6 +80,8 @@ export interface NormalizedPoint {
 export interface NormalizedSeries {
   horizon: Horizon;
   label: SeriesLabel;
+  /** Model issuance (run) time of this series, ISO (UTC) */
+  referenceTime?: string;
   /** Sorted by time ascending */
   points: NormalizedPoint[];
 }
@@ -75,4 +92,33 @@ export interface NormalizedFlowForecast {
   /** Optional metrics computed elsewhere - all in CFS */
   peakFlow?: number;
   risk?: RiskLevel;
-}
\ No newline at end of file
+}
+/* ---------- Batch (/api/flow/batch) ---------- */
+
+export interface BatchFlowRequest {
+  reachIds: string[];
+  /** Defaults to "short" */
+  range?: ForecastRange;
+  /** Include medium/long-range ensemble members */
+  members?: boolean;
+}
+
+/** Outcome for one reach; a failure here does not fail the batch */
+export interface BatchFlowResult {
+  reachId: string;
+  ok: boolean;
+  data?: NormalizedFlowForecast;
+  error?: string;
+  /** Machine-readable error code for a failed reach */
+  code?: ApiErrorCode;
+  /** HTTP-equivalent status for this reach (200, 400, 404, 5xx) */
+  status: number;
+}
+
+export interface BatchFlowResponse {
+  range: ForecastRange;
+  includeMembers: boolean;
+  /** Same order as the (de-duplicated) request */
+  results: BatchFlowResult[];
+  fetchedAt: string;
+}
@@ -0,0 +1,28 @@
+// types/models/ForecastArchive.ts
+/**
+ * Archived forecast issuances (one per model run) for run-to-run comparison
+ * All flows in CFS
+ */
+
+import type { ReachId } from "./RiverReach";
+import type { Horizon, NormalizedPoint } from "./FlowForecast";
+
+/** Horizons that are archived (analysis is observed, not a forecast) */
+export type ArchivedHorizon = Exclude<Horizon, "analysis">;
+
+/** Mean series of a single model run */
+export interface ForecastIssuance {
+  /** Model issuance time, ISO (UTC) */
+  referenceTime: string;
+  /** When this server first saw the issuance, ISO (UTC) */
+  archivedAt: string;
+  /** Sorted by time ascending */
+  points: NormalizedPoint[];
+}
+
+export interface ForecastIssuanceHistory {
+  reachId: ReachId;
+  horizon: ArchivedHorizon;
+  /** Newest issuance first */
+  issuances: ForecastIssuance[];
+}
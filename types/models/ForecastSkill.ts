@@ -0,0 +1,48 @@
+// types/models/ForecastSkill.ts
+/**
+ * Forecast verification against the analysis & assimilation record
+ * Flows in CFS, times in hours
+ */
+
+import type { ReachId } from "./RiverReach";
+import type { ArchivedHorizon } from "./ForecastArchive";
+
+/** Error statistics for one lead-time window */
+export interface LeadTimeSkill {
+  /** Lead-time window, hours after issuance: (leadStart, leadEnd] */
+  leadStart: number;
+  leadEnd: number;
+  /** Forecast/observed pairs in the window */
+  sampleCount: number;
+  /** Mean forecast − observed (positive = over-forecast), CFS */
+  bias: number;
+  /** Mean absolute error, CFS */
+  mae: number;
+  /** Nash–Sutcliffe efficiency (1 = perfect, ≤0 = no better than the observed mean); null if observed flow is constant */
+  nse: number | null;
+}
+
+/** Peak timing error of the verified issuances */
+export interface PeakTimingSkill {
+  /** Issuances whose whole window is covered by the analysis record */
+  issuanceCount: number;
+  /** Mean forecast peak time − observed peak time (positive = forecast peak late), hours */
+  meanErrorHours: number | null;
+  /** Mean absolute peak timing error, hours */
+  meanAbsErrorHours: number | null;
+}
+
+export interface ForecastSkill {
+  reachId: ReachId;
+  horizon: ArchivedHorizon;
+  /** Archived issuances with at least one verified point */
+  issuanceCount: number;
+  /** Oldest/newest verified issuance, ISO (UTC) */
+  firstIssuance: string | null;
+  lastIssuance: string | null;
+  /** All lead times pooled */
+  overall: LeadTimeSkill | null;
+  /** Ordered by lead time; windows without pairs are omitted */
+  leadTimes: LeadTimeSkill[];
+  peakTiming: PeakTimingSkill;
+}
@@ -0,0 +1,59 @@
+// types/models/GaugeObservation.ts
+/**
+ * Observed discharge from stream gauges linked to NWM reaches
+ * Normalized flows are CFS (USGS reports discharge in ft³/s already)
+ */
+
+import type { ReachId } from "./RiverReach";
+import type { NormalizedPoint } from "./FlowForecast";
+
+/** A gauge linked to a reach */
+export interface GaugeSite {
+  /** Agency site number, e.g. "01646500" */
+  siteId: string;
+  agency: "USGS";
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/** Recent observed discharge for a reach (gauge null when none is linked) */
+export interface ReachObservations {
+  reachId: ReachId;
+  gauge: GaugeSite | null;
+  /** Sorted by time ascending, CFS */
+  points: NormalizedPoint[];
+  /** ISO timestamp the observations were fetched */
+  fetchedAt: string;
+}
+
+/* ---------- Raw USGS Instantaneous Values (IV) JSON ---------- */
+
+export interface UsgsIvValue {
+  value: string;
+  qualifiers?: string[];
+  /** ISO timestamp with offset, e.g. "2025-08-14T12:15:00.000-04:00" */
+  dateTime: string;
+}
+
+export interface UsgsIvTimeSeries {
+  sourceInfo: {
+    siteName?: string;
+    siteCode: Array<{ value: string; agencyCode?: string }>;
+    geoLocation?: {
+      geogLocation?: { latitude: number; longitude: number };
+    };
+  };
+  variable: {
+    variableCode: Array<{ value: string }>;
+    unit?: { unitCode: string };
+    noDataValue?: number;
+  };
+  values: Array<{ value: UsgsIvValue[] }>;
+}
+
+export interface UsgsIvResponse {
+  value: {
+    timeSeries: UsgsIvTimeSeries[];
+  };
+}
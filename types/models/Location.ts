@@ -56,6 +56,8 @@ export interface NormalizedLocation {
   cacheKey: CacheKey;
   /** Timestamp when geocoded */
   geocodedAt: string;
+  /** Provider that resolved this location ('server' when resolved through /api/geocode) */
+  provider?: GeocoderName;
 }
 
 // ========================================
@@ -101,6 +103,51 @@ export interface MapboxGeocodingResponse {
   attribution: string;
 }
 
+/**
+ * Mapbox Forward Geocoding API Response (query is the tokenized search text)
+ */
+export interface MapboxForwardGeocodingResponse {
+  type: 'FeatureCollection';
+  query: string[];
+  features: MapboxFeature[];
+  attribution: string;
+}
+
+// ========================================
+// Nominatim API Response Types
+// ========================================
+
+/**
+ * Nominatim address details (`addressdetails=1`)
+ */
+export interface NominatimAddress {
+  city?: string;
+  town?: string;
+  village?: string;
+  hamlet?: string;
+  municipality?: string;
+  county?: string;
+  state?: string;
+  country?: string;
+  country_code?: string;
+}
+
+/**
+ * Nominatim place (`format=jsonv2`, used by /search and /reverse)
+ */
+export interface NominatimPlace {
+  place_id: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+  category?: string;
+  type?: string;
+  addresstype?: string;
+  importance?: number;
+  address?: NominatimAddress;
+}
+
 // ========================================
 // Service Layer Types
 // ========================================
@@ -147,6 +194,45 @@ export interface GeocodingOptions {
   limit?: number;
 }
 
+/**
+ * Forward geocoding match
+ */
+export interface GeocodedPlace {
+  /** Provider's feature ID */
+  id: string;
+  /** Short name, e.g. "Provo" */
+  name: string;
+  /** Full name, e.g. "Provo, Utah, United States" */
+  fullName: string;
+  coordinates: Coordinates;
+  /** Provider place types, e.g. ["place"], ["poi"], ["address"] */
+  placeTypes: string[];
+  /** Provider relevance, 0-1 */
+  relevance: number;
+}
+
+/**
+ * Forward geocoding options
+ */
+export interface ForwardGeocodingOptions {
+  /** Maximum number of results (default: 5) */
+  limit?: number;
+  /** Bias results toward this point */
+  proximity?: Coordinates;
+  /** Preferred language for results */
+  language?: string;
+  /** Cancels the request */
+  signal?: AbortSignal;
+  /** HTTP client for provider requests (default: fetch) */
+  fetch?: GeocoderFetch;
+}
+
+/**
+ * HTTP client a geocoder makes its upstream requests with
+ * The server proxy passes one that records/replays upstream traffic.
+ */
+export type GeocoderFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
 // ========================================
 // Utility Types
 // ========================================
@@ -163,8 +249,17 @@ export type LocationPrecision = 'exact' | 'approximate' | 'region';
 
 /**
  * Geocoding provider types
+ * - mapbox: Mapbox Geocoding API (needs a public token)
+ * - nominatim: any Nominatim-compatible API (OpenStreetMap or self-hosted)
+ * - mock: offline lookups against a bundled gazetteer (deterministic, no network)
+ */
+export type GeocodingProvider = 'mapbox' | 'nominatim' | 'mock';
+
+/**
+ * Geocoder implementations: the providers, plus 'server' (browser code going
+ * through the /api/geocode proxy routes)
  */
-export type GeocodingProvider = 'mapbox' | 'mock';
+export type GeocoderName = GeocodingProvider | 'server';
 
 // ========================================
 // Error Types
@@ -177,7 +272,8 @@ export class GeocodingError extends Error {
   constructor(
     message: string,
     public code: 'NETWORK_ERROR' | 'API_ERROR' | 'INVALID_COORDINATES' | 'NO_RESULTS' | 'RATE_LIMITED',
-    public statusCode?: number
+    public statusCode?: number,
+    public retryAfter?: number        // seconds (RATE_LIMITED)
   ) {
     super(message);
     this.name = 'GeocodingError';
@@ -214,4 +310,17 @@ export function isMapboxGeocodingResponse(data: any): data is MapboxGeocodingRes
     Array.isArray(data.query) &&
     data.query.length === 2
   );
+}
+
+/**
+ * Type guard for MapboxForwardGeocodingResponse
+ */
+export function isMapboxForwardGeocodingResponse(data: unknown): data is MapboxForwardGeocodingResponse {
+  const response = data as Partial<MapboxForwardGeocodingResponse> | null;
+  return (
+    !!response &&
+    response.type === 'FeatureCollection' &&
+    Array.isArray(response.features) &&
+    Array.isArray(response.query)
+  );
 }
\ No newline at end of file
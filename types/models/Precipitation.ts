@@ -0,0 +1,41 @@
+// types/models/Precipitation.ts
+/**
+ * Point precipitation (past hours + forecast) for comparing rainfall with flow
+ * Amounts are millimetres; probabilities are 0-100
+ */
+
+/** Source of precipitation data ("stub" is synthetic sample data) */
+export type PrecipitationProviderName = "weatherkit" | "stub";
+
+/** Precipitation during the hour starting at `t` */
+export interface PrecipitationPoint {
+  /** ISO start of the hour */
+  t: string;
+  mm: number;
+  probability?: number;
+}
+
+/** Precipitation for one local calendar day */
+export interface PrecipitationDay {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  /** ISO start of the first hour in the window on that day */
+  start: string;
+  mm: number;
+}
+
+export interface PrecipitationSeries {
+  location: { lat: number; lon: number };
+  /** IANA timezone the daily totals are grouped by */
+  timezone: string;
+  provider: PrecipitationProviderName;
+  /** Sorted by time ascending */
+  hourly: PrecipitationPoint[];
+  daily: PrecipitationDay[];
+  /** Total over hours before now */
+  pastTotalMm: number;
+  /** Total over hours from now on */
+  forecastTotalMm: number;
+  /** ISO timestamp the data was fetched */
+  fetchedAt: string;
+}
@@ -0,0 +1,44 @@
+// types/models/RainfallRunoff.ts
+/**
+ * Rainfall–runoff lag: how long after rain at a place the reach's flow responds
+ * Precipitation in mm per hour, flow in CFS, lags in hours
+ */
+
+import type { ReachId } from "./RiverReach";
+import type { NormalizedPoint } from "./FlowForecast";
+import type { PrecipitationProviderName } from "./Precipitation";
+
+/** Correlation of rain with flow `lagHours` later */
+export interface LagCorrelation {
+  lagHours: number;
+  /** Pearson correlation coefficient, -1..1 */
+  r: number;
+  /** Hours paired at this lag */
+  sampleCount: number;
+}
+
+/** How much to trust the lag ("weak" when rain barely explains the flow) */
+export type LagStrength = "strong" | "moderate" | "weak";
+
+export interface RainfallRunoffLag {
+  reachId: ReachId;
+  location: { lat: number; lon: number };
+  provider: PrecipitationProviderName;
+  /** Lag with the highest correlation; null when there's too little rain or overlap */
+  lagHours: number | null;
+  /** Correlation at lagHours */
+  correlation: number | null;
+  strength: LagStrength | null;
+  /** Largest hourly rain in the window (q = mm) */
+  rainPeak: NormalizedPoint | null;
+  /** Highest flow within the lag window after rainPeak (q = CFS) */
+  flowPeak: NormalizedPoint | null;
+  /** flowPeak − rainPeak, hours */
+  peakLagHours: number | null;
+  /** One entry per lag tried, ordered by lag */
+  correlogram: LagCorrelation[];
+  /** Hours with both rain and flow */
+  overlapHours: number;
+  /** ISO timestamp the analysis was computed */
+  computedAt: string;
+}
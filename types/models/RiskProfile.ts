@@ -0,0 +1,38 @@
+// types/models/RiskProfile.ts
+/**
+ * Risk profiles: which flows map to which RiskLevel
+ * Stored in UserPreferences; a saved place may point at a different profile.
+ */
+
+import type { RiskLevel } from "./FlowForecast";
+import type { ReturnPeriodThresholds } from "./ReturnPeriod";
+
+/** Threshold a rule fires at - a return period or an absolute flow */
+export type RiskThreshold =
+  | { type: "returnPeriod"; returnPeriod: keyof ReturnPeriodThresholds }
+  | { type: "absolute"; /** Discharge in CFS */ cfs: number };
+
+export interface RiskRule {
+  /** Severity used for colours and ordering */
+  level: Exclude<RiskLevel, "normal">;
+  /** Display name for custom levels (e.g., "Action Stage"); defaults to the level */
+  label?: string;
+  threshold: RiskThreshold;
+}
+
+export interface RiskProfile {
+  id: string;
+  name: string;
+  /** Any order - the highest threshold the flow reaches wins */
+  rules: RiskRule[];
+}
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  /** Rule label, or the level name when no custom label applies */
+  label: string;
+  /** Rule that matched (null = below every threshold) */
+  rule: RiskRule | null;
+  /** Resolved threshold of the matched rule in CFS */
+  thresholdCfs: number | null;
+}
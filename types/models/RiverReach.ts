@@ -17,9 +17,40 @@ export interface ReachRoute {
   downstream: RouteReach[];
 }
 
+/** Direction to walk the route graph from a reach */
+export type NetworkDirection = "upstream" | "downstream";
+
+/** One reach reached while walking the route graph */
+export interface ReachNetworkNode {
+  reachId: ReachId;
+  /** API returns as string (e.g., "6") */
+  streamOrder: string;
+  /** Hops from the root reach (1 = direct neighbour) */
+  depth: number;
+  /** Reach this node was discovered from */
+  parentReachId: ReachId;
+  /** Present when metadata for the node could be fetched */
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ReachNetwork {
+  rootReachId: ReachId;
+  direction: NetworkDirection;
+  /** Requested depth */
+  depth: number;
+  /** Breadth-first order (nearest reaches first) */
+  nodes: ReachNetworkNode[];
+  /** True when the walk stopped at the node limit before reaching `depth` */
+  truncated: boolean;
+}
+
 export type StreamflowSeriesName =
+  | "analysis_assimilation"
   | "short_range"
   | "medium_range"
+  | "medium_range_blend"
   | "long_range";
 
 export interface RiverReach {
@@ -33,3 +64,10 @@ export interface RiverReach {
   /** Optional for MVP — fetch on demand when needed */
   route?: ReachRoute;
 }
+
+/** Flowline geometry of a reach (NHDPlus), for maps that don't draw the stream tileset */
+export interface ReachGeometry {
+  reachId: ReachId;
+  /** Line vertices as [longitude, latitude] */
+  coordinates: Array<[number, number]>;
+}
@@ -15,6 +15,8 @@ export interface SavedPlace {
   isPrimary?: boolean;
   notes?: string;
   photoUrl?: string;
+  /** Risk profile override for this place (falls back to the active profile) */
+  riskProfileId?: string;
   /** ISO timestamp - required for tracking */
   createdAt: string;
   /** ISO timestamp - updated when place is modified */
@@ -0,0 +1,37 @@
+// types/models/Search.ts
+/**
+ * Map search results: places, reach IDs, "lat, lon" pairs and saved places
+ * ranked together in one list
+ */
+
+import type { ReachId } from "./RiverReach";
+
+/** What a search result points at */
+export type SearchResultType = "reach" | "coordinates" | "savedPlace" | "place";
+
+export interface SearchResult {
+  /** Unique within one result list */
+  id: string;
+  type: SearchResultType;
+  /** Primary label, e.g. place or reach name */
+  title: string;
+  /** Secondary label, e.g. full address or "Reach 10376192" */
+  subtitle?: string;
+  lat?: number;
+  lon?: number;
+  /** Set for reach results and saved places tied to a reach */
+  reachId?: ReachId;
+  /** Suggested map zoom when flying to the result */
+  zoom?: number;
+  /** Ranking score, 0-1 (higher first) */
+  score: number;
+}
+
+export interface SearchOptions {
+  /** Maximum results to return (default 8) */
+  limit?: number;
+  /** Bias place results toward this point */
+  proximity?: { lat: number; lon: number };
+  /** Cancels in-flight lookups */
+  signal?: AbortSignal;
+}
@@ -4,11 +4,15 @@
  * Note: Internal app logic uses CFS/Celsius; these control display conversion
  */
 
+import type { RiskProfile } from './RiskProfile';
+
 export type FlowUnit = 'CFS' | 'CMS';
 export type TempUnit = 'F' | 'C';
 export type ThemePref = 'system' | 'light' | 'dark';
 export type BaseMapLayer = 'standard' | 'streets' | 'satellite' | 'satelliteStreets' | 'outdoors' | 'light' | 'dark';
 export type MapView = '2D' | '3D';
+/** Map renderer: Mapbox GL (stream tileset) or Apple MapKit JS (streams resolved on tap) */
+export type MapProvider = 'mapbox' | 'mapkit';
 
 export interface UserPreferences {
   /** Display preference - internal logic stays in CFS */
@@ -29,4 +33,10 @@ export interface UserPreferences {
   baseMapLayer?: BaseMapLayer;
   /** Map view mode */
   mapView?: MapView;
+  /** Map renderer; Mapbox if unset */
+  mapProvider?: MapProvider;
+  /** User-defined risk profiles (the built-in default is always available) */
+  riskProfiles?: RiskProfile[];
+  /** Profile used when a saved place has no override; default profile if unset */
+  activeRiskProfileId?: string;
 }
\ No newline at end of file
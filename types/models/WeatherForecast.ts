@@ -3,15 +3,75 @@ export interface WeatherPoint {
   time: string;           // ISO
   temperatureC?: number;
   precipitationMm?: number;
+  precipitationChance?: number; // 0-100
+  conditionCode?: string; // provider condition, e.g. "PartlyCloudy"
   uvIndex?: number;
   aqi?: number;           // US EPA AQI scale
   windKph?: number;
   windDirectionDeg?: number;
 }
 
+export interface WeatherDay {
+  date: string;           // ISO (start of the forecast day)
+  conditionCode?: string;
+  temperatureMaxC?: number;
+  temperatureMinC?: number;
+  precipitationMm?: number;
+  precipitationChance?: number; // 0-100
+  uvIndexMax?: number;
+}
+
 export interface WeatherForecast {
   location: { lat: number; lon: number };
+  /** Conditions now (precipitationMm is the current rate per hour) */
+  current: WeatherPoint | null;
   hourly: WeatherPoint[];
+  daily: WeatherDay[];
   issuedAt: string;       // ISO
   provider: 'weatherkit';
 }
+
+// ---------- Raw WeatherKit REST shapes (subset we read) ----------
+
+export interface WeatherKitMetadata {
+  readTime?: string;
+  expireTime?: string;
+}
+
+export interface WeatherKitCurrent {
+  asOf: string;
+  conditionCode?: string;
+  temperature?: number;             // °C
+  precipitationIntensity?: number;  // mm/h
+  uvIndex?: number;
+  windSpeed?: number;               // km/h
+  windDirection?: number;           // degrees
+  metadata?: WeatherKitMetadata;
+}
+
+export interface WeatherKitHour {
+  forecastStart: string;
+  conditionCode?: string;
+  temperature?: number;
+  precipitationAmount?: number;     // mm
+  precipitationChance?: number;     // 0-1
+  uvIndex?: number;
+  windSpeed?: number;
+  windDirection?: number;
+}
+
+export interface WeatherKitDay {
+  forecastStart: string;
+  conditionCode?: string;
+  temperatureMax?: number;
+  temperatureMin?: number;
+  precipitationAmount?: number;
+  precipitationChance?: number;     // 0-1
+  maxUvIndex?: number;
+}
+
+export interface WeatherKitResponse {
+  currentWeather?: WeatherKitCurrent;
+  forecastHourly?: { hours: WeatherKitHour[]; metadata?: WeatherKitMetadata };
+  forecastDaily?: { days: WeatherKitDay[]; metadata?: WeatherKitMetadata };
+}
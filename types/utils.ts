@@ -13,13 +13,28 @@ export class ConfigurationError extends Error {
   }
 }
 
+/**
+ * Machine-readable error codes carried by every failed ApiResponse
+ * Clients branch on these (retry, message), never on error text.
+ */
+export type ApiErrorCode =
+  | 'INVALID_PARAM'      // 400: bad path/query/body parameter
+  | 'REACH_NOT_FOUND'    // 404: unknown reach or no data for it
+  | 'NOT_FOUND'          // 404: any other missing resource (upstream 404, unrecorded replay)
+  | 'RATE_LIMITED'       // 429: upstream (or we) asked callers to back off
+  | 'UPSTREAM_TIMEOUT'   // 504: upstream API didn't answer in time
+  | 'UPSTREAM_ERROR'     // 502/5xx: upstream API failed or sent garbage
+  | 'NOT_CONFIGURED'     // 503: upstream API not configured on this server
+  | 'INTERNAL_ERROR';    // 500: anything else
+
 export class ApiError extends Error {
   constructor(
     message: string,
     public statusCode: number,
     public endpoint: string,
     public details?: unknown,         // optional payload/response body excerpt
-    public cause?: unknown
+    public cause?: unknown,
+    public retryAfter?: number        // seconds, from an upstream Retry-After header
   ) {
     super(message);
     this.name = 'ApiError';
@@ -28,8 +43,28 @@ export class ApiError extends Error {
     return e instanceof ApiError;
   }
   toJSON() {
-    const { name, message, statusCode, endpoint, details } = this;
-    return { name, message, statusCode, endpoint, details };
+    const { name, message, statusCode, endpoint, details, retryAfter } = this;
+    return { name, message, statusCode, endpoint, details, retryAfter };
+  }
+}
+
+/**
+ * Failed request to one of our own API routes, as seen by the client
+ * Built from the ApiResponse envelope so callers can branch on `code`.
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: ApiErrorCode,
+    public retryAfter?: number,       // seconds
+    public context?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+  static isApiRequestError(e: unknown): e is ApiRequestError {
+    return e instanceof ApiRequestError;
   }
 }
 